@@ -0,0 +1,58 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it } from 'vitest';
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { RouterProvider, createBrowserHistory, createRouter } from '@tanstack/react-router';
+import { routeTree } from '@/lib/router';
+import { useParentGateStore } from '@/lib/parent-gate/store';
+
+/**
+ * Let pending history steps and route loads finish
+ */
+async function settle() {
+  await act(() => new Promise((resolve) => setTimeout(resolve, 50)));
+}
+
+/**
+ * Render a game, then open its settings through the router, as the settings button does
+ */
+async function openSettings(gameId: string) {
+  window.history.replaceState(null, '', `/games/${gameId}`);
+  const router = createRouter({ routeTree, history: createBrowserHistory() });
+  await router.load();
+  render(<RouterProvider router={router} />);
+  act(() => {
+    router.navigate({ to: '/games/$gameId/settings', params: { gameId } });
+  });
+  await settle();
+  return router;
+}
+
+describe('game overlay routes', () => {
+  afterEach(() => {
+    cleanup();
+    useParentGateStore.getState().lock();
+  });
+
+  it('keeps the progress overlay open when opened from settings', async () => {
+    useParentGateStore.getState().unlock();
+    const router = await openSettings('letter-match');
+
+    fireEvent.click(await screen.findByText(/View Letter Progress/));
+    await settle();
+
+    expect(screen.getByText('Letter Progress')).toBeTruthy();
+    expect(router.state.location.pathname).toBe('/games/letter-match/progress');
+    expect(document.getElementById('letter-match-settings-panel')).toBeNull();
+  });
+
+  it('goes back to the game when settings close', async () => {
+    useParentGateStore.getState().unlock();
+    const router = await openSettings('letter-match');
+
+    fireEvent.click(await screen.findByText(/Done/));
+    await settle();
+
+    expect(router.state.location.pathname).toBe('/games/letter-match');
+  });
+});
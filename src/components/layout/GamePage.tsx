@@ -0,0 +1,70 @@
+/**
+ * Game Page
+ * Renders a registered game, with its settings/progress routes on top
+ */
+
+import { Outlet, useNavigate, useParams, useRouter } from '@tanstack/react-router';
+import { getGame } from '@/lib/games/registry';
+import { ParentGuard } from '@/components/shared/ParentGate';
+import type { GameId } from '@/types/game';
+
+export function GamePage() {
+  const { gameId } = useParams({ from: '/games/$gameId' });
+  const game = getGame(gameId as GameId);
+
+  // Unknown ids are redirected by the route before rendering
+  if (!game) {
+    return null;
+  }
+
+  const GameComponent = game.Component;
+
+  return (
+    <>
+      <GameComponent />
+      <Outlet />
+    </>
+  );
+}
+
+interface GameOverlayPageProps {
+  screen: 'settings' | 'progress';
+}
+
+/**
+ * Settings or progress screen of a game, shown as an overlay
+ * Both are parent-only and sit behind the parent gate
+ */
+export function GameOverlayPage({ screen }: GameOverlayPageProps) {
+  const { gameId } = useParams({ from: '/games/$gameId' });
+  const navigate = useNavigate();
+  const router = useRouter();
+  const game = getGame(gameId as GameId);
+
+  const OverlayComponent =
+    screen === 'settings' ? game?.SettingsComponent : game?.ProgressComponent;
+
+  if (!OverlayComponent) {
+    return null;
+  }
+
+  // Return to the game underneath, preferring history so the back stack stays clean
+  const handleClose = () => {
+    if (router.history.canGoBack()) {
+      router.history.back();
+    } else {
+      navigate({ to: '/games/$gameId', params: { gameId }, replace: true });
+    }
+  };
+
+  // Swap settings for progress in place; closing first would go back over the swap
+  const handleViewProgress = game?.ProgressComponent
+    ? () => navigate({ to: '/games/$gameId/progress', params: { gameId }, replace: true })
+    : undefined;
+
+  return (
+    <ParentGuard onCancel={handleClose}>
+      <OverlayComponent onClose={handleClose} onViewProgress={handleViewProgress} />
+    </ParentGuard>
+  );
+}
@@ -4,10 +4,12 @@
  */
 
 import { useEffect, useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
 import { getAllGameConfigs } from '@/lib/games/registry';
 import type { GameConfig } from '@/types/game';
 import { db } from '@/lib/storage/db';
 import { useProfileStore } from '@/lib/profiles/store';
+import { useParentGateStore } from '@/lib/parent-gate/store';
 import { ProfileSelector } from '@/components/shared/ProfileSelector';
 import { ProfileCreateModal } from '@/components/shared/ProfileCreateModal';
 
@@ -16,7 +18,9 @@ export const HomePage: React.FC = () => {
   const [dbInitialized, setDbInitialized] = useState(false);
   const [showFirstRunModal, setShowFirstRunModal] = useState(false);
 
+  const navigate = useNavigate();
   const { hasProfiles, isLoading } = useProfileStore();
+  const requestParentAccess = useParentGateStore((state) => state.requestAccess);
 
   useEffect(() => {
     // Get registered games
@@ -37,14 +41,11 @@ export const HomePage: React.FC = () => {
   }, [isLoading, hasProfiles]);
 
   const handleGameClick = (gameId: string) => {
-    // Use global navigation function
-    if ((window as any).navigateToGame) {
-      (window as any).navigateToGame(gameId);
-    }
+    navigate({ to: '/games/$gameId', params: { gameId } });
   };
 
   return (
-    <div className="min-h-screen bg-[#f7f7f7] relative overflow-hidden">
+    <div className="min-h-screen bg-page relative overflow-hidden">
       {/* Decorative Background Blobs */}
       <div className="fixed inset-0 overflow-hidden pointer-events-none">
         {/* Top left yellow blob */}
@@ -77,47 +78,59 @@ export const HomePage: React.FC = () => {
         <header className="pt-8 pb-4">
           <div className="flex items-center justify-between mb-6">
             <div className="inline-flex items-center gap-6">
-              <div className="w-20 h-20 bg-yellow-400 rounded-3xl flex items-center justify-center border-[3px] border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] transform -rotate-6">
+              <div className="w-20 h-20 bg-yellow-400 rounded-3xl flex items-center justify-center border-[3px] border-ink shadow-[4px_4px_0px_0px_var(--color-shadow)] transform -rotate-6">
                 <span className="text-4xl">🎓</span>
               </div>
               <div className="text-left">
-                <h1 className="text-5xl font-black text-black mb-1">
+                <h1 className="text-5xl font-black text-ink mb-1">
                   Foundgarten
                 </h1>
-                <div className="inline-block bg-yellow-300 px-3 py-1 rounded-full border-[2px] border-black">
-                  <p className="text-sm font-bold text-black">Learn & Play!</p>
+                <div className="inline-block bg-yellow-300 px-3 py-1 rounded-full border-[2px] border-ink">
+                  <p className="text-sm font-bold text-ink">Learn & Play!</p>
                 </div>
               </div>
             </div>
 
-            {/* Profile Selector */}
-            {!isLoading && hasProfiles() && <ProfileSelector />}
+            <div className="flex items-center gap-3">
+              {/* Profile Selector */}
+              {!isLoading && hasProfiles() && <ProfileSelector />}
+
+              {/* App Settings */}
+              <button
+                onClick={() => requestParentAccess(() => navigate({ to: '/settings' }))}
+                className="w-12 h-12 bg-yellow-300 rounded-2xl border-[3px] border-ink flex items-center justify-center hover:bg-yellow-400 active:bg-yellow-500 transition-colors shadow-[3px_3px_0px_0px_var(--color-shadow)] active:shadow-none active:translate-x-[3px] active:translate-y-[3px]"
+                aria-label="Settings"
+                id="home-settings-button"
+              >
+                <span className="text-2xl">⚙️</span>
+              </button>
+            </div>
           </div>
         </header>
 
         {/* Games Section */}
         <section>
-          <h2 className="text-3xl font-black text-black mb-8">
+          <h2 className="text-3xl font-black text-ink mb-8">
             Learning Games
           </h2>
 
           {games.length === 0 ? (
-            <div className="bg-white rounded-[32px] p-12 text-center border-[3px] border-black shadow-[6px_6px_0px_0px_rgba(0,0,0,1)] relative overflow-hidden">
+            <div className="bg-surface rounded-[32px] p-12 text-center border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)] relative overflow-hidden">
               {/* Background decoration */}
               <div className="absolute top-0 right-0 w-32 h-32 bg-yellow-200 rounded-full -mr-16 -mt-16 opacity-50" />
               <div className="absolute bottom-0 left-0 w-40 h-40 bg-teal-200 rounded-full -ml-20 -mb-20 opacity-50" />
 
               <div className="relative">
-                <div className="w-28 h-28 bg-yellow-100 rounded-full mx-auto mb-8 flex items-center justify-center border-[3px] border-black">
+                <div className="w-28 h-28 bg-yellow-100 rounded-full mx-auto mb-8 flex items-center justify-center border-[3px] border-ink">
                   <span className="text-6xl">🎮</span>
                 </div>
-                <h3 className="text-4xl font-black text-black mb-4">
+                <h3 className="text-4xl font-black text-ink mb-4">
                   Games on the Way!
                 </h3>
-                <p className="text-lg text-gray-700 mb-3 max-w-md mx-auto font-medium">
+                <p className="text-lg text-ink-muted mb-3 max-w-md mx-auto font-medium">
                   We're building fun learning games for you
                 </p>
-                <p className="text-base text-gray-600 font-medium">
+                <p className="text-base text-ink-muted font-medium">
                   Everything is ready to go ✓
                 </p>
               </div>
@@ -127,20 +140,20 @@ export const HomePage: React.FC = () => {
               {games.map((game, idx) => (
                 <div
                   key={game.id}
-                  className="group bg-white rounded-[32px] p-6 border-[3px] border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] hover:shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] transition-all cursor-pointer"
+                  className="group bg-surface rounded-[32px] p-6 border-[3px] border-ink shadow-[4px_4px_0px_0px_var(--color-shadow)] hover:shadow-[8px_8px_0px_0px_var(--color-shadow)] transition-all cursor-pointer"
                   onClick={() => handleGameClick(game.id)}
                 >
                   <div className="flex items-start gap-5">
                     <div
-                      className={`w-16 h-16 rounded-2xl flex items-center justify-center text-4xl border-[3px] border-black shrink-0 transform ${idx % 2 === 0 ? 'rotate-3 bg-yellow-300' : '-rotate-3 bg-teal-300'}`}
+                      className={`w-16 h-16 rounded-2xl flex items-center justify-center text-4xl border-[3px] border-ink shrink-0 transform ${idx % 2 === 0 ? 'rotate-3 bg-yellow-300' : '-rotate-3 bg-teal-300'}`}
                     >
                       {game.icon}
                     </div>
                     <div className="flex-1">
-                      <h3 className="text-xl font-black text-black mb-2 group-hover:text-teal-600 transition-colors">
+                      <h3 className="text-xl font-black text-ink mb-2 group-hover:text-teal-600 transition-colors">
                         {game.name}
                       </h3>
-                      <p className="text-sm text-gray-700 font-medium">
+                      <p className="text-sm text-ink-muted font-medium">
                         {game.description}
                       </p>
                     </div>
@@ -154,7 +167,7 @@ export const HomePage: React.FC = () => {
         {/* Debug Info */}
         {import.meta.env.DEV && (
           <section>
-            <details className="bg-gray-900 text-white rounded-[24px] p-6 border-[3px] border-black">
+            <details className="bg-ink text-page rounded-[24px] p-6 border-[3px] border-ink">
               <summary className="cursor-pointer font-black text-lg flex items-center gap-2">
                 <span>🔧</span>
                 Developer Info
@@ -0,0 +1,187 @@
+/**
+ * Profiles Page
+ * Manage child profiles: switch, rename, add and delete
+ */
+
+import { useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { useProfileStore } from '@/lib/profiles/store';
+import { GameContainer } from '@/components/shared/GameContainer';
+import { Button } from '@/components/shared/Button';
+import { Card } from '@/components/shared/Card';
+import { ProfileCreateModal } from '@/components/shared/ProfileCreateModal';
+import { ParentGuard } from '@/components/shared/ParentGate';
+
+export function ProfilesPage() {
+  const navigate = useNavigate();
+  const { profiles, activeProfileId, setActiveProfile, updateProfile, deleteProfile } =
+    useProfileStore();
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editName, setEditName] = useState('');
+  const [profileToDelete, setProfileToDelete] = useState<number | null>(null);
+
+  const deleteCandidate = profiles.find((p) => p.id === profileToDelete);
+
+  const handleStartEdit = (id: number, name: string) => {
+    setEditingId(id);
+    setEditName(name);
+  };
+
+  const handleSaveEdit = async (id: number, emoji: string) => {
+    if (!editName.trim()) return;
+    await updateProfile(id, editName.trim(), emoji);
+    setEditingId(null);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (profileToDelete) {
+      await deleteProfile(profileToDelete);
+      setProfileToDelete(null);
+    }
+  };
+
+  return (
+    <ParentGuard onCancel={() => navigate({ to: '/' })}>
+      <GameContainer title="Profiles" onBack={() => navigate({ to: '/' })}>
+        <div className="w-full max-w-md flex-1 flex flex-col gap-4 py-4" id="profiles-page">
+          {profiles.map((profile) => (
+            <Card
+              key={profile.id}
+              className={`p-4 ${profile.id === activeProfileId ? '!bg-yellow-100' : ''}`}
+              id={`profiles-page-profile-${profile.id}`}
+            >
+              <div className="flex items-center gap-3">
+                <div className="w-14 h-14 bg-yellow-200 rounded-2xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                  <span className="text-4xl">{profile.emoji}</span>
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  {editingId === profile.id ? (
+                    <input
+                      type="text"
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleSaveEdit(profile.id!, profile.emoji);
+                      }}
+                      maxLength={20}
+                      autoFocus
+                      className="w-full px-3 py-2 text-lg font-bold bg-surface border-[3px] border-ink rounded-xl focus:outline-none"
+                      id={`profiles-page-name-input-${profile.id}`}
+                    />
+                  ) : (
+                    <>
+                      <div className="text-lg font-black text-ink truncate">{profile.name}</div>
+                      {profile.id === activeProfileId && (
+                        <div className="text-xs text-teal-600 font-semibold">✓ Active</div>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex gap-2 mt-4">
+                {editingId === profile.id ? (
+                  <>
+                    <Button variant="ghost" size="small" className="flex-1" onClick={() => setEditingId(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      variant="secondary"
+                      size="small"
+                      className="flex-1"
+                      onClick={() => handleSaveEdit(profile.id!, profile.emoji)}
+                      disabled={!editName.trim()}
+                      id={`profiles-page-save-${profile.id}`}
+                    >
+                      Save
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    {profile.id !== activeProfileId && (
+                      <Button
+                        variant="secondary"
+                        size="small"
+                        className="flex-1"
+                        onClick={() => setActiveProfile(profile.id!)}
+                        id={`profiles-page-activate-${profile.id}`}
+                      >
+                        Switch
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="small"
+                      className="flex-1"
+                      onClick={() => handleStartEdit(profile.id!, profile.name)}
+                      id={`profiles-page-rename-${profile.id}`}
+                    >
+                      ✏️ Rename
+                    </Button>
+                    {profiles.length > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="small"
+                        className="flex-1 !border-coral-400 !text-coral-600"
+                        onClick={() => setProfileToDelete(profile.id!)}
+                        id={`profiles-page-delete-${profile.id}`}
+                      >
+                        🗑️ Delete
+                      </Button>
+                    )}
+                  </>
+                )}
+              </div>
+            </Card>
+          ))}
+
+          <Button
+            variant="primary"
+            onClick={() => setShowCreateModal(true)}
+            className="w-full"
+            id="profiles-page-add-button"
+          >
+            ➕ Add Profile
+          </Button>
+        </div>
+
+        <ProfileCreateModal
+          isOpen={showCreateModal}
+          onClose={() => setShowCreateModal(false)}
+          isFirstRun={false}
+        />
+
+        {/* Delete Confirmation Modal */}
+        {deleteCandidate && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-backdrop">
+            <Card elevated className="w-full max-w-sm p-6">
+              <div className="text-center mb-6">
+                <h3 className="text-xl font-black text-ink mb-2">Delete Profile?</h3>
+                <p className="text-sm font-bold text-ink">
+                  This will permanently delete {deleteCandidate.emoji}{' '}
+                  <span className="font-black">{deleteCandidate.name}</span>'s profile and all
+                  their learning data.
+                </p>
+              </div>
+              <div className="flex gap-3">
+                <Button variant="ghost" className="flex-1" onClick={() => setProfileToDelete(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  variant="primary"
+                  className="flex-1 !bg-coral-400"
+                  onClick={handleConfirmDelete}
+                  id="profiles-page-confirm-delete"
+                >
+                  Delete
+                </Button>
+              </div>
+            </Card>
+          </div>
+        )}
+      </GameContainer>
+    </ParentGuard>
+  );
+}
@@ -0,0 +1,454 @@
+/**
+ * Settings Page
+ * App-wide parent settings: appearance, sound, parent gate, backup and restore
+ */
+
+import { useRef, useState } from 'react';
+import { useNavigate } from '@tanstack/react-router';
+import { initializeProfileStore } from '@/lib/profiles/store';
+import { reloadGameConfigs } from '@/lib/profiles/game-config';
+import { useAppStore, type ThemePreference } from '@/hooks/useAppStore';
+import { PIN_LENGTH, TIMEOUT_OPTIONS, useParentGateStore } from '@/lib/parent-gate/store';
+import {
+  downloadBackup,
+  parseBackup,
+  previewRestore,
+  restoreBackup,
+  type BackupFile,
+  type RestoreMode,
+  type RestorePreview,
+} from '@/lib/storage/backup';
+import { GameContainer } from '@/components/shared/GameContainer';
+import { Button } from '@/components/shared/Button';
+import { Card } from '@/components/shared/Card';
+import { ParentGuard } from '@/components/shared/ParentGate';
+
+export function SettingsPage() {
+  const navigate = useNavigate();
+
+  return (
+    <ParentGuard onCancel={() => navigate({ to: '/' })}>
+      <GameContainer title="Settings" onBack={() => navigate({ to: '/' })}>
+        <div className="w-full max-w-md flex-1 flex flex-col gap-4 py-4" id="settings-page">
+          <AppearanceSection />
+          <FeedbackSection />
+          <ParentGateSection />
+          <BackupSection />
+        </div>
+      </GameContainer>
+    </ParentGuard>
+  );
+}
+
+const THEME_OPTIONS: { value: ThemePreference; label: string }[] = [
+  { value: 'auto', label: '📱 Auto' },
+  { value: 'light', label: '☀️ Light' },
+  { value: 'dark', label: '🌙 Dark' },
+  { value: 'high-contrast', label: '🔳 High Contrast' },
+];
+
+/**
+ * Theme selection
+ */
+function AppearanceSection() {
+  const { theme, setTheme } = useAppStore();
+
+  return (
+    <Card className="p-5" id="settings-appearance-section">
+      <h2 className="text-xl font-black text-ink mb-1">🎨 Appearance</h2>
+      <p className="text-sm font-semibold text-ink-muted mb-4">
+        Auto follows the device. High contrast uses bold black and white for easier reading.
+      </p>
+
+      <div className="grid grid-cols-2 gap-2">
+        {THEME_OPTIONS.map(({ value, label }) => (
+          <button
+            key={value}
+            onClick={() => setTheme(value)}
+            className={`py-3 px-2 rounded-xl border-[3px] border-ink font-black text-sm transition-all ${
+              theme === value
+                ? 'bg-yellow-300 shadow-[2px_2px_0px_0px_var(--color-shadow)]'
+                : 'bg-surface hover:bg-surface-muted'
+            }`}
+            aria-pressed={theme === value}
+            id={`settings-theme-${value}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </Card>
+  );
+}
+
+/**
+ * Global sound and haptic switches (games have their own on top)
+ */
+function FeedbackSection() {
+  const { soundEnabled, hapticEnabled, setSoundEnabled, setHapticEnabled } = useAppStore();
+
+  const toggles = [
+    { id: 'sound', label: '🔊 Sound', enabled: soundEnabled, onToggle: setSoundEnabled },
+    { id: 'haptic', label: '📳 Vibration', enabled: hapticEnabled, onToggle: setHapticEnabled },
+  ];
+
+  return (
+    <Card className="p-5" id="settings-feedback-section">
+      <h2 className="text-xl font-black text-ink mb-1">🎵 Sound & Vibration</h2>
+      <p className="text-sm font-semibold text-ink-muted mb-4">
+        Turning these off silences every game, whatever its own settings say.
+      </p>
+
+      <div className="space-y-4">
+        {toggles.map(({ id, label, enabled, onToggle }) => (
+          <div key={id} className="flex items-center justify-between">
+            <label className="text-sm font-bold text-ink">{label}</label>
+            <button
+              onClick={() => onToggle(!enabled)}
+              className={`relative w-14 h-8 rounded-full transition-colors border-[3px] border-ink ${
+                enabled ? 'bg-teal-400' : 'bg-gray-200'
+              }`}
+              aria-pressed={enabled}
+              id={`settings-${id}-toggle`}
+            >
+              <div
+                className={`absolute top-0.5 left-0.5 w-6 h-6 bg-surface rounded-full transition-transform border-[2px] border-ink ${
+                  enabled ? 'translate-x-6' : ''
+                }`}
+              />
+            </button>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
+
+/**
+ * PIN and re-lock timeout for the parent gate
+ */
+function ParentGateSection() {
+  const { hasPin, timeoutMinutes, setPin, removePin, setTimeoutMinutes, lock } =
+    useParentGateStore();
+  const [isEditingPin, setIsEditingPin] = useState(false);
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+
+  const pinValid = newPin.length === PIN_LENGTH; // Inputs only accept digits
+  const canSave = pinValid && newPin === confirmPin;
+
+  const handleSavePin = async () => {
+    if (!canSave) return;
+    await setPin(newPin);
+    setIsEditingPin(false);
+    setNewPin('');
+    setConfirmPin('');
+  };
+
+  const pinInputClass =
+    'w-full px-4 py-3 text-xl font-black text-center tracking-[0.5em] bg-surface border-[3px] border-ink rounded-xl focus:outline-none';
+
+  return (
+    <Card className="p-5" id="settings-parent-gate-section">
+      <h2 className="text-xl font-black text-ink mb-1">🔒 Parent Gate</h2>
+      <p className="text-sm font-semibold text-ink-muted mb-4">
+        {hasPin
+          ? 'Settings, progress and profiles are protected by your PIN.'
+          : 'Settings, progress and profiles are protected by a grown-up challenge. Set a PIN to use it instead.'}
+      </p>
+
+      {isEditingPin ? (
+        <div className="flex flex-col gap-3">
+          <input
+            type="password"
+            inputMode="numeric"
+            maxLength={PIN_LENGTH}
+            placeholder="New PIN"
+            value={newPin}
+            onChange={(e) => setNewPin(e.target.value.replace(/\D/g, ''))}
+            className={pinInputClass}
+            id="settings-new-pin-input"
+          />
+          <input
+            type="password"
+            inputMode="numeric"
+            maxLength={PIN_LENGTH}
+            placeholder="Repeat PIN"
+            value={confirmPin}
+            onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+            className={pinInputClass}
+            id="settings-confirm-pin-input"
+          />
+          {pinValid && confirmPin.length === PIN_LENGTH && newPin !== confirmPin && (
+            <p className="text-xs font-bold text-coral-600">The PINs don't match</p>
+          )}
+          <div className="flex gap-3">
+            <Button variant="ghost" className="flex-1" onClick={() => setIsEditingPin(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="secondary"
+              className="flex-1"
+              onClick={handleSavePin}
+              disabled={!canSave}
+              id="settings-save-pin-button"
+            >
+              Save PIN
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex gap-3">
+          <Button
+            variant="secondary"
+            className="flex-1"
+            onClick={() => setIsEditingPin(true)}
+            id="settings-set-pin-button"
+          >
+            {hasPin ? '🔑 Change PIN' : '🔑 Set PIN'}
+          </Button>
+          {hasPin && (
+            <Button
+              variant="ghost"
+              className="flex-1 !border-coral-400 !text-coral-600"
+              onClick={removePin}
+              id="settings-remove-pin-button"
+            >
+              Remove PIN
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Re-lock timeout */}
+      <div className="mt-5">
+        <label className="block text-sm font-black text-ink mb-2">Lock again after</label>
+        <div className="grid grid-cols-4 gap-2">
+          {TIMEOUT_OPTIONS.map((minutes) => (
+            <button
+              key={minutes}
+              onClick={() => setTimeoutMinutes(minutes)}
+              className={`py-2 rounded-xl border-[3px] border-ink font-black text-sm transition-all ${
+                timeoutMinutes === minutes
+                  ? 'bg-yellow-300 shadow-[2px_2px_0px_0px_var(--color-shadow)]'
+                  : 'bg-surface hover:bg-surface-muted'
+              }`}
+              id={`settings-timeout-${minutes}`}
+            >
+              {minutes} min
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <Button variant="ghost" className="w-full mt-4" onClick={lock} id="settings-lock-now-button">
+        🔒 Lock Now
+      </Button>
+    </Card>
+  );
+}
+
+/**
+ * Backup download and restore with preview
+ */
+function BackupSection() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+
+  const handleDownload = async () => {
+    setIsWorking(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await downloadBackup();
+      setMessage('Backup downloaded ✓');
+    } catch (err) {
+      console.error('Failed to create backup:', err);
+      setError('Could not create the backup. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const showPreview = async (file: BackupFile, mode: RestoreMode) => {
+    setBackup(file);
+    setPreview(await previewRestore(file, mode));
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+
+    setError(null);
+    setMessage(null);
+
+    const result = parseBackup(await file.text());
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+
+    await showPreview(result.backup, 'merge');
+  };
+
+  const handleCancel = () => {
+    setBackup(null);
+    setPreview(null);
+  };
+
+  const handleConfirmRestore = async () => {
+    if (!backup || !preview) return;
+
+    setIsWorking(true);
+    try {
+      await restoreBackup(backup, preview.mode);
+      await initializeProfileStore();
+      reloadGameConfigs(); // The active profile may be unchanged, so no profile switch reloads them
+      await useParentGateStore.getState().loadSettings(); // A replace restores the PIN too
+      setMessage('Backup restored ✓');
+      handleCancel();
+    } catch (err) {
+      console.error('Failed to restore backup:', err);
+      setError('Could not restore the backup. Nothing was changed.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Card className="p-5" id="settings-backup-section">
+      <h2 className="text-xl font-black text-ink mb-1">💾 Backup & Restore</h2>
+      <p className="text-sm font-semibold text-ink-muted mb-4">
+        Save every profile and all progress to a file, then restore it on a new device.
+      </p>
+
+      <div className="flex flex-col gap-3">
+        <Button
+          variant="secondary"
+          onClick={handleDownload}
+          disabled={isWorking}
+          className="w-full"
+          id="settings-backup-download-button"
+        >
+          ⬇️ Download Backup
+        </Button>
+
+        <Button
+          variant="ghost"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isWorking}
+          className="w-full"
+          id="settings-backup-restore-button"
+        >
+          ⬆️ Restore from File
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileSelected}
+          className="hidden"
+          id="settings-backup-file-input"
+        />
+      </div>
+
+      {error && (
+        <p className="mt-4 text-sm font-bold text-coral-600" id="settings-backup-error">
+          {error}
+        </p>
+      )}
+      {message && (
+        <p className="mt-4 text-sm font-bold text-teal-600" id="settings-backup-message">
+          {message}
+        </p>
+      )}
+
+      {/* Restore Preview Modal */}
+      {backup && preview && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-backdrop overflow-y-auto">
+          <Card elevated className="w-full max-w-sm p-6 my-auto" id="settings-restore-preview">
+            <h3 className="text-xl font-black text-ink mb-1 text-center">Restore Backup?</h3>
+            <p className="text-xs font-semibold text-ink-muted mb-4 text-center">
+              Made on {new Date(preview.exportDate).toLocaleString()}
+            </p>
+
+            {/* Mode selection */}
+            <div className="flex gap-2 mb-4">
+              {(['merge', 'replace'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => showPreview(backup, mode)}
+                  className={`flex-1 py-2 px-3 rounded-xl border-[3px] border-ink font-black text-sm transition-all ${
+                    preview.mode === mode
+                      ? 'bg-yellow-300 shadow-[2px_2px_0px_0px_var(--color-shadow)]'
+                      : 'bg-surface hover:bg-surface-muted'
+                  }`}
+                  id={`settings-restore-mode-${mode}`}
+                >
+                  {mode === 'merge' ? '🔀 Merge' : '♻️ Replace All'}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs font-semibold text-ink-muted mb-4">
+              {preview.mode === 'merge'
+                ? 'Profiles with the same name get the progress from the backup. Other profiles on this device are kept.'
+                : 'Everything on this device is deleted and replaced by the backup.'}
+            </p>
+
+            {/* Profiles affected */}
+            <div className="space-y-2 mb-4">
+              {preview.profiles.map((profile) => (
+                <div
+                  key={profile.name}
+                  className="flex items-center gap-3 p-2 bg-surface-muted rounded-xl border-[2px] border-ink"
+                >
+                  <span className="text-2xl">{profile.emoji}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-black text-ink truncate">{profile.name}</div>
+                    <div className="text-xs font-semibold text-ink-muted">
+                      {profile.rowCount} records
+                    </div>
+                  </div>
+                  <span
+                    className={`text-xs font-black px-2 py-1 rounded-full border-[2px] border-ink ${
+                      profile.action === 'add' ? 'bg-teal-200' : 'bg-yellow-200'
+                    }`}
+                  >
+                    {profile.action === 'add' ? 'New' : 'Overwrite'}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {preview.removedProfiles.length > 0 && (
+              <p className="text-xs font-bold text-coral-600 mb-4">
+                Deleted from this device:{' '}
+                {preview.removedProfiles.map((p) => `${p.emoji} ${p.name}`).join(', ')}
+              </p>
+            )}
+
+            <div className="flex gap-3">
+              <Button variant="ghost" className="flex-1" onClick={handleCancel} disabled={isWorking}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                className="flex-1"
+                onClick={handleConfirmRestore}
+                disabled={isWorking}
+                id="settings-restore-confirm-button"
+              >
+                Restore
+              </Button>
+            </div>
+          </Card>
+        </div>
+      )}
+    </Card>
+  );
+}
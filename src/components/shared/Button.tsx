@@ -4,11 +4,13 @@
  */
 
 import React from 'react';
+import { useGameHaptics } from '@/hooks/useGameHaptics';
 
 export interface ButtonProps extends React.ButtonHTMLAttributes<HTMLButtonElement> {
   variant?: 'primary' | 'secondary' | 'ghost';
   size?: 'small' | 'medium' | 'large';
   fullWidth?: boolean;
+  haptic?: boolean; // Short vibration on press (follows the global haptic toggle)
 }
 
 export const Button: React.FC<ButtonProps> = ({
@@ -18,8 +20,17 @@ export const Button: React.FC<ButtonProps> = ({
   fullWidth = false,
   className = '',
   disabled = false,
+  haptic: hapticOnPress = true,
+  onClick,
   ...props
 }) => {
+  const { haptic } = useGameHaptics(hapticOnPress);
+
+  const handleClick = (e: React.MouseEvent<HTMLButtonElement>) => {
+    haptic('button');
+    onClick?.(e);
+  };
+
   const baseStyles = `
     inline-flex items-center justify-center
     font-medium rounded-lg
@@ -32,32 +43,32 @@ export const Button: React.FC<ButtonProps> = ({
 
   const variantStyles = {
     primary: `
-      bg-yellow-400 text-black
+      bg-yellow-400 text-ink
       hover:bg-yellow-500
       active:bg-yellow-600
-      border-[3px] border-black
-      shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]
-      hover:shadow-[6px_6px_0px_0px_rgba(0,0,0,1)]
-      active:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]
+      border-[3px] border-ink
+      shadow-[4px_4px_0px_0px_var(--color-shadow)]
+      hover:shadow-[6px_6px_0px_0px_var(--color-shadow)]
+      active:shadow-[2px_2px_0px_0px_var(--color-shadow)]
       active:translate-x-[2px] active:translate-y-[2px]
       font-bold
     `,
     secondary: `
-      bg-teal-400 text-black
+      bg-teal-400 text-ink
       hover:bg-teal-500
       active:bg-teal-600
-      border-[3px] border-black
-      shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]
-      hover:shadow-[6px_6px_0px_0px_rgba(0,0,0,1)]
-      active:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]
+      border-[3px] border-ink
+      shadow-[4px_4px_0px_0px_var(--color-shadow)]
+      hover:shadow-[6px_6px_0px_0px_var(--color-shadow)]
+      active:shadow-[2px_2px_0px_0px_var(--color-shadow)]
       active:translate-x-[2px] active:translate-y-[2px]
       font-bold
     `,
     ghost: `
-      bg-white text-black
-      hover:bg-gray-50
-      active:bg-gray-100
-      border-[3px] border-black border-dashed
+      bg-surface text-ink
+      hover:bg-surface-muted
+      active:bg-surface-muted
+      border-[3px] border-ink border-dashed
       font-bold
     `,
   };
@@ -77,6 +88,7 @@ export const Button: React.FC<ButtonProps> = ({
         ${className}
       `}
       disabled={disabled}
+      onClick={handleClick}
       {...props}
     >
       {children}
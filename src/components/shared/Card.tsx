@@ -23,9 +23,9 @@ export const Card: React.FC<CardProps> = ({
   id,
 }) => {
   const baseStyles = `
-    bg-white rounded-3xl border-[3px] border-black
-    ${elevated ? 'shadow-[6px_6px_0px_0px_rgba(0,0,0,1)]' : 'shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]'}
-    ${interactive || onClick ? 'cursor-pointer transition-all hover:shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] active:shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:translate-x-[2px] active:translate-y-[2px]' : ''}
+    bg-surface rounded-3xl border-[3px] border-ink
+    ${elevated ? 'shadow-[6px_6px_0px_0px_var(--color-shadow)]' : 'shadow-[4px_4px_0px_0px_var(--color-shadow)]'}
+    ${interactive || onClick ? 'cursor-pointer transition-all hover:shadow-[8px_8px_0px_0px_var(--color-shadow)] active:shadow-[2px_2px_0px_0px_var(--color-shadow)] active:translate-x-[2px] active:translate-y-[2px]' : ''}
     touch-manipulation
   `;
 
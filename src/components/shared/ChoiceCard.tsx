@@ -0,0 +1,50 @@
+/**
+ * ChoiceCard Component
+ * Tappable answer card for the tap-to-choose games (a letter, number...)
+ */
+
+export type ChoiceCardFeedback = 'none' | 'correct' | 'incorrect' | 'reveal';
+
+export interface ChoiceCardProps {
+  value: string; // Shown on the card and passed to onSelect
+  label: string; // Screen reader name ('Letter g')
+  idPrefix: string; // Prefix for element ids ('case-match')
+  feedback: ChoiceCardFeedback;
+  disabled?: boolean;
+  onSelect: (value: string) => void;
+}
+
+export function ChoiceCard({
+  value,
+  label,
+  idPrefix,
+  feedback,
+  disabled = false,
+  onSelect,
+}: ChoiceCardProps) {
+  const feedbackStyles: Record<ChoiceCardFeedback, string> = {
+    none: 'bg-surface border-ink',
+    correct: 'bg-teal-200 border-teal-700',
+    incorrect: 'bg-coral-200 border-coral-700',
+    reveal: 'bg-surface border-teal-700 shadow-[0_0_0_6px_rgba(38,197,197,0.5)]',
+  };
+
+  return (
+    <button
+      onClick={() => onSelect(value)}
+      disabled={disabled}
+      className={`relative w-[110px] h-[110px] rounded-2xl border-[3px] shadow-[4px_4px_0px_0px_var(--color-shadow)] flex items-center justify-center select-none touch-manipulation transition-all duration-200 active:scale-95 disabled:active:scale-100 ${feedbackStyles[feedback]}`}
+      aria-label={label}
+      id={`${idPrefix}-choice-${value}`}
+    >
+      <span className="text-[64px] font-black text-ink leading-none">{value}</span>
+
+      {/* Result marker */}
+      {(feedback === 'correct' || feedback === 'incorrect') && (
+        <span className="absolute bottom-1 right-2 text-2xl font-black text-ink">
+          {feedback === 'correct' ? '✓' : '✗'}
+        </span>
+      )}
+    </button>
+  );
+}
@@ -23,15 +23,15 @@ export const GameContainer: React.FC<GameContainerProps> = ({
   footerContent,
 }) => {
   return (
-    <div className="min-h-screen flex flex-col bg-[#f7f7f7]">
+    <div className="min-h-screen flex flex-col bg-page">
       {/* Header */}
-      <header className="flex items-center justify-between p-4 bg-white border-b-[3px] border-black" id="game-container-header">
+      <header className="flex items-center justify-between p-4 bg-surface border-b-[3px] border-ink" id="game-container-header">
         {/* Left: Back button */}
         <div className="w-14">
           {onBack && (
             <button
               onClick={onBack}
-              className="w-12 h-12 rounded-2xl !bg-[#ffb8b8] border-[3px] border-black flex items-center justify-center hover:!bg-[#ff9696] active:!bg-[#ff7d7d] transition-colors touch-manipulation shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px]"
+              className="w-12 h-12 rounded-2xl !bg-coral-200 border-[3px] border-ink flex items-center justify-center hover:!bg-coral-300 active:!bg-coral-400 transition-colors touch-manipulation shadow-[2px_2px_0px_0px_var(--color-shadow)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px]"
               aria-label="Go back"
               id="game-container-back-button"
             >
@@ -54,7 +54,7 @@ export const GameContainer: React.FC<GameContainerProps> = ({
 
         {/* Center: Title or custom content */}
         <div className="flex-1 text-center">
-          {headerContent || (title && <h1 className="text-xl font-black text-black">{title}</h1>)}
+          {headerContent || (title && <h1 className="text-xl font-black text-ink">{title}</h1>)}
         </div>
 
         {/* Right: Settings button */}
@@ -62,7 +62,7 @@ export const GameContainer: React.FC<GameContainerProps> = ({
           {onSettings && (
             <button
               onClick={onSettings}
-              className="w-12 h-12 rounded-2xl bg-yellow-400 border-[3px] border-black flex items-center justify-center hover:bg-yellow-500 active:bg-yellow-600 transition-colors touch-manipulation shadow-[2px_2px_0px_0px_rgba(0,0,0,1)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px]"
+              className="w-12 h-12 rounded-2xl bg-yellow-400 border-[3px] border-ink flex items-center justify-center hover:bg-yellow-500 active:bg-yellow-600 transition-colors touch-manipulation shadow-[2px_2px_0px_0px_var(--color-shadow)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px]"
               aria-label="Settings"
               id="game-container-settings-button"
             >
@@ -96,7 +96,7 @@ export const GameContainer: React.FC<GameContainerProps> = ({
 
       {/* Footer */}
       {footerContent && (
-        <footer className="p-4 bg-white border-t-[3px] border-black">
+        <footer className="p-4 bg-surface border-t-[3px] border-ink">
           {footerContent}
         </footer>
       )}
@@ -0,0 +1,239 @@
+/**
+ * ParentGate Components
+ * PIN pad or adult challenge in front of parent-only screens and actions
+ */
+
+import React, { useEffect, useState } from 'react';
+import { PIN_LENGTH, useParentGateStore } from '@/lib/parent-gate/store';
+import { Button } from './Button';
+
+const HOLD_DURATION = 3000; // How long the hold button must be pressed (ms)
+const HOLD_TICK = 50;
+
+interface ParentGateModalProps {
+  onUnlock: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Random multiplication that a young child can't answer
+ */
+function createChallenge(): [number, number] {
+  const factor = () => 6 + Math.floor(Math.random() * 4); // 6-9
+  return [factor(), factor()];
+}
+
+/**
+ * Gate dialog: PIN pad when a PIN is set, otherwise hold + multiplication
+ */
+export function ParentGateModal({ onUnlock, onCancel }: ParentGateModalProps) {
+  const hasPin = useParentGateStore((state) => state.hasPin);
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4 bg-backdrop">
+      <div
+        className="w-full max-w-sm bg-surface rounded-[24px] border-[3px] border-ink shadow-[8px_8px_0px_0px_var(--color-shadow)] p-6"
+        id="parent-gate-modal"
+      >
+        <div className="text-center mb-5">
+          <div className="w-14 h-14 bg-yellow-300 rounded-2xl border-[3px] border-ink shadow-[3px_3px_0px_0px_var(--color-shadow)] flex items-center justify-center mx-auto mb-3">
+            <span className="text-3xl">🔒</span>
+          </div>
+          <h3 className="text-xl font-black text-ink">Grown-ups Only</h3>
+        </div>
+
+        {hasPin ? <PinPad onUnlock={onUnlock} /> : <AdultChallenge onUnlock={onUnlock} />}
+
+        <Button variant="ghost" className="w-full mt-4" onClick={onCancel} id="parent-gate-cancel">
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Four-digit PIN entry
+ */
+function PinPad({ onUnlock }: { onUnlock: () => void }) {
+  const verifyPin = useParentGateStore((state) => state.verifyPin);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    if (pin.length < PIN_LENGTH) return;
+
+    verifyPin(pin).then((valid) => {
+      if (valid) {
+        onUnlock();
+      } else {
+        setError(true);
+        setPin('');
+      }
+    });
+  }, [pin, verifyPin, onUnlock]);
+
+  const handleDigit = (digit: string) => {
+    setError(false);
+    setPin((current) => (current.length < PIN_LENGTH ? current + digit : current));
+  };
+
+  return (
+    <div>
+      <p className="text-sm font-bold text-ink text-center mb-3">Enter your PIN</p>
+
+      {/* PIN dots */}
+      <div className="flex justify-center gap-3 mb-2" id="parent-gate-pin-dots">
+        {Array.from({ length: PIN_LENGTH }, (_, i) => (
+          <div
+            key={i}
+            className={`w-4 h-4 rounded-full border-[2px] border-ink ${i < pin.length ? 'bg-ink' : 'bg-surface'}`}
+          />
+        ))}
+      </div>
+      <p className="h-5 text-xs font-bold text-coral-600 text-center mb-2">
+        {error ? 'Wrong PIN, try again' : ''}
+      </p>
+
+      {/* Keypad */}
+      <div className="grid grid-cols-3 gap-2" id="parent-gate-keypad">
+        {['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', '⌫'].map((key) =>
+          key === '' ? (
+            <div key="empty" />
+          ) : (
+            <button
+              key={key}
+              onClick={() => (key === '⌫' ? setPin((p) => p.slice(0, -1)) : handleDigit(key))}
+              className="h-14 bg-surface rounded-xl border-[3px] border-ink text-xl font-black text-ink shadow-[2px_2px_0px_0px_var(--color-shadow)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px] transition-all"
+              aria-label={key === '⌫' ? 'Delete digit' : key}
+              id={`parent-gate-key-${key === '⌫' ? 'delete' : key}`}
+            >
+              {key}
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Hold a button for three seconds, then solve a multiplication
+ */
+function AdultChallenge({ onUnlock }: { onUnlock: () => void }) {
+  const [holding, setHolding] = useState(false);
+  const [heldFor, setHeldFor] = useState(0);
+  const [[a, b], setChallenge] = useState(createChallenge);
+  const [answer, setAnswer] = useState('');
+  const [error, setError] = useState(false);
+
+  const holdComplete = heldFor >= HOLD_DURATION;
+
+  // Fill the hold bar while pressed, reset when released early
+  useEffect(() => {
+    if (!holding || holdComplete) return;
+
+    const timer = setInterval(() => setHeldFor((t) => t + HOLD_TICK), HOLD_TICK);
+    return () => clearInterval(timer);
+  }, [holding, holdComplete]);
+
+  const handleRelease = () => {
+    setHolding(false);
+    if (!holdComplete) setHeldFor(0);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (parseInt(answer, 10) === a * b) {
+      onUnlock();
+    } else {
+      setError(true);
+      setAnswer('');
+      setChallenge(createChallenge());
+    }
+  };
+
+  if (!holdComplete) {
+    return (
+      <div>
+        <p className="text-sm font-bold text-ink text-center mb-3">
+          Press and hold the button for 3 seconds
+        </p>
+        <button
+          onPointerDown={() => setHolding(true)}
+          onPointerUp={handleRelease}
+          onPointerLeave={handleRelease}
+          onPointerCancel={handleRelease}
+          onContextMenu={(e) => e.preventDefault()}
+          className="relative w-full h-16 bg-surface rounded-full border-[3px] border-ink overflow-hidden shadow-[4px_4px_0px_0px_var(--color-shadow)] select-none touch-none"
+          id="parent-gate-hold-button"
+        >
+          <div
+            className="absolute inset-y-0 left-0 bg-teal-300"
+            style={{ width: `${(heldFor / HOLD_DURATION) * 100}%` }}
+          />
+          <span className="relative text-base font-black text-ink">✋ Hold</span>
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <p className="text-sm font-bold text-ink text-center mb-3">
+        What is {a} × {b}?
+      </p>
+      <input
+        type="number"
+        inputMode="numeric"
+        value={answer}
+        onChange={(e) => {
+          setError(false);
+          setAnswer(e.target.value);
+        }}
+        autoFocus
+        className="w-full px-4 py-3 text-2xl font-black text-center bg-surface border-[3px] border-ink rounded-xl focus:outline-none"
+        id="parent-gate-answer-input"
+      />
+      <p className="h-5 text-xs font-bold text-coral-600 text-center my-2">
+        {error ? 'Not quite, try this one' : ''}
+      </p>
+      <Button type="submit" variant="primary" className="w-full" disabled={!answer} id="parent-gate-submit">
+        Continue
+      </Button>
+    </form>
+  );
+}
+
+/**
+ * Shows the gate for actions requested through useParentGateStore.requestAccess
+ * Rendered once at the app root
+ */
+export function ParentGateHost() {
+  const { pendingAction, unlock, cancelRequest } = useParentGateStore();
+
+  if (!pendingAction) return null;
+
+  return <ParentGateModal onUnlock={unlock} onCancel={cancelRequest} />;
+}
+
+interface ParentGuardProps {
+  children: React.ReactNode;
+  onCancel: () => void;
+}
+
+/**
+ * Renders a parent-only screen once the gate is open
+ * Re-locks (and asks again) when the unlock period ends
+ */
+export function ParentGuard({ children, onCancel }: ParentGuardProps) {
+  const { unlockedUntil, unlock } = useParentGateStore();
+  const unlocked = unlockedUntil !== null && Date.now() < unlockedUntil;
+
+  if (!unlocked) {
+    return <ParentGateModal onUnlock={unlock} onCancel={onCancel} />;
+  }
+
+  return <>{children}</>;
+}
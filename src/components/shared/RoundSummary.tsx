@@ -0,0 +1,197 @@
+/**
+ * RoundSummary Component
+ * Results screen shown after every game's round: success rate, totals and next steps
+ */
+
+import { useEffect } from 'react';
+import { GameContainer } from './GameContainer';
+import { Button } from './Button';
+import { Card } from './Card';
+import { useGameAudio } from '@/hooks/useGameAudio';
+import { useGameHaptics } from '@/hooks/useGameHaptics';
+
+export interface RoundSummaryProps {
+  idPrefix: string; // Prefix for element ids ('counting')
+  totalAttempts: number;
+  correctCount: number;
+  incorrectCount: number;
+  skippedCount?: number; // Games with skipping: shown, and left out of the success rate
+  roundNumber: number;
+  soundEnabled: boolean;
+  hapticEnabled: boolean;
+  onPlayAgain: () => void;
+  onHome: () => void;
+  onSettings: () => void;
+  onViewProgress?: () => void; // Games with a progress view
+  progressLabel?: string; // Progress button text ('View Letter Progress')
+  onUndo?: () => void; // Shown while the last answer can still be undone
+}
+
+export function RoundSummary({
+  idPrefix,
+  totalAttempts,
+  correctCount,
+  incorrectCount,
+  skippedCount,
+  roundNumber,
+  soundEnabled,
+  hapticEnabled,
+  onPlayAgain,
+  onHome,
+  onSettings,
+  onViewProgress,
+  progressLabel = 'View Progress',
+  onUndo,
+}: RoundSummaryProps) {
+  const { playSound } = useGameAudio(soundEnabled);
+  const { haptic } = useGameHaptics(hapticEnabled);
+
+  // Celebrate once when the summary appears
+  useEffect(() => {
+    playSound('round-complete');
+    haptic('round-complete');
+  }, [playSound, haptic]);
+
+  // Skipped items weren't attempted, so they don't count against the success rate
+  const answeredCount = totalAttempts - (skippedCount ?? 0);
+  const successRate =
+    answeredCount > 0
+      ? Math.round((correctCount / answeredCount) * 100)
+      : 0;
+
+  // Determine emoji and message based on success rate
+  let emoji = '🎉';
+  let message = 'Amazing work!';
+
+  if (successRate < 50) {
+    emoji = '💪';
+    message = 'Keep practicing!';
+  } else if (successRate < 75) {
+    emoji = '👍';
+    message = 'Great effort!';
+  } else if (successRate < 90) {
+    emoji = '⭐';
+    message = 'Excellent job!';
+  } else if (successRate === 100) {
+    emoji = '🏆';
+    message = 'Perfect round!';
+  }
+
+  const stats = [
+    { key: 'total', label: 'Total', value: totalAttempts, style: 'bg-yellow-50' },
+    { key: 'correct', label: 'Correct', value: correctCount, style: 'bg-teal-200' },
+    { key: 'incorrect', label: 'Incorrect', value: incorrectCount, style: 'bg-coral-200' },
+    ...(skippedCount !== undefined
+      ? [{ key: 'skipped', label: 'Skipped', value: skippedCount, style: 'bg-yellow-200' }]
+      : []),
+  ];
+
+  return (
+    <GameContainer
+      title="Round Complete"
+      onBack={onHome}
+    >
+      <div className="flex-1 flex flex-col items-center justify-center px-6">
+        {/* Emoji container with playful rotation */}
+        <div className="mb-8">
+          <div className="w-32 h-32 bg-yellow-300 rounded-3xl border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)] flex items-center justify-center transform -rotate-6 mx-auto mb-6">
+            <span className="text-7xl">{emoji}</span>
+          </div>
+
+          <h2 className="text-4xl font-black text-ink mb-2 text-center">
+            {message}
+          </h2>
+          <div className="inline-block bg-teal-200 px-4 py-2 rounded-full border-[2px] border-ink">
+            <p className="text-sm font-bold text-ink">Round {roundNumber} Complete</p>
+          </div>
+        </div>
+
+        {/* Stats card */}
+        <Card className="w-full max-w-sm mb-8 p-6" id={`${idPrefix}-stats-card`}>
+          <div className="space-y-6">
+            {/* Success rate - big and prominent */}
+            <div className="text-center pb-6 border-b-[3px] border-ink" id={`${idPrefix}-success-rate`}>
+              <div className="text-7xl font-black text-yellow-400 mb-2">
+                {successRate}%
+              </div>
+              <div className="text-sm font-bold text-ink">Success Rate</div>
+            </div>
+
+            {/* Detailed stats */}
+            <div className={`grid ${stats.length === 4 ? 'grid-cols-2' : 'grid-cols-3'} gap-4 text-center`}>
+              {stats.map(({ key, label, value, style }) => (
+                <div
+                  key={key}
+                  className={`${style} rounded-2xl border-[2px] border-ink p-3`}
+                  id={`${idPrefix}-${key}-stat`}
+                >
+                  <div className="text-3xl font-black text-ink mb-1">
+                    {value}
+                  </div>
+                  <div className="text-xs font-semibold text-ink">{label}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </Card>
+
+        {/* Action buttons */}
+        <div className="space-y-3 w-full max-w-xs">
+          <Button
+            variant="primary"
+            haptic={hapticEnabled}
+            onClick={onPlayAgain}
+            className="w-full"
+            id={`${idPrefix}-play-again-button`}
+          >
+            🎮 Play Again
+          </Button>
+
+          {onUndo && (
+            <Button
+              variant="ghost"
+              haptic={hapticEnabled}
+              onClick={onUndo}
+              className="w-full"
+              id={`${idPrefix}-summary-undo-button`}
+            >
+              ↩️ Undo Last Answer
+            </Button>
+          )}
+
+          {onViewProgress && (
+            <Button
+              variant="secondary"
+              haptic={hapticEnabled}
+              onClick={onViewProgress}
+              className="w-full !bg-teal-200 hover:!bg-teal-300 !shadow-[4px_4px_0px_0px_var(--color-shadow)]"
+              id={`${idPrefix}-view-progress-button`}
+            >
+              📊 {progressLabel}
+            </Button>
+          )}
+
+          <Button
+            variant="ghost"
+            haptic={hapticEnabled}
+            onClick={onSettings}
+            className="w-full"
+            id={`${idPrefix}-summary-settings-button`}
+          >
+            ⚙️ Settings
+          </Button>
+
+          <Button
+            variant="ghost"
+            haptic={hapticEnabled}
+            onClick={onHome}
+            className="w-full"
+            id={`${idPrefix}-home-button`}
+          >
+            🏠 Home
+          </Button>
+        </div>
+      </div>
+    </GameContainer>
+  );
+}
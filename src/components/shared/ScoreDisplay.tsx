@@ -11,6 +11,7 @@ export interface ScoreDisplayProps {
   label?: string;
   showPercentage?: boolean;
   size?: 'small' | 'medium' | 'large';
+  id?: string;
 }
 
 export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
@@ -19,6 +20,7 @@ export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
   label = 'Score',
   showPercentage = false,
   size = 'medium',
+  id,
 }) => {
   const percentage = total > 0 ? Math.round((current / total) * 100) : 0;
 
@@ -32,17 +34,18 @@ export const ScoreDisplay: React.FC<ScoreDisplayProps> = ({
     <div
       className={`
         inline-flex items-center gap-2
-        bg-yellow-100 rounded-full border-[3px] border-black
+        bg-yellow-100 rounded-full border-[3px] border-ink
         font-bold
         ${sizeStyles[size]}
       `}
+      id={id}
     >
-      <span className="text-black">{label}:</span>
-      <span className="text-black">
+      <span className="text-ink">{label}:</span>
+      <span className="text-ink">
         {current} / {total}
       </span>
       {showPercentage && total > 0 && (
-        <span className="text-black text-sm">({percentage}%)</span>
+        <span className="text-ink text-sm">({percentage}%)</span>
       )}
     </div>
   );
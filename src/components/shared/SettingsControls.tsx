@@ -0,0 +1,294 @@
+/**
+ * Settings Controls
+ * Building blocks for the per-game settings panels: the panel frame (header,
+ * progress and reset actions, Done) and the common setting rows
+ */
+
+import { useState, type ReactNode } from 'react';
+import { Button } from './Button';
+import { Card } from './Card';
+import { useProfileStore } from '@/lib/profiles/store';
+import type { SelectionMode } from '@/types/game';
+
+export interface GameSettingsPanelProps {
+  idPrefix: string; // Prefix for element ids ('counting')
+  onClose: () => void;
+  onResetProgress: (profileId: number) => Promise<void>; // Erase the game's statistics for a profile
+  onViewProgress?: () => void; // Games with a progress view; replaces the settings screen, so no onClose first
+  progressLabel?: string; // Progress button text ('View Letter Progress')
+  children: ReactNode; // The game's setting rows
+}
+
+export function GameSettingsPanel({
+  idPrefix,
+  onClose,
+  onResetProgress,
+  onViewProgress,
+  progressLabel = 'View Progress',
+  children,
+}: GameSettingsPanelProps) {
+  const { activeProfileId, getActiveProfile } = useProfileStore();
+  const activeProfile = getActiveProfile();
+  const [showResetConfirm, setShowResetConfirm] = useState(false);
+
+  const handleResetProgress = async () => {
+    if (!activeProfileId) {
+      console.error('No active profile');
+      return;
+    }
+    await onResetProgress(activeProfileId);
+    setShowResetConfirm(false);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-backdrop flex items-center justify-center z-50 p-4" id={`${idPrefix}-settings-overlay`}>
+      <Card className="w-full max-w-md max-h-[90vh] overflow-y-auto p-6" id={`${idPrefix}-settings-panel`}>
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6 pb-4 border-b-[3px] border-ink">
+          <h2 className="text-2xl font-black text-ink">
+            ⚙️ Settings
+          </h2>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 rounded-xl bg-coral-400 border-[3px] border-ink flex items-center justify-center hover:bg-coral-500 active:bg-coral-600 transition-colors shadow-[2px_2px_0px_0px_var(--color-shadow)] active:shadow-none active:translate-x-[2px] active:translate-y-[2px]"
+            aria-label="Close"
+            id={`${idPrefix}-settings-close-button`}
+          >
+            <span className="text-xl font-black">✕</span>
+          </button>
+        </div>
+
+        {/* Settings content */}
+        <div className="space-y-6">
+          {children}
+
+          {/* View Progress */}
+          {onViewProgress && (
+            <div className="pt-4 border-t-[3px] border-ink">
+              <Button
+                variant="secondary"
+                onClick={onViewProgress}
+                className="w-full !bg-teal-200 hover:!bg-teal-300 !shadow-[4px_4px_0px_0px_var(--color-shadow)]"
+                id={`${idPrefix}-settings-view-progress-button`}
+              >
+                📊 {progressLabel}
+              </Button>
+            </div>
+          )}
+
+          {/* Reset Progress */}
+          <div className="pt-4 border-t-[3px] border-ink">
+            {!showResetConfirm ? (
+              <Button
+                variant="ghost"
+                onClick={() => setShowResetConfirm(true)}
+                className="w-full !border-coral-400 !text-coral-600 hover:!bg-coral-50"
+                id={`${idPrefix}-reset-progress-button`}
+              >
+                🗑️ Reset Progress
+              </Button>
+            ) : (
+              <div className="space-y-3">
+                <div className="bg-coral-100 p-4 rounded-2xl border-[2px] border-ink">
+                  <p className="text-sm font-bold text-ink text-center">
+                    ⚠️ Are you sure? This will erase all statistics for{' '}
+                    {activeProfile && (
+                      <span className="inline-flex items-center gap-1">
+                        <span>{activeProfile.emoji}</span>
+                        <span className="font-black">{activeProfile.name}</span>
+                      </span>
+                    )}!
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="ghost"
+                    onClick={() => setShowResetConfirm(false)}
+                    className="flex-1"
+                  >
+                    Cancel
+                  </Button>
+                  <button
+                    onClick={handleResetProgress}
+                    className="flex-1 px-6 py-3 bg-coral-400 text-ink font-bold rounded-full border-[3px] border-ink shadow-[4px_4px_0px_0px_var(--color-shadow)] hover:shadow-[6px_6px_0px_0px_var(--color-shadow)] active:shadow-[2px_2px_0px_0px_var(--color-shadow)] active:translate-x-[2px] active:translate-y-[2px] transition-all min-h-[56px]"
+                    id={`${idPrefix}-confirm-reset-button`}
+                  >
+                    Confirm Reset
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Close button */}
+        <div className="mt-6 pt-4 border-t-[3px] border-ink">
+          <Button variant="primary" onClick={onClose} className="w-full" id={`${idPrefix}-settings-done-button`}>
+            ✓ Done
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
+
+export interface DifficultySettingProps<T extends SelectionMode> {
+  idPrefix: string;
+  value: T;
+  descriptions: Record<T, string>; // One line per mode, in button order
+  onChange: (difficulty: T) => void;
+}
+
+export function DifficultySetting<T extends SelectionMode>({
+  idPrefix,
+  value,
+  descriptions,
+  onChange,
+}: DifficultySettingProps<T>) {
+  const modes = Object.keys(descriptions) as T[];
+
+  return (
+    <div id={`${idPrefix}-difficulty-setting`}>
+      <label className="block text-sm font-bold text-ink mb-3">
+        Difficulty
+      </label>
+      <div className="flex gap-2">
+        {modes.map((difficulty) => (
+          <button
+            key={difficulty}
+            onClick={() => onChange(difficulty)}
+            className={`flex-1 py-2 ${modes.length > 3 ? 'px-2' : 'px-4'} rounded-full font-bold transition-all border-[2px] border-ink ${
+              value === difficulty
+                ? 'bg-yellow-400 text-ink shadow-[3px_3px_0px_0px_var(--color-shadow)]'
+                : 'bg-surface text-ink hover:bg-yellow-100'
+            }`}
+          >
+            {difficulty.charAt(0).toUpperCase() + difficulty.slice(1)}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs font-semibold text-ink mt-2 bg-yellow-50 p-2 rounded-xl border-[2px] border-ink">
+        {descriptions[value]}
+      </p>
+    </div>
+  );
+}
+
+export interface ChoiceSettingProps<T extends string | number> {
+  id: string; // Element id of the setting ('counting-range-setting')
+  label: string;
+  value: string | number; // Current config value, which may be outside the options ('n/a')
+  options: readonly T[];
+  optionLabel: (option: T) => ReactNode;
+  onChange: (option: T) => void;
+  compact?: boolean; // Smaller buttons for long option labels
+  description?: ReactNode; // Note shown under the buttons
+}
+
+export function ChoiceSetting<T extends string | number>({
+  id,
+  label,
+  value,
+  options,
+  optionLabel,
+  onChange,
+  compact = false,
+  description,
+}: ChoiceSettingProps<T>) {
+  return (
+    <div id={id}>
+      <label className="block text-sm font-bold text-ink mb-3">
+        {label}
+      </label>
+      <div className="flex gap-2">
+        {options.map((option) => (
+          <button
+            key={option}
+            onClick={() => onChange(option)}
+            className={`flex-1 py-2 ${compact ? 'px-2 text-sm' : 'px-4'} rounded-full font-bold transition-all border-[2px] border-ink ${
+              value === option
+                ? 'bg-teal-400 text-ink shadow-[3px_3px_0px_0px_var(--color-shadow)]'
+                : 'bg-surface text-ink hover:bg-teal-100'
+            }`}
+          >
+            {optionLabel(option)}
+          </button>
+        ))}
+      </div>
+      {description && (
+        <p className="text-xs font-semibold text-ink mt-2 bg-yellow-50 p-2 rounded-xl border-[2px] border-ink">
+          {description}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export interface RoundSizeSettingProps {
+  idPrefix: string;
+  value: number;
+  min: number;
+  max: number;
+  unit: string; // What a round counts ('letters', 'puzzles')
+  onChange: (roundSize: number) => void;
+}
+
+export function RoundSizeSetting({ idPrefix, value, min, max, unit, onChange }: RoundSizeSettingProps) {
+  return (
+    <div id={`${idPrefix}-round-size-setting`}>
+      <label className="block text-sm font-bold text-ink mb-3">
+        Round Size: <span className="bg-coral-200 px-3 py-1 rounded-full border-[2px] border-ink">{value}</span> {unit}
+      </label>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        value={value}
+        onChange={(e) => onChange(parseInt(e.target.value))}
+        className="w-full h-3 bg-yellow-100 rounded-lg appearance-none cursor-pointer border-[2px] border-ink"
+        id={`${idPrefix}-round-size-slider`}
+        style={{
+          accentColor: '#facc15',
+        }}
+      />
+      <div className="flex justify-between text-xs font-bold text-ink mt-2">
+        <span>{min} min</span>
+        <span>{max} max</span>
+      </div>
+    </div>
+  );
+}
+
+export interface ToggleSettingProps {
+  id: string; // Element id of the switch ('letter-match-sound-enabled-toggle')
+  label: string;
+  checked: boolean;
+  disabled?: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+export function ToggleSetting({ id, label, checked, disabled = false, onChange }: ToggleSettingProps) {
+  return (
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-bold text-ink" htmlFor={id}>
+        {label}
+      </label>
+      <button
+        onClick={() => onChange(!checked)}
+        disabled={disabled}
+        aria-pressed={checked}
+        className={`relative w-14 h-8 rounded-full transition-colors border-[3px] border-ink disabled:opacity-50 ${
+          checked ? 'bg-teal-400' : 'bg-gray-200'
+        }`}
+        id={id}
+      >
+        <div
+          className={`absolute top-0.5 left-0.5 w-6 h-6 bg-surface rounded-full transition-transform border-[2px] border-ink ${
+            checked ? 'translate-x-6' : ''
+          }`}
+        />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+/**
+ * SwipeCard Component
+ * Large card with swipe gesture support, shared by the swipe-based games
+ * Right = correct, left = incorrect, up = skipped
+ * The ✓/✗/skip buttons and keyboard shortcuts take the same path as a swipe
+ */
+
+import { useState, useRef, useEffect } from 'react';
+import { Button } from './Button';
+import { useDraggable, type DragEnd } from './useDraggable';
+import { useGameHaptics } from '@/hooks/useGameHaptics';
+import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
+import type { SwipeDirection } from '@/types/game';
+
+/**
+ * How the content is sized: single characters/numbers, or whole words
+ */
+export type SwipeCardVariant = 'character' | 'word';
+
+export interface SwipeCardProps {
+  itemKey: string; // Identifies the item shown; a new key resets the card and its timer
+  content: string; // Text shown on the card
+  variant?: SwipeCardVariant;
+  label: string; // Screen reader name ('Letter A, uppercase')
+  roleDescription: string; // Screen reader card type ('letter card')
+  idPrefix: string; // Prefix for element ids ('letter-match')
+  onSwipe: (direction: SwipeDirection, responseTimeMs: number) => void;
+  onUndo?: () => void; // Swipe down to undo the previous answer (only while undo is offered)
+  disabled?: boolean;
+  hapticEnabled?: boolean;
+  showAnswerButtons?: boolean;
+  keyboardEnabled?: boolean;
+  undoShortcut?: boolean; // The game undoes on Backspace (mentioned in the hints)
+}
+
+const SWIPE_THRESHOLD = 100; // Minimum distance to trigger swipe
+const ROTATION_FACTOR = 0.1; // Rotation based on drag
+
+/**
+ * Font size by content length, so longer content still fits the card
+ * Words get their own scale: the card is 280px wide, and "yellow" has to fit
+ * on one line as large as possible
+ */
+const CONTENT_SIZES: Record<SwipeCardVariant, string[]> = {
+  character: ['text-[180px]', 'text-[150px]', 'text-[110px]'],
+  word: ['text-[110px]', 'text-[100px]', 'text-[88px]', 'text-[68px]', 'text-[56px]', 'text-[46px]', 'text-[40px]'],
+};
+
+function getContentSize(content: string, variant: SwipeCardVariant): string {
+  const sizes = CONTENT_SIZES[variant];
+  return sizes[Math.min(content.length, sizes.length) - 1];
+}
+
+export function SwipeCard({
+  itemKey,
+  content,
+  variant = 'character',
+  label,
+  roleDescription,
+  idPrefix,
+  onSwipe,
+  onUndo,
+  disabled = false,
+  hapticEnabled = true,
+  showAnswerButtons = false,
+  keyboardEnabled = false,
+  undoShortcut = false,
+}: SwipeCardProps) {
+  const { haptic } = useGameHaptics(hapticEnabled);
+  const [restOffset, setRestOffset] = useState({ x: 0, y: 0 }); // Where a released card stays (exit animation)
+  const [exitDirection, setExitDirection] = useState<SwipeDirection>(null);
+  const isExiting = exitDirection !== null;
+  const cardRef = useRef<HTMLDivElement>(null);
+  const shownAt = useRef(performance.now()); // When the current item appeared
+
+  const completeSwipe = (direction: Exclude<SwipeDirection, null>) => {
+    // Trigger exit animation
+    setExitDirection(direction);
+    if (direction !== 'up') {
+      haptic(direction === 'right' ? 'correct' : 'incorrect');
+    }
+
+    // Complete swipe immediately (don't wait for animation)
+    // The parent will update and this component will unmount/remount
+    onSwipe(direction, performance.now() - shownAt.current);
+  };
+
+  const handleDragEnd = ({ offset }: DragEnd) => {
+    // Check if swipe threshold is met (mostly vertical upward drags skip)
+    // Anything else snaps back to center
+    const isVertical = Math.abs(offset.y) > Math.abs(offset.x);
+    if (isVertical && offset.y < -SWIPE_THRESHOLD) {
+      setRestOffset(offset);
+      completeSwipe('up');
+    } else if (!isVertical && Math.abs(offset.x) > SWIPE_THRESHOLD) {
+      setRestOffset(offset);
+      completeSwipe(offset.x > 0 ? 'right' : 'left');
+    } else if (isVertical && offset.y > SWIPE_THRESHOLD && onUndo) {
+      // Undo keeps this card; the previous one comes back in its place
+      onUndo();
+    }
+  };
+
+  const drag = useDraggable({ disabled: disabled || isExiting, onDragEnd: handleDragEnd });
+  const { isDragging, cancel: cancelDrag } = drag;
+  const dragOffset = drag.offset ?? restOffset;
+
+  // Reset card (and the response timer) when the item changes
+  // Focus moves to the new card so screen readers announce it
+  useEffect(() => {
+    setRestOffset({ x: 0, y: 0 });
+    cancelDrag();
+    setExitDirection(null);
+    shownAt.current = performance.now();
+    cardRef.current?.focus({ preventScroll: true });
+  }, [itemKey, cancelDrag]);
+
+  // Buttons and keys answer without a drag
+  const handleAnswer = (direction: Exclude<SwipeDirection, null>) => {
+    if (disabled || isExiting || isDragging) return;
+    setRestOffset({ x: 0, y: 0 });
+    completeSwipe(direction);
+  };
+
+  useKeyboardShortcuts(
+    {
+      ArrowRight: () => handleAnswer('right'),
+      y: () => handleAnswer('right'),
+      ArrowLeft: () => handleAnswer('left'),
+      n: () => handleAnswer('left'),
+      ArrowUp: () => handleAnswer('up'),
+      ' ': () => handleAnswer('up'),
+    },
+    keyboardEnabled
+  );
+
+  // Calculate transform for card
+  const rotation = dragOffset.x * ROTATION_FACTOR;
+  const scale = isExiting ? 0.8 : 1;
+
+  let transform = `translate(${dragOffset.x}px, ${dragOffset.y}px) rotate(${rotation}deg) scale(${scale})`;
+
+  const isVertical = Math.abs(dragOffset.y) > Math.abs(dragOffset.x);
+
+  if (exitDirection === 'up') {
+    transform = `translate(${dragOffset.x}px, -600px) rotate(${rotation}deg) scale(${scale})`;
+  } else if (isExiting) {
+    const exitDistance = exitDirection === 'right' ? 400 : -400;
+    transform = `translate(${exitDistance}px, ${dragOffset.y}px) rotate(${rotation}deg) scale(${scale})`;
+  }
+
+  // Calculate feedback overlay opacity
+  const feedbackOpacity = Math.min(
+    Math.abs(isVertical ? dragOffset.y : dragOffset.x) / SWIPE_THRESHOLD,
+    1
+  );
+  const showLeftFeedback = !isVertical && dragOffset.x < -20;
+  const showRightFeedback = !isVertical && dragOffset.x > 20;
+  const showSkipFeedback = isVertical && dragOffset.y < -20;
+
+  return (
+    <div className="relative w-full h-full flex flex-col items-center justify-center gap-8" id={`${idPrefix}-card-container`}>
+      {/* Swipe instruction header */}
+      <div className="text-center" id={`${idPrefix}-swipe-instruction`}>
+        <p className="text-lg font-bold text-ink-muted">
+          ⬅️ Swipe to answer ➡️
+        </p>
+        <p className="text-sm font-semibold text-ink-muted">
+          ⬆️ Swipe up to skip
+        </p>
+        {keyboardEnabled && (
+          <p className="hidden sm:block text-xs font-semibold text-ink-muted mt-1" id={`${idPrefix}-keyboard-hint`}>
+            ⌨️ → or Y correct · ← or N wrong · Space skip{undoShortcut && ' · Backspace undo'}
+          </p>
+        )}
+      </div>
+
+      {/* Screen reader description of the card's controls */}
+      <p className="sr-only" id={`${idPrefix}-controls-help`}>
+        Swipe right or press Y if correct, swipe left or press N if not, swipe up or press Space to
+        skip{undoShortcut ? ', press Backspace to undo.' : '.'}
+      </p>
+
+      {/* Card area wrapper */}
+      <div className="relative flex items-center justify-center flex-1 w-full">
+      {/* Card */}
+      <div
+        ref={cardRef}
+        className="relative w-[280px] h-[380px] bg-surface rounded-[32px] border-[3px] border-ink shadow-[8px_8px_0px_0px_var(--color-shadow)] cursor-grab active:cursor-grabbing select-none touch-none focus:outline-none focus-visible:ring-4 focus-visible:ring-teal-400"
+        id={`${idPrefix}-swipe-card`}
+        tabIndex={0}
+        role="group"
+        aria-roledescription={roleDescription}
+        aria-label={label}
+        aria-describedby={`${idPrefix}-controls-help`}
+        data-item={itemKey}
+        style={{
+          transform,
+          transition: isDragging || isExiting
+            ? 'none'
+            : 'transform 0.3s cubic-bezier(0.175, 0.885, 0.32, 1.275)',
+          willChange: 'transform',
+        }}
+        {...drag.handlers}
+      >
+        {/* Left feedback overlay (incorrect) */}
+        <div
+          className="absolute inset-0 bg-coral-400 rounded-[32px] flex items-center justify-center pointer-events-none"
+          id={`${idPrefix}-incorrect-feedback`}
+          style={{
+            opacity: showLeftFeedback ? feedbackOpacity * 0.4 : 0,
+            transition: 'opacity 0.1s',
+          }}
+        >
+          <div className="text-ink text-9xl font-black">✗</div>
+        </div>
+
+        {/* Right feedback overlay (correct) */}
+        <div
+          className="absolute inset-0 bg-teal-400 rounded-[32px] flex items-center justify-center pointer-events-none"
+          id={`${idPrefix}-correct-feedback`}
+          style={{
+            opacity: showRightFeedback ? feedbackOpacity * 0.4 : 0,
+            transition: 'opacity 0.1s',
+          }}
+        >
+          <div className="text-ink text-9xl font-black">✓</div>
+        </div>
+
+        {/* Up feedback overlay (skipped) */}
+        <div
+          className="absolute inset-0 bg-yellow-300 rounded-[32px] flex items-center justify-center pointer-events-none"
+          id={`${idPrefix}-skip-feedback`}
+          style={{
+            opacity: showSkipFeedback ? feedbackOpacity * 0.4 : 0,
+            transition: 'opacity 0.1s',
+          }}
+        >
+          <div className="text-ink text-9xl font-black">?</div>
+        </div>
+
+        {/* Content display */}
+        <div className="absolute inset-0 flex items-center justify-center px-4">
+          <div
+            className={`${getContentSize(content, variant)} font-black text-ink leading-none whitespace-nowrap`}
+            id={`${idPrefix}-card-content`}
+          >
+            {content}
+          </div>
+        </div>
+      </div>
+
+        {/* Swipe hint indicators - elliptical backgrounds from viewport edges */}
+        {!isDragging && !isExiting && (
+          <>
+            {/* Left swipe hint - half ellipse from left edge of viewport */}
+            <div
+              className="fixed left-0 top-1/2 -translate-y-1/2 w-24 h-96 !bg-coral-200 opacity-30 pointer-events-none"
+              style={{ borderRadius: '0 100% 100% 0 / 0 50% 50% 0' }}
+              id={`${idPrefix}-swipe-left-hint`}
+            />
+            {/* Right swipe hint - half ellipse from right edge of viewport */}
+            <div
+              className="fixed right-0 top-1/2 -translate-y-1/2 w-24 h-96 !bg-teal-200 opacity-30 pointer-events-none"
+              style={{ borderRadius: '100% 0 0 100% / 50% 0 0 50%' }}
+              id={`${idPrefix}-swipe-right-hint`}
+            />
+          </>
+        )}
+      </div>
+
+      {/* Answer buttons (same as swiping) */}
+      <div className="flex items-center justify-center gap-3" id={`${idPrefix}-answer-buttons`}>
+        {showAnswerButtons && (
+          <Button
+            variant="secondary"
+            onClick={() => handleAnswer('left')}
+            disabled={disabled || isExiting}
+            haptic={false}
+            className="!bg-coral-300 hover:!bg-coral-400 min-w-[64px]"
+            aria-label="Incorrect"
+            id={`${idPrefix}-incorrect-button`}
+          >
+            <span className="text-2xl font-black" aria-hidden="true">✗</span>
+          </Button>
+        )}
+
+        <Button
+          variant="ghost"
+          onClick={() => handleAnswer('up')}
+          disabled={disabled || isExiting}
+          haptic={hapticEnabled}
+          id={`${idPrefix}-skip-button`}
+        >
+          🤷 Not sure / Skip
+        </Button>
+
+        {showAnswerButtons && (
+          <Button
+            variant="secondary"
+            onClick={() => handleAnswer('right')}
+            disabled={disabled || isExiting}
+            haptic={false}
+            className="!bg-teal-300 hover:!bg-teal-400 min-w-[64px]"
+            aria-label="Correct"
+            id={`${idPrefix}-correct-button`}
+          >
+            <span className="text-2xl font-black" aria-hidden="true">✓</span>
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -16,3 +16,31 @@ export type { ScoreDisplayProps } from './ScoreDisplay';
 
 export { ProfileSelector } from './ProfileSelector';
 export { ProfileCreateModal } from './ProfileCreateModal';
+export { ParentGateModal, ParentGateHost, ParentGuard } from './ParentGate';
+
+export { ChoiceCard } from './ChoiceCard';
+export type { ChoiceCardProps, ChoiceCardFeedback } from './ChoiceCard';
+
+export { RoundSummary } from './RoundSummary';
+export type { RoundSummaryProps } from './RoundSummary';
+
+export { SwipeCard } from './SwipeCard';
+export type { SwipeCardProps, SwipeCardVariant } from './SwipeCard';
+
+export { useDraggable, findDropTarget } from './useDraggable';
+export type { DragOffset, DragEnd, DraggableOptions } from './useDraggable';
+
+export {
+  GameSettingsPanel,
+  DifficultySetting,
+  ChoiceSetting,
+  RoundSizeSetting,
+  ToggleSetting,
+} from './SettingsControls';
+export type {
+  GameSettingsPanelProps,
+  DifficultySettingProps,
+  ChoiceSettingProps,
+  RoundSizeSettingProps,
+  ToggleSettingProps,
+} from './SettingsControls';
@@ -0,0 +1,112 @@
+/**
+ * Draggable Hook
+ * Pointer drag mechanics shared by draggable elements (swipe cards, letter tiles)
+ * Follows the pointer from where it was pressed, tells taps from drags, and
+ * reports the drop target under the pointer on release
+ */
+
+import { useCallback, useRef, useState } from 'react';
+
+export interface DragOffset {
+  x: number;
+  y: number;
+}
+
+export interface DragEnd {
+  offset: DragOffset; // Distance from where the press started
+  dropTarget?: string; // data-drop-target of the element under the pointer
+}
+
+export interface DraggableOptions {
+  disabled?: boolean;
+  threshold?: number; // Movement (px) before a press counts as a drag; 0 drags on press
+  onDragEnd: (end: DragEnd) => void; // Not called for taps
+  onTap?: () => void; // Press without a drag, or a keyboard click
+}
+
+/**
+ * Find the drop target under a point (drop targets carry data-drop-target)
+ */
+export function findDropTarget(x: number, y: number): string | undefined {
+  const target = document
+    .elementsFromPoint(x, y)
+    .find((element) => element instanceof HTMLElement && element.dataset.dropTarget !== undefined);
+
+  return target instanceof HTMLElement ? target.dataset.dropTarget : undefined;
+}
+
+export function useDraggable({
+  disabled = false,
+  threshold = 0,
+  onDragEnd,
+  onTap,
+}: DraggableOptions) {
+  const [offset, setOffset] = useState<DragOffset | null>(null); // null while not dragging
+  const pressStart = useRef<DragOffset | null>(null);
+  const dragged = useRef(false);
+
+  /**
+   * Drop the current drag without reporting it
+   */
+  const cancel = useCallback(() => {
+    pressStart.current = null;
+    dragged.current = false;
+    setOffset(null);
+  }, []);
+
+  const onPointerDown = (e: React.PointerEvent<HTMLElement>) => {
+    if (disabled) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pressStart.current = { x: e.clientX, y: e.clientY };
+    dragged.current = threshold === 0;
+    if (dragged.current) setOffset({ x: 0, y: 0 });
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLElement>) => {
+    if (!pressStart.current || disabled) return;
+
+    const x = e.clientX - pressStart.current.x;
+    const y = e.clientY - pressStart.current.y;
+    if (!dragged.current && Math.hypot(x, y) < threshold) return;
+
+    dragged.current = true;
+    setOffset({ x, y });
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLElement>) => {
+    const start = pressStart.current;
+    if (!start) return;
+    pressStart.current = null;
+    setOffset(null);
+
+    // Taps are handled by onClick (which also covers the keyboard)
+    if (!dragged.current || disabled) return;
+
+    onDragEnd({
+      offset: { x: e.clientX - start.x, y: e.clientY - start.y },
+      dropTarget: findDropTarget(e.clientX, e.clientY),
+    });
+  };
+
+  const onClick = () => {
+    // The click that follows a drag isn't a tap
+    if (dragged.current) {
+      dragged.current = false;
+      return;
+    }
+    onTap?.();
+  };
+
+  return {
+    offset,
+    isDragging: offset !== null,
+    cancel,
+    handlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: cancel,
+      onClick,
+    },
+  };
+}
@@ -0,0 +1,288 @@
+/**
+ * Alphabet Order - Main Game Component
+ * Drag or tap letter tiles into the blanks of an alphabet sequence
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useAlphabetOrderStore } from './store';
+import { checkPlacements } from './utils';
+import { LetterTile } from './components/LetterTile';
+import { SequenceSlot } from './components/SequenceSlot';
+import { RoundSummary } from '@/components/shared/RoundSummary';
+import { GameContainer } from '@/components/shared/GameContainer';
+import { Button } from '@/components/shared/Button';
+import { Card } from '@/components/shared/Card';
+import { useGameNavigation } from '@/hooks/useGameNavigation';
+import { useGameAudio } from '@/hooks/useGameAudio';
+import { useGameHaptics } from '@/hooks/useGameHaptics';
+import { STREAK_MILESTONE } from '@/lib/haptics/haptics';
+
+export function AlphabetOrderGame() {
+  const {
+    currentRound,
+    roundItems,
+    currentIndex,
+    currentScore,
+    placements,
+    slotResults,
+    roundComplete,
+    config,
+    startNewRound,
+    placeTile,
+    removeTile,
+    checkSequence,
+  } = useAlphabetOrderStore();
+
+  const { goHome, openSettings } = useGameNavigation('alphabet-order');
+  const { playSound } = useGameAudio(config.soundEnabled);
+  const { haptic } = useGameHaptics(config.hapticEnabled);
+  const streak = useRef(0); // Correct sequences in a row
+  const shownAt = useRef(performance.now()); // When the current sequence appeared
+  const [isStarted, setIsStarted] = useState(false);
+
+  // Start timing each new sequence
+  useEffect(() => {
+    shownAt.current = performance.now();
+  }, [currentIndex, currentRound]);
+
+  const handleStart = async () => {
+    await startNewRound();
+    streak.current = 0;
+    setIsStarted(true);
+  };
+
+  /**
+   * Place a tile, then check the sequence once the last blank is filled
+   */
+  const handlePlace = (tile: string, position?: number) => {
+    placeTile(tile, position);
+
+    const { placements: updated } = useAlphabetOrderStore.getState();
+    if (!currentItem || currentItem.blanks.some((blank) => updated[blank] === null)) {
+      haptic('button');
+      return;
+    }
+
+    const correct = checkPlacements(currentItem, updated).every(
+      (result) => result !== 'incorrect'
+    );
+
+    // The last sequence gets the round-complete fanfare from the summary instead
+    if (currentIndex < roundItems.length - 1) {
+      playSound(correct ? 'correct' : 'incorrect');
+    }
+
+    // Streak milestones replace the regular correct pattern
+    streak.current = correct ? streak.current + 1 : 0;
+    if (streak.current > 0 && streak.current % STREAK_MILESTONE === 0) {
+      haptic('streak');
+    } else {
+      haptic(correct ? 'correct' : 'incorrect');
+    }
+
+    checkSequence(performance.now() - shownAt.current);
+  };
+
+  const handleBack = () => {
+    goHome();
+  };
+
+  const currentItem = roundItems[currentIndex];
+  const totalItems = roundItems.length;
+  const progress = totalItems > 0 ? `${currentIndex} / ${totalItems}` : '0 / 0';
+  const trayTiles = currentItem?.tiles.filter((tile) => !placements.includes(tile)) ?? [];
+
+  // Welcome screen
+  if (!isStarted || currentRound === 0) {
+    return (
+      <GameContainer
+        title="Alphabet Order"
+        onBack={handleBack}
+      >
+        <div className="flex-1 flex flex-col items-center justify-center px-6 text-center">
+          {/* Icon with playful rotation */}
+          <div className="mb-8">
+            <div className="w-28 h-28 bg-yellow-300 rounded-3xl border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)] flex items-center justify-center transform -rotate-6 mx-auto mb-6">
+              <span className="text-6xl">🚂</span>
+            </div>
+
+            <h2 className="text-4xl font-black text-ink mb-6">
+              Alphabet Order
+            </h2>
+
+            {/* Instructions card */}
+            <Card className="p-6 max-w-md mx-auto mb-8">
+              <div className="space-y-3 text-left">
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-teal-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">1</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Some letters of the alphabet are missing
+                  </p>
+                </div>
+
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-yellow-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">2</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Drag a letter tile into each empty space
+                  </p>
+                </div>
+
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-coral-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">3</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Put them in ABC order! 🔤
+                  </p>
+                </div>
+              </div>
+
+              {/* Example sequence */}
+              <div className="flex justify-center gap-2 mt-5" id="alphabet-order-example">
+                {['A', 'B', null, 'D'].map((letter, i) => (
+                  <div
+                    key={i}
+                    className={`w-12 h-14 rounded-xl border-[3px] border-ink flex items-center justify-center ${
+                      letter ? 'bg-surface' : 'bg-teal-50 border-dashed'
+                    }`}
+                  >
+                    <span className={`text-3xl font-black leading-none ${letter ? 'text-ink' : 'text-gray-400'}`}>
+                      {letter ?? '?'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          </div>
+
+          <div className="space-y-3 w-full max-w-xs">
+            <Button
+              variant="primary"
+              onClick={handleStart}
+              className="w-full"
+              id="alphabet-order-start-button"
+            >
+              🎮 Start Round
+            </Button>
+
+            <Button
+              variant="ghost"
+              onClick={openSettings}
+              className="w-full"
+              id="alphabet-order-welcome-settings-button"
+            >
+              ⚙️ Settings
+            </Button>
+          </div>
+        </div>
+      </GameContainer>
+    );
+  }
+
+  // Round summary screen
+  if (roundComplete) {
+    return (
+      <RoundSummary
+        idPrefix="alphabet-order"
+        totalAttempts={totalItems}
+        correctCount={currentScore}
+        incorrectCount={totalItems - currentScore}
+        roundNumber={currentRound}
+        soundEnabled={config.soundEnabled}
+        hapticEnabled={config.hapticEnabled}
+        onPlayAgain={handleStart}
+        onHome={handleBack}
+        onSettings={openSettings}
+      />
+    );
+  }
+
+  // Active gameplay
+  return (
+    <GameContainer
+      title="Alphabet Order"
+      onBack={handleBack}
+    >
+      {/* Header - Score and Settings */}
+      <div className="w-full flex items-center justify-between px-6 py-4">
+        <button
+          onClick={openSettings}
+          className="w-14 h-14 bg-yellow-300 rounded-2xl border-[3px] border-ink flex items-center justify-center hover:bg-yellow-400 active:bg-yellow-500 transition-colors shadow-[3px_3px_0px_0px_var(--color-shadow)] active:shadow-none active:translate-x-[3px] active:translate-y-[3px]"
+          aria-label="Settings"
+          id="alphabet-order-settings-button"
+        >
+          <span className="text-2xl">⚙️</span>
+        </button>
+
+        <div
+          className="bg-surface px-5 py-2 rounded-full border-[3px] border-ink shadow-[3px_3px_0px_0px_var(--color-shadow)]"
+          id="alphabet-order-score-display"
+        >
+          <span className="text-lg font-black text-ink">
+            {currentScore} / {slotResults ? currentIndex + 1 : currentIndex}
+          </span>
+        </div>
+      </div>
+
+      {/* Main game area - Sequence and tile tray */}
+      <div className="flex-1 flex flex-col items-center justify-center gap-10 px-6">
+        {currentItem && (
+          <>
+            <Card
+              className="p-5"
+              id="alphabet-order-sequence"
+              key={`${currentItem.itemId}-${currentIndex}`}
+            >
+              <div className="flex flex-wrap justify-center gap-2 pb-6">
+                {currentItem.letters.map((letter, position) => (
+                  <SequenceSlot
+                    key={position}
+                    position={position}
+                    letter={placements[position] ?? null}
+                    isBlank={currentItem.blanks.includes(position)}
+                    result={slotResults?.[position] ?? null}
+                    correctLetter={letter}
+                    onRemove={removeTile}
+                  />
+                ))}
+              </div>
+            </Card>
+
+            <div className="flex flex-wrap justify-center gap-3 min-h-16" id="alphabet-order-tile-tray">
+              {trayTiles.map((tile) => (
+                <LetterTile
+                  key={tile}
+                  letter={tile}
+                  disabled={slotResults !== null}
+                  onPlace={(position) => handlePlace(tile, position)}
+                />
+              ))}
+            </div>
+          </>
+        )}
+
+        <p className="text-lg font-bold text-ink-muted text-center" id="alphabet-order-instruction">
+          {currentItem?.mode === 'order'
+            ? 'Put the letters in ABC order!'
+            : 'Which letter is missing?'}
+        </p>
+      </div>
+
+      {/* Progress footer */}
+      <div className="px-6 py-4 flex justify-center">
+        <div
+          className="bg-teal-200 px-6 py-2 rounded-full border-[2px] border-ink"
+          id="alphabet-order-progress-display"
+        >
+          <span className="text-sm font-bold text-ink">
+            Round {currentRound} • {progress}
+          </span>
+        </div>
+      </div>
+    </GameContainer>
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * LetterTile Component
+ * Tray tile that can be tapped into the next blank or dragged onto a slot
+ */
+
+import { useDraggable } from '@/components/shared/useDraggable';
+
+const DRAG_THRESHOLD = 8; // Movement (px) before a press counts as a drag
+
+interface LetterTileProps {
+  letter: string;
+  disabled?: boolean;
+  onPlace: (position?: number) => void;
+}
+
+export function LetterTile({ letter, disabled = false, onPlace }: LetterTileProps) {
+  // Sequence slots are drop targets keyed by their position
+  const { offset, handlers } = useDraggable({
+    disabled,
+    threshold: DRAG_THRESHOLD,
+    onDragEnd: ({ dropTarget }) => {
+      if (dropTarget !== undefined) onPlace(Number(dropTarget));
+    },
+    onTap: () => onPlace(),
+  });
+
+  return (
+    <button
+      {...handlers}
+      disabled={disabled}
+      className={`w-16 h-16 bg-yellow-200 rounded-2xl border-[3px] border-ink flex items-center justify-center select-none touch-none ${
+        offset
+          ? 'relative z-10 shadow-[6px_6px_0px_0px_var(--color-shadow)] scale-110'
+          : 'shadow-[3px_3px_0px_0px_var(--color-shadow)] transition-all active:shadow-none active:translate-x-[3px] active:translate-y-[3px]'
+      }`}
+      style={offset ? { transform: `translate(${offset.x}px, ${offset.y}px) scale(1.1)` } : undefined}
+      aria-label={`Letter ${letter}`}
+      id={`alphabet-order-tile-${letter}`}
+    >
+      <span className="text-4xl font-black text-ink leading-none">{letter}</span>
+    </button>
+  );
+}
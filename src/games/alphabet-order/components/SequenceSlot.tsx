@@ -0,0 +1,70 @@
+/**
+ * SequenceSlot Component
+ * One position in the letter sequence: a given letter or a blank to fill
+ */
+
+import type { SlotResult } from '@/types/alphabet-order';
+
+interface SequenceSlotProps {
+  position: number;
+  letter: string | null; // Given or placed letter (null = empty blank)
+  isBlank: boolean;
+  result: SlotResult | null;
+  correctLetter: string; // Revealed under a wrong tile
+  onRemove: (position: number) => void;
+}
+
+export function SequenceSlot({
+  position,
+  letter,
+  isBlank,
+  result,
+  correctLetter,
+  onRemove,
+}: SequenceSlotProps) {
+  // Given letters are plain boxes
+  if (!isBlank) {
+    return (
+      <div
+        className="w-14 h-16 bg-surface rounded-2xl border-[3px] border-ink flex items-center justify-center"
+        id={`alphabet-order-slot-${position}`}
+      >
+        <span className="text-4xl font-black text-ink leading-none">{letter}</span>
+      </div>
+    );
+  }
+
+  let style = 'bg-teal-50 border-dashed';
+  if (result === 'correct') {
+    style = 'bg-teal-200';
+  } else if (result === 'incorrect') {
+    style = 'bg-coral-200';
+  } else if (letter) {
+    style = 'bg-yellow-200 shadow-[3px_3px_0px_0px_var(--color-shadow)]';
+  }
+
+  return (
+    <button
+      onClick={() => onRemove(position)}
+      disabled={!letter || result !== null}
+      className={`relative w-14 h-16 rounded-2xl border-[3px] border-ink flex items-center justify-center transition-colors ${style}`}
+      aria-label={letter ? `Remove ${letter}` : 'Empty space'}
+      data-drop-target={position}
+      id={`alphabet-order-slot-${position}`}
+    >
+      <span className={`text-4xl font-black leading-none ${letter ? 'text-ink' : 'text-gray-400'}`}>
+        {letter ?? '?'}
+      </span>
+
+      {/* Show the right letter under a wrong one */}
+      {result === 'incorrect' && (
+        <span
+          className="absolute -bottom-7 text-xl font-black text-teal-700"
+          id={`alphabet-order-correction-${position}`}
+        >
+          {correctLetter}
+        </span>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,106 @@
+/**
+ * SettingsPanel Component
+ * Configuration options for Alphabet Order
+ */
+
+import { useAlphabetOrderStore } from '../store';
+import { resetAllStatistics } from '../utils';
+import {
+  GameSettingsPanel,
+  DifficultySetting,
+  ChoiceSetting,
+  RoundSizeSetting,
+  ToggleSetting,
+} from '@/components/shared/SettingsControls';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const MODE_LABELS = {
+  mixed: 'Mixed',
+  order: 'A B C',
+  missing: 'A _ C',
+} as const;
+
+const MODE_DESCRIPTIONS = {
+  mixed: '🔀 A mix of both puzzle types',
+  order: '🚂 Put all the shuffled letters in order',
+  missing: '🔍 Find the missing letter',
+} as const;
+
+const CASE_LABELS = {
+  uppercase: 'ABC',
+  lowercase: 'abc',
+} as const;
+
+export function SettingsPanel({ onClose }: SettingsPanelProps) {
+  const { config, updateConfig, resetGame } = useAlphabetOrderStore();
+
+  const handleResetProgress = async (profileId: number) => {
+    await resetAllStatistics(profileId);
+    resetGame();
+  };
+
+  const toggles = [
+    { key: 'soundEnabled', label: '🔊 Sound Effects' },
+    { key: 'hapticEnabled', label: '📳 Haptic Feedback' },
+  ] as const;
+
+  return (
+    <GameSettingsPanel
+      idPrefix="alphabet-order"
+      onClose={onClose}
+      onResetProgress={handleResetProgress}
+    >
+      <DifficultySetting
+        idPrefix="alphabet-order"
+        value={config.difficulty}
+        descriptions={{
+          easy: '🐢 3 letters, one missing',
+          auto: '🎯 4 letters, focuses on tricky sequences',
+          hard: '🔥 5 letters, two missing',
+        }}
+        onChange={(difficulty) => updateConfig({ difficulty })}
+      />
+
+      <ChoiceSetting
+        id="alphabet-order-mode-setting"
+        label="Puzzle Type"
+        value={config.mode}
+        options={['mixed', 'order', 'missing'] as const}
+        optionLabel={(mode) => MODE_LABELS[mode]}
+        onChange={(mode) => updateConfig({ mode })}
+        description={MODE_DESCRIPTIONS[config.mode]}
+      />
+
+      <ChoiceSetting
+        id="alphabet-order-case-setting"
+        label="Letter Case"
+        value={config.letterCase}
+        options={['uppercase', 'lowercase'] as const}
+        optionLabel={(letterCase) => CASE_LABELS[letterCase]}
+        onChange={(letterCase) => updateConfig({ letterCase })}
+      />
+
+      <RoundSizeSetting
+        idPrefix="alphabet-order"
+        value={config.roundSize}
+        min={3}
+        max={12}
+        unit="puzzles"
+        onChange={(roundSize) => updateConfig({ roundSize })}
+      />
+
+      {toggles.map(({ key, label }) => (
+        <ToggleSetting
+          key={key}
+          id={`alphabet-order-${key}-toggle`}
+          label={label}
+          checked={config[key]}
+          onChange={(checked) => updateConfig({ [key]: checked })}
+        />
+      ))}
+    </GameSettingsPanel>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Alphabet Order Config
+ * Game metadata shown in the game list
+ */
+
+import type { GameConfig } from '@/types/game';
+
+export const alphabetOrderConfig: GameConfig = {
+  id: 'alphabet-order',
+  name: 'Alphabet Order',
+  description: 'Put letter tiles in ABC order and find the missing letter',
+  icon: '🚂',
+  itemType: 'letter',
+  defaultDifficulty: 'auto',
+};
@@ -0,0 +1,18 @@
+/**
+ * Alphabet Order Module
+ * Exports game configuration and component for registry
+ */
+
+import type { GameModule } from '@/lib/games/registry';
+import { alphabetOrderConfig } from './config';
+import { AlphabetOrderGame } from './AlphabetOrderGame';
+import { SettingsPanel } from './components/SettingsPanel';
+
+export const alphabetOrderModule: GameModule = {
+  config: alphabetOrderConfig,
+  Component: AlphabetOrderGame,
+  SettingsComponent: SettingsPanel,
+};
+
+// Re-export the game component and config
+export { AlphabetOrderGame, alphabetOrderConfig };
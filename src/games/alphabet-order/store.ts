@@ -0,0 +1,217 @@
+/**
+ * Alphabet Order Game Store (Zustand)
+ * Manages game state, rounds, tile placement, scoring, and configuration
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { AlphabetOrderConfig } from '@/types/game';
+import type { AlphabetOrderState, AlphabetSequence } from '@/types/alphabet-order';
+import { DEFAULT_ALPHABET_ORDER_CONFIG } from '@/types/alphabet-order';
+import { FEEDBACK_DURATION, checkPlacements, generateRound, recordSequence } from './utils';
+import { createSessionId, recordAnswerEvent } from '@/lib/storage/statistics';
+import { useProfileStore } from '@/lib/profiles/store';
+import {
+  saveActiveProfileConfig,
+  syncConfigWithActiveProfile,
+} from '@/lib/profiles/game-config';
+
+/**
+ * Empty placements for a sequence (given letters are pre-filled)
+ */
+function initialPlacements(sequence: AlphabetSequence | undefined): (string | null)[] {
+  if (!sequence) return [];
+  return sequence.letters.map((letter, position) =>
+    sequence.blanks.includes(position) ? null : letter
+  );
+}
+
+export const useAlphabetOrderStore = create<AlphabetOrderState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      currentRound: 0,
+      roundItems: [],
+      currentIndex: 0,
+      currentScore: 0,
+      placements: [],
+      slotResults: null,
+      roundComplete: false,
+      sessionId: null,
+      config: DEFAULT_ALPHABET_ORDER_CONFIG,
+
+      /**
+       * Start a new round
+       */
+      startNewRound: async () => {
+        const { currentRound, config, sessionId } = get();
+
+        // Get active profile
+        const activeProfileId = useProfileStore.getState().activeProfileId;
+        if (!activeProfileId) {
+          console.error('No active profile - cannot start round');
+          return;
+        }
+
+        const items = await generateRound(config, activeProfileId);
+
+        set({
+          currentRound: currentRound + 1,
+          roundItems: items,
+          currentIndex: 0,
+          currentScore: 0,
+          placements: initialPlacements(items[0]),
+          slotResults: null,
+          roundComplete: false,
+          sessionId: sessionId ?? createSessionId(),
+        });
+      },
+
+      /**
+       * Put a tile into a blank (the first empty one when no position is given)
+       * Dropping onto a filled blank swaps the old tile back to the tray
+       */
+      placeTile: (tile: string, position?: number) => {
+        const { roundItems, currentIndex, placements, slotResults } = get();
+        const sequence = roundItems[currentIndex];
+
+        // Ignore while the checked answer is showing
+        if (!sequence || slotResults) return;
+
+        const target = position ?? sequence.blanks.find((blank) => placements[blank] === null);
+        if (target === undefined || !sequence.blanks.includes(target)) return;
+
+        const updated = [...placements];
+        updated[target] = tile;
+        set({ placements: updated });
+      },
+
+      /**
+       * Send a placed tile back to the tray
+       */
+      removeTile: (position: number) => {
+        const { roundItems, currentIndex, placements, slotResults } = get();
+        const sequence = roundItems[currentIndex];
+
+        if (!sequence || slotResults || !sequence.blanks.includes(position)) return;
+
+        const updated = [...placements];
+        updated[position] = null;
+        set({ placements: updated });
+      },
+
+      /**
+       * Check the sequence once every blank is filled
+       * Shows the result, records each tested transition, then advances
+       */
+      checkSequence: async (responseTimeMs?: number) => {
+        const {
+          roundItems,
+          currentIndex,
+          currentScore,
+          currentRound,
+          placements,
+          slotResults,
+          sessionId,
+        } = get();
+        const sequence = roundItems[currentIndex];
+
+        // Only check a fully filled sequence, once
+        if (!sequence || slotResults || sequence.blanks.some((b) => placements[b] === null)) {
+          return;
+        }
+
+        // Get active profile
+        const activeProfileId = useProfileStore.getState().activeProfileId;
+        if (!activeProfileId) {
+          console.error('No active profile - cannot record answer');
+          return;
+        }
+
+        const results = checkPlacements(sequence, placements);
+        const correct = results.every((result) => result !== 'incorrect');
+
+        set({
+          slotResults: results,
+          currentScore: correct ? currentScore + 1 : currentScore,
+        });
+
+        // Record to database while the result is displayed
+        const [transitions] = await Promise.all([
+          recordSequence(sequence, results, activeProfileId, responseTimeMs),
+          new Promise((resolve) =>
+            setTimeout(resolve, correct ? FEEDBACK_DURATION.correct : FEEDBACK_DURATION.incorrect)
+          ),
+        ]);
+
+        await Promise.all(
+          transitions.map((transition) =>
+            recordAnswerEvent({
+              profileId: activeProfileId,
+              gameId: 'alphabet-order',
+              itemId: transition.itemId,
+              correct: transition.correct,
+              roundNumber: currentRound,
+              sessionId: sessionId ?? createSessionId(),
+              responseTimeMs,
+            })
+          )
+        );
+
+        get().nextItem();
+      },
+
+      /**
+       * Move to next sequence and clear the result
+       */
+      nextItem: () => {
+        const { roundItems, currentIndex } = get();
+        const isLastItem = currentIndex >= roundItems.length - 1;
+
+        set({
+          currentIndex: currentIndex + 1,
+          placements: initialPlacements(roundItems[currentIndex + 1]),
+          slotResults: null,
+          roundComplete: isLastItem,
+        });
+      },
+
+      /**
+       * Reset the game completely
+       */
+      resetGame: () => {
+        set({
+          currentRound: 0,
+          roundItems: [],
+          currentIndex: 0,
+          currentScore: 0,
+          placements: [],
+          slotResults: null,
+          roundComplete: false,
+          sessionId: null,
+        });
+      },
+
+      /**
+       * Update game configuration (saved for the active profile)
+       */
+      updateConfig: (newConfig: Partial<AlphabetOrderConfig>) => {
+        const config = { ...get().config, ...newConfig };
+        set({ config });
+        saveActiveProfileConfig('alphabet-order', config);
+      },
+    }),
+    {
+      name: 'alphabet-order-storage',
+      partialize: (state) => ({
+        currentRound: state.currentRound,
+        // config is stored per profile in IndexedDB
+      }),
+    }
+  )
+);
+
+// Swap in the active profile's settings whenever the profile changes
+syncConfigWithActiveProfile('alphabet-order', DEFAULT_ALPHABET_ORDER_CONFIG, (config) =>
+  useAlphabetOrderStore.setState({ config })
+);
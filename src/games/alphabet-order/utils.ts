@@ -0,0 +1,271 @@
+/**
+ * Alphabet Order Game Utilities
+ * Sequence generation, answer checking, adaptive learning, and statistics
+ */
+
+import { db } from '@/lib/storage/db';
+import { applyResponseTime, resetGameStatistics } from '@/lib/storage/statistics';
+import { calculateWeight, shuffleArray } from '@/lib/learning/weighted-selection';
+import { selectRound } from '@/lib/learning/selection-strategy';
+import type { AlphabetOrderConfig, AlphabetOrderStatistics } from '@/types/game';
+import type { AlphabetSequence, SlotResult } from '@/types/alphabet-order';
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+/**
+ * Sequence length and number of blanks ('missing' mode) per difficulty
+ */
+export const SEQUENCE_SHAPE: Record<AlphabetOrderConfig['difficulty'], { length: number; gaps: number }> = {
+  easy: { length: 3, gaps: 1 },
+  auto: { length: 4, gaps: 1 },
+  hard: { length: 5, gaps: 2 },
+};
+
+/**
+ * Extra letters offered next to the missing ones ('missing' mode)
+ */
+const DISTRACTOR_COUNT = 2;
+
+/**
+ * How long the checked sequence stays on screen before the next one (ms)
+ * Mistakes stay longer so the corrected order can be seen
+ */
+export const FEEDBACK_DURATION = {
+  correct: 1000,
+  incorrect: 2200,
+};
+
+/**
+ * Build the statistics item id for a letter transition ('A-B')
+ */
+export function toTransitionId(fromLetter: string, toLetter: string): string {
+  return `${fromLetter.toUpperCase()}-${toLetter.toUpperCase()}`;
+}
+
+/**
+ * Transitions whose answer depends on a blank, as [from, to] position pairs
+ * Transitions between two given letters aren't asked, so they aren't scored
+ */
+export function getTestedTransitions(sequence: AlphabetSequence): [number, number][] {
+  const transitions: [number, number][] = [];
+
+  for (let i = 0; i < sequence.letters.length - 1; i++) {
+    if (sequence.blanks.includes(i) || sequence.blanks.includes(i + 1)) {
+      transitions.push([i, i + 1]);
+    }
+  }
+
+  return transitions;
+}
+
+/**
+ * Pick blank positions for 'missing' mode
+ * Never blanks every letter, so there is always something to anchor on
+ */
+function pickBlanks(length: number, gaps: number): number[] {
+  const positions = shuffleArray(Array.from({ length }, (_, i) => i));
+  return positions.slice(0, Math.min(gaps, length - 1)).sort((a, b) => a - b);
+}
+
+/**
+ * Letters next to the sequence make the best distractors (the classic off-by-one)
+ */
+function pickDistractors(start: number, length: number): string[] {
+  const neighbours = [ALPHABET[start - 1], ALPHABET[start + length]].filter(
+    (letter): letter is string => letter !== undefined
+  );
+  const others = shuffleArray(
+    ALPHABET.filter((_, i) => i < start - 1 || i > start + length)
+  );
+
+  return [...neighbours, ...others].slice(0, DISTRACTOR_COUNT);
+}
+
+/**
+ * Shuffle tiles so they never come out already in order
+ */
+function shuffleTiles(letters: string[]): string[] {
+  if (letters.length < 2) return letters;
+
+  let shuffled = shuffleArray(letters);
+  while (shuffled.every((letter, i) => letter === letters[i])) {
+    shuffled = shuffleArray(letters);
+  }
+  return shuffled;
+}
+
+/**
+ * Build one sequence starting at an alphabet position
+ */
+export function buildSequence(
+  start: number,
+  mode: AlphabetSequence['mode'],
+  config: AlphabetOrderConfig
+): AlphabetSequence {
+  const { length, gaps } = SEQUENCE_SHAPE[config.difficulty];
+  const toCase = (letter: string) =>
+    config.letterCase === 'lowercase' ? letter.toLowerCase() : letter;
+
+  const letters = ALPHABET.slice(start, start + length).map(toCase);
+
+  if (mode === 'order') {
+    return {
+      itemId: `${ALPHABET[start]}-${length}`,
+      mode,
+      letters,
+      blanks: letters.map((_, i) => i),
+      tiles: shuffleTiles(letters),
+    };
+  }
+
+  const blanks = pickBlanks(length, gaps);
+  return {
+    itemId: `${ALPHABET[start]}-${length}`,
+    mode,
+    letters,
+    blanks,
+    tiles: shuffleArray([
+      ...blanks.map((position) => letters[position]),
+      ...pickDistractors(start, length).map(toCase),
+    ]),
+  };
+}
+
+/**
+ * Generate a round of sequences
+ * Each possible starting letter is weighted by the transitions it covers,
+ * so sequences crossing the transitions the child gets wrong come up more
+ */
+export async function generateRound(
+  config: AlphabetOrderConfig,
+  profileId: number
+): Promise<AlphabetSequence[]> {
+  const { length } = SEQUENCE_SHAPE[config.difficulty];
+
+  // Fetch statistics for this profile only
+  const allStats = await db.alphabetOrderStatistics
+    .where('profileId')
+    .equals(profileId)
+    .toArray();
+  const statsById = new Map(allStats.map((stat) => [stat.itemId, stat]));
+
+  const starts = Array.from({ length: ALPHABET.length - length + 1 }, (_, i) => i);
+
+  const selected = selectRound(
+    starts.map((start) => {
+      // Average weight of the transitions inside the sequence (1.0 = never tried)
+      const transitionWeights = Array.from({ length: length - 1 }, (_, i) => {
+        const stat = statsById.get(toTransitionId(ALPHABET[start + i], ALPHABET[start + i + 1]));
+        return stat ? calculateWeight(stat) : 1.0;
+      });
+
+      return {
+        itemId: `${ALPHABET[start]}-${length}`,
+        value: start,
+        boost: transitionWeights.reduce((sum, w) => sum + w, 0) / transitionWeights.length,
+      };
+    }),
+    { roundSize: config.roundSize, mode: config.difficulty }
+  );
+
+  return selected.map((start) => {
+    const mode =
+      config.mode === 'mixed' ? (Math.random() > 0.5 ? 'order' : 'missing') : config.mode;
+    return buildSequence(start, mode, config);
+  });
+}
+
+/**
+ * Check each position once all blanks are filled
+ * Given letters are null (not part of the answer)
+ */
+export function checkPlacements(
+  sequence: AlphabetSequence,
+  placements: (string | null)[]
+): (SlotResult | null)[] {
+  return sequence.letters.map((letter, position) => {
+    if (!sequence.blanks.includes(position)) return null;
+    return placements[position] === letter ? 'correct' : 'incorrect';
+  });
+}
+
+/**
+ * Record the transitions of a checked sequence to the database
+ * A transition is correct when both of its letters ended up in the right place
+ *
+ * @returns The recorded transitions, for the answer event log
+ */
+export async function recordSequence(
+  sequence: AlphabetSequence,
+  slotResults: (SlotResult | null)[],
+  profileId: number,
+  responseTimeMs?: number
+): Promise<{ itemId: string; correct: boolean }[]> {
+  const recorded: { itemId: string; correct: boolean }[] = [];
+
+  for (const [from, to] of getTestedTransitions(sequence)) {
+    const correct = slotResults[from] !== 'incorrect' && slotResults[to] !== 'incorrect';
+    const fromLetter = sequence.letters[from].toUpperCase();
+    const toLetter = sequence.letters[to].toUpperCase();
+
+    await recordTransition(fromLetter, toLetter, correct, profileId, responseTimeMs);
+    recorded.push({ itemId: toTransitionId(fromLetter, toLetter), correct });
+  }
+
+  return recorded;
+}
+
+/**
+ * Record a single transition answer
+ */
+async function recordTransition(
+  fromLetter: string,
+  toLetter: string,
+  correct: boolean,
+  profileId: number,
+  responseTimeMs?: number
+): Promise<void> {
+  // Get existing statistics or create new
+  let stat: AlphabetOrderStatistics | undefined = await db.alphabetOrderStatistics
+    .where('[profileId+fromLetter]')
+    .equals([profileId, fromLetter])
+    .first();
+
+  if (!stat) {
+    stat = {
+      gameId: 'alphabet-order',
+      profileId,
+      itemId: toTransitionId(fromLetter, toLetter),
+      fromLetter,
+      toLetter,
+      totalAttempts: 0,
+      correctCount: 0,
+      incorrectCount: 0,
+      lastAttempt: new Date(),
+      successRate: 0,
+    };
+  }
+
+  // Update counts
+  stat.totalAttempts++;
+  if (correct) {
+    stat.correctCount++;
+  } else {
+    stat.incorrectCount++;
+  }
+
+  // Recalculate success rate
+  stat.successRate = stat.correctCount / stat.totalAttempts;
+  stat.lastAttempt = new Date();
+  applyResponseTime(stat, responseTimeMs);
+
+  // Save to database
+  await db.alphabetOrderStatistics.put(stat);
+}
+
+/**
+ * Reset all alphabet order statistics for a specific profile
+ */
+export async function resetAllStatistics(profileId: number): Promise<void> {
+  await resetGameStatistics('alphabet-order', profileId);
+}
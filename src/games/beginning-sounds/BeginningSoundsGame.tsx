@@ -0,0 +1,267 @@
+/**
+ * Beginning Sounds - Main Game Component
+ * Look at a picture and tap the letter its name starts with
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useBeginningSoundsStore } from './store';
+import { RoundSummary } from '@/components/shared/RoundSummary';
+import { GameContainer } from '@/components/shared/GameContainer';
+import { Button } from '@/components/shared/Button';
+import { Card } from '@/components/shared/Card';
+import { ChoiceCard, type ChoiceCardFeedback } from '@/components/shared/ChoiceCard';
+import { useGameNavigation } from '@/hooks/useGameNavigation';
+import { useGameAudio } from '@/hooks/useGameAudio';
+import { useGameHaptics } from '@/hooks/useGameHaptics';
+import { STREAK_MILESTONE } from '@/lib/haptics/haptics';
+
+export function BeginningSoundsGame() {
+  const {
+    currentRound,
+    roundItems,
+    currentIndex,
+    currentScore,
+    roundComplete,
+    showingFeedback,
+    lastChoice,
+    config,
+    startNewRound,
+    handleChoice,
+  } = useBeginningSoundsStore();
+
+  const { goHome, openSettings } = useGameNavigation('beginning-sounds');
+  const { playSound, say } = useGameAudio(config.soundEnabled);
+  const { haptic } = useGameHaptics(config.hapticEnabled);
+  const streak = useRef(0); // Correct answers in a row
+  const shownAt = useRef(performance.now()); // When the current picture appeared
+  const [isStarted, setIsStarted] = useState(false);
+
+  const currentItem = roundItems[currentIndex];
+
+  // Name each new picture as it comes up and start timing from there
+  useEffect(() => {
+    if (!isStarted || !currentItem) return;
+    shownAt.current = performance.now();
+    if (config.speakWords) say(currentItem.picture.word);
+  }, [isStarted, currentItem, config.speakWords, say]);
+
+  const handleSayWord = () => {
+    if (currentItem) say(currentItem.picture.word);
+  };
+
+  const handleStart = async () => {
+    await startNewRound();
+    streak.current = 0;
+    setIsStarted(true);
+  };
+
+  const handleSelect = (choice: string) => {
+    if (showingFeedback || !currentItem) return;
+
+    const correct = choice === currentItem.answer;
+
+    // The last answer gets the round-complete fanfare from the summary instead
+    if (currentIndex < roundItems.length - 1) {
+      playSound(correct ? 'correct' : 'incorrect');
+    }
+
+    // Streak milestones replace the regular correct pattern
+    streak.current = correct ? streak.current + 1 : 0;
+    if (streak.current > 0 && streak.current % STREAK_MILESTONE === 0) {
+      haptic('streak');
+    } else {
+      haptic(correct ? 'correct' : 'incorrect');
+    }
+
+    handleChoice(choice, performance.now() - shownAt.current);
+  };
+
+  const handleBack = () => {
+    goHome();
+  };
+
+  const totalItems = roundItems.length;
+  const progress = totalItems > 0 ? `${currentIndex} / ${totalItems}` : '0 / 0';
+
+  const getFeedback = (choice: string): ChoiceCardFeedback => {
+    if (!showingFeedback || !currentItem) return 'none';
+    if (choice === lastChoice) {
+      return choice === currentItem.answer ? 'correct' : 'incorrect';
+    }
+    return choice === currentItem.answer ? 'reveal' : 'none';
+  };
+
+  // Welcome screen
+  if (!isStarted || currentRound === 0) {
+    return (
+      <GameContainer
+        title="Beginning Sounds"
+        onBack={handleBack}
+      >
+        <div className="flex-1 flex flex-col items-center justify-center px-6 text-center">
+          {/* Icon with playful rotation */}
+          <div className="mb-8">
+            <div className="w-28 h-28 bg-teal-300 rounded-3xl border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)] flex items-center justify-center transform rotate-6 mx-auto mb-6">
+              <span className="text-6xl">🍎</span>
+            </div>
+
+            <h2 className="text-4xl font-black text-ink mb-6">
+              Beginning Sounds
+            </h2>
+
+            {/* Instructions card */}
+            <Card className="p-6 max-w-md mx-auto mb-8">
+              <div className="space-y-3 text-left">
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-teal-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">1</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Look at the picture 👀
+                  </p>
+                </div>
+
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-yellow-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">2</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    What is it? Which sound does it start with?
+                  </p>
+                </div>
+
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-coral-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">3</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Tap the first letter! Tap the picture to hear its name
+                  </p>
+                </div>
+              </div>
+            </Card>
+          </div>
+
+          <div className="space-y-3 w-full max-w-xs">
+            <Button
+              variant="primary"
+              onClick={handleStart}
+              className="w-full"
+              id="beginning-sounds-start-button"
+            >
+              🎮 Start Round
+            </Button>
+
+            <Button
+              variant="ghost"
+              onClick={openSettings}
+              className="w-full"
+              id="beginning-sounds-welcome-settings-button"
+            >
+              ⚙️ Settings
+            </Button>
+          </div>
+        </div>
+      </GameContainer>
+    );
+  }
+
+  // Round summary screen
+  if (roundComplete) {
+    return (
+      <RoundSummary
+        idPrefix="beginning-sounds"
+        totalAttempts={totalItems}
+        correctCount={currentScore}
+        incorrectCount={totalItems - currentScore}
+        roundNumber={currentRound}
+        soundEnabled={config.soundEnabled}
+        hapticEnabled={config.hapticEnabled}
+        onPlayAgain={handleStart}
+        onHome={handleBack}
+        onSettings={openSettings}
+      />
+    );
+  }
+
+  // Active gameplay
+  return (
+    <GameContainer
+      title="Beginning Sounds"
+      onBack={handleBack}
+    >
+      {/* Header - Score and Settings */}
+      <div className="w-full flex items-center justify-between px-6 py-4">
+        <button
+          onClick={openSettings}
+          className="w-14 h-14 bg-yellow-300 rounded-2xl border-[3px] border-ink flex items-center justify-center hover:bg-yellow-400 active:bg-yellow-500 transition-colors shadow-[3px_3px_0px_0px_var(--color-shadow)] active:shadow-none active:translate-x-[3px] active:translate-y-[3px]"
+          aria-label="Settings"
+          id="beginning-sounds-settings-button"
+        >
+          <span className="text-2xl">⚙️</span>
+        </button>
+
+        <div
+          className="bg-surface px-5 py-2 rounded-full border-[3px] border-ink shadow-[3px_3px_0px_0px_var(--color-shadow)]"
+          id="beginning-sounds-score-display"
+        >
+          <span className="text-lg font-black text-ink">
+            {currentScore} / {showingFeedback ? currentIndex + 1 : currentIndex}
+          </span>
+        </div>
+      </div>
+
+      {/* Main game area - Sound button and choices */}
+      <div className="flex-1 flex flex-col items-center justify-center gap-8 px-6">
+        {currentItem && (
+          <>
+            <button
+              onClick={handleSayWord}
+              className="w-[200px] h-[200px] bg-surface rounded-[32px] border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)] flex items-center justify-center p-4 hover:bg-yellow-50 active:shadow-none active:translate-x-[6px] active:translate-y-[6px] transition-all"
+              aria-label={`Say the name of the picture: ${currentItem.picture.word}`}
+              id="beginning-sounds-picture"
+              key={`${currentItem.itemId}-${currentIndex}`}
+            >
+              <img
+                src={currentItem.picture.image}
+                alt={currentItem.picture.word}
+                className="w-full h-full object-contain"
+                draggable={false}
+              />
+            </button>
+
+            <div className="flex flex-wrap justify-center gap-4 max-w-[260px] min-[480px]:max-w-none" id="beginning-sounds-choices">
+              {currentItem.choices.map((choice) => (
+                <ChoiceCard
+                  key={choice}
+                  value={choice}
+                  label={`Letter ${choice}`}
+                  idPrefix="beginning-sounds"
+                  feedback={getFeedback(choice)}
+                  disabled={showingFeedback}
+                  onSelect={handleSelect}
+                />
+              ))}
+            </div>
+          </>
+        )}
+
+        <p className="text-lg font-bold text-ink-muted text-center" id="beginning-sounds-instruction">
+          Which letter does it start with?
+        </p>
+      </div>
+
+      {/* Progress footer */}
+      <div className="px-6 py-4 flex justify-center">
+        <div
+          className="bg-teal-200 px-6 py-2 rounded-full border-[2px] border-ink"
+          id="beginning-sounds-progress-display"
+        >
+          <span className="text-sm font-bold text-ink">
+            Round {currentRound} • {progress}
+          </span>
+        </div>
+      </div>
+    </GameContainer>
+  );
+}
@@ -0,0 +1,86 @@
+/**
+ * SettingsPanel Component
+ * Configuration options for Beginning Sounds
+ */
+
+import { useBeginningSoundsStore } from '../store';
+import { resetAllStatistics } from '../utils';
+import {
+  GameSettingsPanel,
+  DifficultySetting,
+  ChoiceSetting,
+  RoundSizeSetting,
+  ToggleSetting,
+} from '@/components/shared/SettingsControls';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const CASE_LABELS = {
+  lowercase: 'abc',
+  uppercase: 'ABC',
+} as const;
+
+export function SettingsPanel({ onClose }: SettingsPanelProps) {
+  const { config, updateConfig, resetGame } = useBeginningSoundsStore();
+
+  const handleResetProgress = async (profileId: number) => {
+    await resetAllStatistics(profileId);
+    resetGame();
+  };
+
+  const toggles = [
+    { key: 'soundEnabled', label: '🔊 Sound Effects' },
+    { key: 'speakWords', label: '🗣️ Say Picture Names' },
+    { key: 'hapticEnabled', label: '📳 Haptic Feedback' },
+  ] as const;
+
+  return (
+    <GameSettingsPanel
+      idPrefix="beginning-sounds"
+      onClose={onClose}
+      onResetProgress={handleResetProgress}
+    >
+      <DifficultySetting
+        idPrefix="beginning-sounds"
+        value={config.difficulty}
+        descriptions={{
+          easy: '🐢 3 choices, one your child mixes up in Letter Match, slower pace',
+          auto: '🎯 4 choices, two from Letter Match mix-ups, focuses on tricky pictures',
+          hard: '🔥 4 choices, all from Letter Match mix-ups, faster feedback',
+          spaced: '🗓️ Spaced review - pictures come back when they are due',
+        }}
+        onChange={(difficulty) => updateConfig({ difficulty })}
+      />
+
+      <ChoiceSetting
+        id="beginning-sounds-case-setting"
+        label="Letter Cards"
+        value={config.letterCase}
+        options={['lowercase', 'uppercase'] as const}
+        optionLabel={(letterCase) => CASE_LABELS[letterCase]}
+        onChange={(letterCase) => updateConfig({ letterCase })}
+      />
+
+      <RoundSizeSetting
+        idPrefix="beginning-sounds"
+        value={config.roundSize}
+        min={5}
+        max={20}
+        unit="items"
+        onChange={(roundSize) => updateConfig({ roundSize })}
+      />
+
+      {toggles.map(({ key, label }) => (
+        <ToggleSetting
+          key={key}
+          id={`beginning-sounds-${key}-toggle`}
+          label={label}
+          checked={config[key]}
+          onChange={(checked) => updateConfig({ [key]: checked })}
+        />
+      ))}
+    </GameSettingsPanel>
+  );
+}
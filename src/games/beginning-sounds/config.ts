@@ -0,0 +1,15 @@
+/**
+ * Beginning Sounds Config
+ * Game metadata shown in the game list
+ */
+
+import type { GameConfig } from '@/types/game';
+
+export const beginningSoundsConfig: GameConfig = {
+  id: 'beginning-sounds',
+  name: 'Beginning Sounds',
+  description: 'Look at a picture and tap the letter it starts with',
+  icon: '🍎',
+  itemType: 'letter',
+  defaultDifficulty: 'auto',
+};
@@ -0,0 +1,18 @@
+/**
+ * Beginning Sounds Module
+ * Exports game configuration and component for registry
+ */
+
+import type { GameModule } from '@/lib/games/registry';
+import { beginningSoundsConfig } from './config';
+import { BeginningSoundsGame } from './BeginningSoundsGame';
+import { SettingsPanel } from './components/SettingsPanel';
+
+export const beginningSoundsModule: GameModule = {
+  config: beginningSoundsConfig,
+  Component: BeginningSoundsGame,
+  SettingsComponent: SettingsPanel,
+};
+
+// Re-export the game component and config
+export { BeginningSoundsGame, beginningSoundsConfig };
@@ -0,0 +1,56 @@
+/**
+ * Beginning Sounds Pictures
+ * Bundled picture set (public/images), available offline
+ */
+
+import type { Picture } from '@/types/beginning-sounds';
+
+/**
+ * Build a picture entry; the letter is the first letter of the word
+ */
+function picture(id: string, word: string = id): Picture {
+  return { id, word, letter: word.charAt(0).toUpperCase(), image: `/images/${id}.svg` };
+}
+
+/**
+ * Every word starts with the letter's common sound: short vowels ("apple",
+ * not "acorn") and hard C and G. Q, X and Z have no picture, since few
+ * familiar words start with them
+ */
+export const PICTURES: Picture[] = [
+  picture('apple'),
+  picture('ball'),
+  picture('banana'),
+  picture('cake'),
+  picture('cup'),
+  picture('door'),
+  picture('egg'),
+  picture('fish'),
+  picture('gift'),
+  picture('hat'),
+  picture('heart'),
+  picture('igloo'),
+  picture('jar'),
+  picture('kite'),
+  picture('leaf'),
+  picture('moon'),
+  picture('nest'),
+  picture('octopus'),
+  picture('pizza'),
+  picture('ring'),
+  picture('star'),
+  picture('sun'),
+  picture('tent'),
+  picture('tree'),
+  picture('umbrella'),
+  picture('van'),
+  picture('web'),
+  picture('yoyo', 'yo-yo'),
+];
+
+/**
+ * Build the statistics item id for a picture ('A-apple')
+ */
+export function toItemId(picture: Picture): string {
+  return `${picture.letter}-${picture.id}`;
+}
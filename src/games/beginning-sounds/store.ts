@@ -0,0 +1,172 @@
+/**
+ * Beginning Sounds Game Store (Zustand)
+ * Manages game state, rounds, scoring, and configuration
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { BeginningSoundsConfig } from '@/types/game';
+import type { BeginningSoundsState } from '@/types/beginning-sounds';
+import { DEFAULT_BEGINNING_SOUNDS_CONFIG } from '@/types/beginning-sounds';
+import { FEEDBACK_DURATION, generateRound, recordAnswer as recordAnswerToDB } from './utils';
+import {
+  createSessionId,
+  recordAnswerEvent,
+  updateReviewSchedule,
+} from '@/lib/storage/statistics';
+import { useProfileStore } from '@/lib/profiles/store';
+import {
+  saveActiveProfileConfig,
+  syncConfigWithActiveProfile,
+} from '@/lib/profiles/game-config';
+
+export const useBeginningSoundsStore = create<BeginningSoundsState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      currentRound: 0,
+      roundItems: [],
+      currentIndex: 0,
+      currentScore: 0,
+      roundComplete: false,
+      showingFeedback: false,
+      lastChoice: null,
+      sessionId: null,
+      config: DEFAULT_BEGINNING_SOUNDS_CONFIG,
+
+      /**
+       * Start a new round
+       */
+      startNewRound: async () => {
+        const { currentRound, config, sessionId } = get();
+
+        // Get active profile
+        const activeProfileId = useProfileStore.getState().activeProfileId;
+        if (!activeProfileId) {
+          console.error('No active profile - cannot start round');
+          return;
+        }
+
+        const items = await generateRound(config, activeProfileId);
+
+        set({
+          currentRound: currentRound + 1,
+          roundItems: items,
+          currentIndex: 0,
+          currentScore: 0,
+          roundComplete: false,
+          showingFeedback: false,
+          lastChoice: null,
+          sessionId: sessionId ?? createSessionId(),
+        });
+      },
+
+      /**
+       * Handle a tap on one of the choices
+       * Shows feedback, records the answer, then advances
+       */
+      handleChoice: async (choice: string, responseTimeMs?: number) => {
+        const {
+          roundItems,
+          currentIndex,
+          currentScore,
+          currentRound,
+          showingFeedback,
+          sessionId,
+          config,
+        } = get();
+
+        // Ignore taps while feedback is showing or after the round ended
+        if (showingFeedback || currentIndex >= roundItems.length) {
+          return;
+        }
+
+        // Get active profile
+        const activeProfileId = useProfileStore.getState().activeProfileId;
+        if (!activeProfileId) {
+          console.error('No active profile - cannot record answer');
+          return;
+        }
+
+        const currentItem = roundItems[currentIndex];
+        const correct = choice === currentItem.answer;
+
+        set({
+          showingFeedback: true,
+          lastChoice: choice,
+          currentScore: correct ? currentScore + 1 : currentScore,
+        });
+
+        // Record to database while feedback is displayed
+        await Promise.all([
+          recordAnswerToDB(currentItem, correct, activeProfileId, responseTimeMs),
+          updateReviewSchedule(activeProfileId, 'beginning-sounds', currentItem.itemId, correct),
+          recordAnswerEvent({
+            profileId: activeProfileId,
+            gameId: 'beginning-sounds',
+            itemId: currentItem.itemId,
+            correct,
+            roundNumber: currentRound,
+            sessionId: sessionId ?? createSessionId(),
+            responseTimeMs,
+          }),
+          new Promise((resolve) => setTimeout(resolve, FEEDBACK_DURATION[config.difficulty])),
+        ]);
+
+        get().nextItem();
+      },
+
+      /**
+       * Move to next item and clear feedback
+       */
+      nextItem: () => {
+        const { roundItems, currentIndex } = get();
+        const isLastItem = currentIndex >= roundItems.length - 1;
+
+        set({
+          currentIndex: currentIndex + 1,
+          showingFeedback: false,
+          lastChoice: null,
+          roundComplete: isLastItem,
+        });
+      },
+
+      /**
+       * Reset the game completely
+       */
+      resetGame: () => {
+        set({
+          currentRound: 0,
+          roundItems: [],
+          currentIndex: 0,
+          currentScore: 0,
+          roundComplete: false,
+          showingFeedback: false,
+          lastChoice: null,
+          sessionId: null,
+        });
+      },
+
+      /**
+       * Update game configuration (saved for the active profile)
+       */
+      updateConfig: (newConfig: Partial<BeginningSoundsConfig>) => {
+        const config = { ...get().config, ...newConfig };
+        set({ config });
+        saveActiveProfileConfig('beginning-sounds', config);
+      },
+    }),
+    {
+      name: 'beginning-sounds-storage',
+      partialize: (state) => ({
+        currentRound: state.currentRound,
+        // config is stored per profile in IndexedDB
+      }),
+    }
+  )
+);
+
+// Swap in the active profile's settings whenever the profile changes
+syncConfigWithActiveProfile('beginning-sounds', DEFAULT_BEGINNING_SOUNDS_CONFIG, (config) =>
+  useBeginningSoundsStore.setState({ config })
+);
@@ -0,0 +1,197 @@
+/**
+ * Beginning Sounds Game Utilities
+ * Distractors from Letter Match, round generation, adaptive learning, and statistics
+ */
+
+import { db } from '@/lib/storage/db';
+import {
+  applyResponseTime,
+  getReviewSchedules,
+  resetGameStatistics,
+} from '@/lib/storage/statistics';
+import {
+  calculateWeight,
+  shuffleArray,
+  weightedRandomSelection,
+} from '@/lib/learning/weighted-selection';
+import { selectRound } from '@/lib/learning/selection-strategy';
+import { SAME_SOUND } from '@/lib/audio/letter-sounds';
+import type { BeginningSoundStatistics, BeginningSoundsConfig, WeightedItem } from '@/types/game';
+import type { BeginningSoundsItem, Picture } from '@/types/beginning-sounds';
+import { PICTURES, toItemId } from './pictures';
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+/**
+ * Number of choices and how many distractors are letters the child confuses
+ * in Letter Match, per mode; the rest are random letters
+ */
+const CHOICE_SHAPE: Record<BeginningSoundsConfig['difficulty'], { choices: number; confused: number }> = {
+  easy: { choices: 3, confused: 1 },
+  auto: { choices: 4, confused: 2 },
+  hard: { choices: 4, confused: 3 },
+  spaced: { choices: 4, confused: 2 },
+};
+
+/**
+ * How long the result of a tap stays on screen before the next picture (ms)
+ */
+export const FEEDBACK_DURATION: Record<BeginningSoundsConfig['difficulty'], number> = {
+  easy: 1800,
+  auto: 1400,
+  hard: 1000,
+  spaced: 1400,
+};
+
+/**
+ * Letters the child gets wrong in Letter Match, in the case shown on the cards
+ * Weighted like Letter Match's own rounds: the more often wrong, the heavier
+ */
+export async function getConfusedLetters(
+  profileId: number,
+  letterCase: BeginningSoundsConfig['letterCase']
+): Promise<WeightedItem[]> {
+  const stats = await db.letterMatchStatistics.where('profileId').equals(profileId).toArray();
+
+  return stats
+    .filter((stat) => stat.caseType === letterCase && stat.totalAttempts > 0 && stat.successRate < 1)
+    .map((stat) => ({ itemId: stat.letter, weight: calculateWeight(stat) }));
+}
+
+/**
+ * Pick distractors for a letter (uppercase)
+ * Confused letters come first; without Letter Match statistics all are random
+ */
+function pickDistractors(
+  letter: string,
+  difficulty: BeginningSoundsConfig['difficulty'],
+  confusedLetters: WeightedItem[]
+): string[] {
+  const { choices, confused } = CHOICE_SHAPE[difficulty];
+  const excluded = [letter, ...(SAME_SOUND[letter] ?? [])];
+
+  const struggling = weightedRandomSelection(
+    confusedLetters.filter((candidate) => !excluded.includes(candidate.itemId)),
+    confused
+  );
+  const others = shuffleArray(
+    ALPHABET.filter((other) => !excluded.includes(other) && !struggling.includes(other))
+  );
+
+  // Two distractors that sound the same (C and K) would both be wrong for the same reason
+  const distractors: string[] = [];
+  for (const candidate of [...struggling, ...others]) {
+    if (distractors.length === choices - 1) break;
+    if (distractors.some((picked) => SAME_SOUND[picked]?.includes(candidate))) continue;
+    distractors.push(candidate);
+  }
+  return distractors;
+}
+
+/**
+ * Build one item for a picture
+ */
+export function buildItem(
+  picture: Picture,
+  config: BeginningSoundsConfig,
+  confusedLetters: WeightedItem[]
+): BeginningSoundsItem {
+  const toCase = (value: string) =>
+    config.letterCase === 'lowercase' ? value.toLowerCase() : value.toUpperCase();
+  const answer = toCase(picture.letter);
+  const distractors = pickDistractors(picture.letter, config.difficulty, confusedLetters);
+
+  return {
+    itemId: toItemId(picture),
+    picture,
+    answer,
+    choices: shuffleArray([answer, ...distractors.map(toCase)]),
+  };
+}
+
+/**
+ * Generate a round based on statistics
+ * Uses the selection strategy for the configured mode to prioritize
+ * struggling (or due) pictures; pictures never tried count as struggling
+ */
+export async function generateRound(
+  config: BeginningSoundsConfig,
+  profileId: number
+): Promise<BeginningSoundsItem[]> {
+  // Fetch statistics, review schedules and Letter Match results for this profile only
+  const [allStats, schedules, confusedLetters] = await Promise.all([
+    db.beginningSoundStatistics.where('profileId').equals(profileId).toArray(),
+    getReviewSchedules(profileId, 'beginning-sounds'),
+    getConfusedLetters(profileId, config.letterCase),
+  ]);
+
+  const statsById = new Map(allStats.map((stat) => [stat.itemId, stat]));
+
+  const selected = selectRound(
+    PICTURES.map((picture) => ({
+      itemId: toItemId(picture),
+      value: picture,
+      stat: statsById.get(toItemId(picture)),
+      schedule: schedules.get(toItemId(picture)),
+    })),
+    { roundSize: config.roundSize, mode: config.difficulty }
+  );
+
+  return selected.map((picture) => buildItem(picture, config, confusedLetters));
+}
+
+/**
+ * Record an answer to the database
+ */
+export async function recordAnswer(
+  item: BeginningSoundsItem,
+  correct: boolean,
+  profileId: number,
+  responseTimeMs?: number
+): Promise<void> {
+  const { letter, id: picture } = item.picture;
+
+  // Get existing statistics or create new
+  let stat: BeginningSoundStatistics | undefined = await db.beginningSoundStatistics
+    .where('[profileId+letter+picture]')
+    .equals([profileId, letter, picture])
+    .first();
+
+  if (!stat) {
+    stat = {
+      gameId: 'beginning-sounds',
+      profileId,
+      itemId: item.itemId,
+      letter,
+      picture,
+      totalAttempts: 0,
+      correctCount: 0,
+      incorrectCount: 0,
+      lastAttempt: new Date(),
+      successRate: 0,
+    };
+  }
+
+  // Update counts
+  stat.totalAttempts++;
+  if (correct) {
+    stat.correctCount++;
+  } else {
+    stat.incorrectCount++;
+  }
+
+  // Recalculate success rate
+  stat.successRate = stat.correctCount / stat.totalAttempts;
+  stat.lastAttempt = new Date();
+  applyResponseTime(stat, responseTimeMs);
+
+  // Save to database
+  await db.beginningSoundStatistics.put(stat);
+}
+
+/**
+ * Reset all beginning sound statistics for a specific profile
+ */
+export async function resetAllStatistics(profileId: number): Promise<void> {
+  await resetGameStatistics('beginning-sounds', profileId);
+}
@@ -0,0 +1,269 @@
+/**
+ * Case Match - Main Game Component
+ * Tap the lowercase partner of an uppercase letter (or the other way round)
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useCaseMatchStore } from './store';
+import { RoundSummary } from '@/components/shared/RoundSummary';
+import { GameContainer } from '@/components/shared/GameContainer';
+import { Button } from '@/components/shared/Button';
+import { Card } from '@/components/shared/Card';
+import { ChoiceCard, type ChoiceCardFeedback } from '@/components/shared/ChoiceCard';
+import { useGameNavigation } from '@/hooks/useGameNavigation';
+import { useGameAudio } from '@/hooks/useGameAudio';
+import { useGameHaptics } from '@/hooks/useGameHaptics';
+import { STREAK_MILESTONE } from '@/lib/haptics/haptics';
+
+export function CaseMatchGame() {
+  const {
+    currentRound,
+    roundItems,
+    currentIndex,
+    currentScore,
+    roundComplete,
+    showingFeedback,
+    lastChoice,
+    config,
+    startNewRound,
+    handleChoice,
+  } = useCaseMatchStore();
+
+  const { goHome, openSettings } = useGameNavigation('case-match');
+  const { playSound } = useGameAudio(config.soundEnabled);
+  const { haptic } = useGameHaptics(config.hapticEnabled);
+  const streak = useRef(0); // Correct answers in a row
+  const shownAt = useRef(performance.now()); // When the current letter appeared
+  const [isStarted, setIsStarted] = useState(false);
+
+  // Start timing each new letter
+  useEffect(() => {
+    shownAt.current = performance.now();
+  }, [currentIndex, currentRound]);
+
+  const handleStart = async () => {
+    await startNewRound();
+    streak.current = 0;
+    setIsStarted(true);
+  };
+
+  const handleSelect = (choice: string) => {
+    if (showingFeedback || !currentItem) return;
+
+    const correct = choice === currentItem.answer;
+
+    // The last answer gets the round-complete fanfare from the summary instead
+    if (currentIndex < roundItems.length - 1) {
+      playSound(correct ? 'correct' : 'incorrect');
+    }
+
+    // Streak milestones replace the regular correct pattern
+    streak.current = correct ? streak.current + 1 : 0;
+    if (streak.current > 0 && streak.current % STREAK_MILESTONE === 0) {
+      haptic('streak');
+    } else {
+      haptic(correct ? 'correct' : 'incorrect');
+    }
+
+    handleChoice(choice, performance.now() - shownAt.current);
+  };
+
+  const handleBack = () => {
+    goHome();
+  };
+
+  const currentItem = roundItems[currentIndex];
+  const totalItems = roundItems.length;
+  const progress = totalItems > 0 ? `${currentIndex} / ${totalItems}` : '0 / 0';
+
+  const getFeedback = (choice: string): ChoiceCardFeedback => {
+    if (!showingFeedback || !currentItem) return 'none';
+    if (choice === lastChoice) {
+      return choice === currentItem.answer ? 'correct' : 'incorrect';
+    }
+    return choice === currentItem.answer ? 'reveal' : 'none';
+  };
+
+  // Welcome screen
+  if (!isStarted || currentRound === 0) {
+    return (
+      <GameContainer
+        title="Case Match"
+        onBack={handleBack}
+      >
+        <div className="flex-1 flex flex-col items-center justify-center px-6 text-center">
+          {/* Icon with playful rotation */}
+          <div className="mb-8">
+            <div className="w-28 h-28 bg-coral-300 rounded-3xl border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)] flex items-center justify-center transform -rotate-6 mx-auto mb-6">
+              <span className="text-6xl">🧦</span>
+            </div>
+
+            <h2 className="text-4xl font-black text-ink mb-6">
+              Case Match
+            </h2>
+
+            {/* Instructions card */}
+            <Card className="p-6 max-w-md mx-auto mb-8">
+              <div className="space-y-3 text-left">
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-teal-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">1</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Every letter has a big and a small twin
+                  </p>
+                </div>
+
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-yellow-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">2</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Look at the letter at the top
+                  </p>
+                </div>
+
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-coral-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">3</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Tap its twin! 👆
+                  </p>
+                </div>
+              </div>
+
+              {/* Example pair */}
+              <div className="flex justify-center items-center gap-3 mt-5" id="case-match-example">
+                <div className="w-16 h-20 bg-surface rounded-xl border-[3px] border-ink flex items-center justify-center">
+                  <span className="text-5xl font-black text-ink leading-none">G</span>
+                </div>
+                <span className="text-2xl font-black text-ink">=</span>
+                <div className="w-16 h-20 bg-teal-200 rounded-xl border-[3px] border-ink flex items-center justify-center">
+                  <span className="text-5xl font-black text-ink leading-none">g</span>
+                </div>
+              </div>
+            </Card>
+          </div>
+
+          <div className="space-y-3 w-full max-w-xs">
+            <Button
+              variant="primary"
+              onClick={handleStart}
+              className="w-full"
+              id="case-match-start-button"
+            >
+              🎮 Start Round
+            </Button>
+
+            <Button
+              variant="ghost"
+              onClick={openSettings}
+              className="w-full"
+              id="case-match-welcome-settings-button"
+            >
+              ⚙️ Settings
+            </Button>
+          </div>
+        </div>
+      </GameContainer>
+    );
+  }
+
+  // Round summary screen
+  if (roundComplete) {
+    return (
+      <RoundSummary
+        idPrefix="case-match"
+        totalAttempts={totalItems}
+        correctCount={currentScore}
+        incorrectCount={totalItems - currentScore}
+        roundNumber={currentRound}
+        soundEnabled={config.soundEnabled}
+        hapticEnabled={config.hapticEnabled}
+        onPlayAgain={handleStart}
+        onHome={handleBack}
+        onSettings={openSettings}
+      />
+    );
+  }
+
+  // Active gameplay
+  return (
+    <GameContainer
+      title="Case Match"
+      onBack={handleBack}
+    >
+      {/* Header - Score and Settings */}
+      <div className="w-full flex items-center justify-between px-6 py-4">
+        <button
+          onClick={openSettings}
+          className="w-14 h-14 bg-yellow-300 rounded-2xl border-[3px] border-ink flex items-center justify-center hover:bg-yellow-400 active:bg-yellow-500 transition-colors shadow-[3px_3px_0px_0px_var(--color-shadow)] active:shadow-none active:translate-x-[3px] active:translate-y-[3px]"
+          aria-label="Settings"
+          id="case-match-settings-button"
+        >
+          <span className="text-2xl">⚙️</span>
+        </button>
+
+        <div
+          className="bg-surface px-5 py-2 rounded-full border-[3px] border-ink shadow-[3px_3px_0px_0px_var(--color-shadow)]"
+          id="case-match-score-display"
+        >
+          <span className="text-lg font-black text-ink">
+            {currentScore} / {showingFeedback ? currentIndex + 1 : currentIndex}
+          </span>
+        </div>
+      </div>
+
+      {/* Main game area - Shown letter and choices */}
+      <div className="flex-1 flex flex-col items-center justify-center gap-8 px-6">
+        {currentItem && (
+          <>
+            <Card
+              elevated
+              className="w-[150px] h-[170px] flex items-center justify-center"
+              id="case-match-prompt"
+              key={`${currentItem.itemId}-${currentIndex}`}
+            >
+              <span className="text-[110px] font-black text-ink leading-none">
+                {currentItem.prompt}
+              </span>
+            </Card>
+
+            <div className="flex flex-wrap justify-center gap-4 max-w-[260px] min-[480px]:max-w-none" id="case-match-choices">
+              {currentItem.choices.map((choice) => (
+                <ChoiceCard
+                  key={choice}
+                  value={choice}
+                  label={`Letter ${choice}`}
+                  idPrefix="case-match"
+                  feedback={getFeedback(choice)}
+                  disabled={showingFeedback}
+                  onSelect={handleSelect}
+                />
+              ))}
+            </div>
+          </>
+        )}
+
+        <p className="text-lg font-bold text-ink-muted text-center" id="case-match-instruction">
+          {currentItem?.direction === 'lower-to-upper'
+            ? 'Tap the big letter that matches!'
+            : 'Tap the small letter that matches!'}
+        </p>
+      </div>
+
+      {/* Progress footer */}
+      <div className="px-6 py-4 flex justify-center">
+        <div
+          className="bg-teal-200 px-6 py-2 rounded-full border-[2px] border-ink"
+          id="case-match-progress-display"
+        >
+          <span className="text-sm font-bold text-ink">
+            Round {currentRound} • {progress}
+          </span>
+        </div>
+      </div>
+    </GameContainer>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * SettingsPanel Component
+ * Configuration options for Case Match
+ */
+
+import { useCaseMatchStore } from '../store';
+import { resetAllStatistics } from '../utils';
+import {
+  GameSettingsPanel,
+  DifficultySetting,
+  ChoiceSetting,
+  RoundSizeSetting,
+  ToggleSetting,
+} from '@/components/shared/SettingsControls';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const DIRECTION_LABELS = {
+  both: 'Both',
+  'upper-to-lower': 'A → a',
+  'lower-to-upper': 'a → A',
+} as const;
+
+export function SettingsPanel({ onClose }: SettingsPanelProps) {
+  const { config, updateConfig, resetGame } = useCaseMatchStore();
+
+  const handleResetProgress = async (profileId: number) => {
+    await resetAllStatistics(profileId);
+    resetGame();
+  };
+
+  const toggles = [
+    { key: 'soundEnabled', label: '🔊 Sound Effects' },
+    { key: 'hapticEnabled', label: '📳 Haptic Feedback' },
+  ] as const;
+
+  return (
+    <GameSettingsPanel
+      idPrefix="case-match"
+      onClose={onClose}
+      onResetProgress={handleResetProgress}
+    >
+      <DifficultySetting
+        idPrefix="case-match"
+        value={config.difficulty}
+        descriptions={{
+          easy: '🐢 3 choices, one look-alike letter, slower pace',
+          auto: '🎯 4 choices, focuses on tricky letters',
+          hard: '🔥 4 look-alike choices, faster feedback',
+        }}
+        onChange={(difficulty) => updateConfig({ difficulty })}
+      />
+
+      <ChoiceSetting
+        id="case-match-direction-setting"
+        label="Direction"
+        value={config.direction}
+        options={['both', 'upper-to-lower', 'lower-to-upper'] as const}
+        optionLabel={(direction) => DIRECTION_LABELS[direction]}
+        onChange={(direction) => updateConfig({ direction })}
+      />
+
+      <RoundSizeSetting
+        idPrefix="case-match"
+        value={config.roundSize}
+        min={5}
+        max={20}
+        unit="items"
+        onChange={(roundSize) => updateConfig({ roundSize })}
+      />
+
+      {toggles.map(({ key, label }) => (
+        <ToggleSetting
+          key={key}
+          id={`case-match-${key}-toggle`}
+          label={label}
+          checked={config[key]}
+          onChange={(checked) => updateConfig({ [key]: checked })}
+        />
+      ))}
+    </GameSettingsPanel>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Case Match Config
+ * Game metadata shown in the game list
+ */
+
+import type { GameConfig } from '@/types/game';
+
+export const caseMatchConfig: GameConfig = {
+  id: 'case-match',
+  name: 'Case Match',
+  description: 'Find the lowercase twin of an uppercase letter, and back again',
+  icon: '🧦',
+  itemType: 'letter',
+  defaultDifficulty: 'auto',
+};
@@ -0,0 +1,18 @@
+/**
+ * Case Match Module
+ * Exports game configuration and component for registry
+ */
+
+import type { GameModule } from '@/lib/games/registry';
+import { caseMatchConfig } from './config';
+import { CaseMatchGame } from './CaseMatchGame';
+import { SettingsPanel } from './components/SettingsPanel';
+
+export const caseMatchModule: GameModule = {
+  config: caseMatchConfig,
+  Component: CaseMatchGame,
+  SettingsComponent: SettingsPanel,
+};
+
+// Re-export the game component and config
+export { CaseMatchGame, caseMatchConfig };
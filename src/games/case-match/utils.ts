@@ -0,0 +1,224 @@
+/**
+ * Case Match Game Utilities
+ * Look-alike distractors, round generation, adaptive learning, and statistics
+ */
+
+import { db } from '@/lib/storage/db';
+import { applyResponseTime, resetGameStatistics } from '@/lib/storage/statistics';
+import { calculateWeight, shuffleArray } from '@/lib/learning/weighted-selection';
+import { selectRound, type RoundItem } from '@/lib/learning/selection-strategy';
+import type { CaseDirection, CaseMatchConfig, CaseMatchStatistics } from '@/types/game';
+import type { CaseMatchItem } from '@/types/case-match';
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+/**
+ * Letters that are easy to mix up with each one, per case
+ * Distractors come from here so the child has to look at the shape
+ */
+const UPPERCASE_LOOKALIKES: Record<string, string[]> = {
+  A: ['H', 'V', 'R'], B: ['D', 'P', 'R', 'E'], C: ['G', 'O', 'Q'], D: ['O', 'B', 'P'],
+  E: ['F', 'B', 'L'], F: ['E', 'P', 'T'], G: ['C', 'O', 'Q'], H: ['N', 'A', 'K'],
+  I: ['L', 'T', 'J'], J: ['I', 'L', 'U'], K: ['X', 'R', 'H'], L: ['E', 'J', 'T'],
+  M: ['N', 'W'], N: ['M', 'H', 'Z'], O: ['Q', 'C', 'D', 'G'], P: ['R', 'B', 'F'],
+  Q: ['O', 'G'], R: ['P', 'B', 'K'], S: ['Z', 'G'], T: ['I', 'F', 'L'],
+  U: ['V', 'J'], V: ['U', 'Y', 'W'], W: ['M', 'V'], X: ['K', 'Y'],
+  Y: ['V', 'X', 'T'], Z: ['S', 'N'],
+};
+
+const LOWERCASE_LOOKALIKES: Record<string, string[]> = {
+  a: ['o', 'e', 'd', 'q'], b: ['d', 'p', 'h', 'q'], c: ['e', 'o', 'a'], d: ['b', 'q', 'p', 'a'],
+  e: ['c', 'o', 'a'], f: ['t', 'l', 'j'], g: ['q', 'p', 'y', 'j'], h: ['n', 'b', 'k'],
+  i: ['j', 't', 'f'], j: ['i', 'g', 'y'], k: ['h', 'x'], l: ['i', 't', 'f'],
+  m: ['n', 'w'], n: ['m', 'h', 'u'], o: ['a', 'c', 'e'], p: ['q', 'b', 'd', 'g'],
+  q: ['p', 'g', 'd', 'b'], r: ['n', 'v'], s: ['z', 'c'], t: ['f', 'l', 'i'],
+  u: ['v', 'n', 'w'], v: ['u', 'w', 'y'], w: ['v', 'm'], x: ['k', 'z', 'y'],
+  y: ['v', 'g', 'j'], z: ['s', 'x'],
+};
+
+/**
+ * Letters drawn identically in the app's sans-serif font (uppercase I and lowercase l)
+ * The prompt's twin is never offered: it would look just like the prompt
+ */
+const SAME_GLYPH: Record<string, string> = { I: 'l', l: 'I' };
+
+/**
+ * Number of choices and how many distractors are look-alikes, per difficulty
+ * The rest are random letters, which are easier to rule out
+ */
+const CHOICE_SHAPE: Record<CaseMatchConfig['difficulty'], { choices: number; lookalikes: number }> = {
+  easy: { choices: 3, lookalikes: 1 },
+  auto: { choices: 4, lookalikes: 2 },
+  hard: { choices: 4, lookalikes: 3 },
+};
+
+/**
+ * How much a letter the child still misses in Letter Match is favoured
+ * Added on top of 1.0, scaled by that letter's Letter Match weight
+ */
+const LETTER_MATCH_BOOST = 0.5;
+
+/**
+ * How long the result of a tap stays on screen before the next item (ms)
+ */
+export const FEEDBACK_DURATION: Record<CaseMatchConfig['difficulty'], number> = {
+  easy: 1500,
+  auto: 1000,
+  hard: 700,
+};
+
+/**
+ * Build the statistics item id for a letter and direction ('G-upper-to-lower')
+ */
+export function toItemId(letter: string, direction: CaseDirection): string {
+  return `${letter.toUpperCase()}-${direction}`;
+}
+
+/**
+ * Pick distractors in the answer's case
+ */
+function pickDistractors(
+  answer: string,
+  prompt: string,
+  difficulty: CaseMatchConfig['difficulty']
+): string[] {
+  const { choices, lookalikes } = CHOICE_SHAPE[difficulty];
+  const isUpper = answer === answer.toUpperCase();
+  const table = isUpper ? UPPERCASE_LOOKALIKES : LOWERCASE_LOOKALIKES;
+  const promptTwin = SAME_GLYPH[prompt];
+
+  const similar = shuffleArray(table[answer] ?? []).slice(0, lookalikes);
+  const others = shuffleArray(
+    ALPHABET.map((letter) => (isUpper ? letter : letter.toLowerCase())).filter(
+      (letter) => letter !== answer && letter !== promptTwin && !similar.includes(letter)
+    )
+  );
+
+  return [...similar, ...others].slice(0, choices - 1);
+}
+
+/**
+ * Build one item for a letter and direction
+ */
+export function buildItem(
+  letter: string,
+  direction: CaseDirection,
+  difficulty: CaseMatchConfig['difficulty']
+): CaseMatchItem {
+  const upper = letter.toUpperCase();
+  const lower = letter.toLowerCase();
+  const [prompt, answer] = direction === 'upper-to-lower' ? [upper, lower] : [lower, upper];
+
+  return {
+    itemId: toItemId(upper, direction),
+    letter: upper,
+    direction,
+    prompt,
+    answer,
+    choices: shuffleArray([answer, ...pickDistractors(answer, prompt, difficulty)]),
+  };
+}
+
+/**
+ * Generate a round based on statistics
+ * Each letter and direction is weighted by its own statistics, then favoured
+ * further when Letter Match shows the child still struggles with either case
+ */
+export async function generateRound(
+  config: CaseMatchConfig,
+  profileId: number
+): Promise<CaseMatchItem[]> {
+  // Fetch this game's and Letter Match's statistics for this profile only
+  const [allStats, letterMatchStats] = await Promise.all([
+    db.caseMatchStatistics.where('profileId').equals(profileId).toArray(),
+    db.letterMatchStatistics.where('profileId').equals(profileId).toArray(),
+  ]);
+
+  const statsById = new Map(allStats.map((stat) => [stat.itemId, stat]));
+  const letterMatchById = new Map(letterMatchStats.map((stat) => [stat.itemId, stat]));
+
+  const directions: CaseDirection[] =
+    config.direction === 'both' ? ['upper-to-lower', 'lower-to-upper'] : [config.direction];
+
+  const items: RoundItem<{ letter: string; direction: CaseDirection }>[] = [];
+
+  for (const letter of ALPHABET) {
+    // The weaker of the two cases in Letter Match (unplayed cases don't count)
+    const caseWeights = (['uppercase', 'lowercase'] as const).flatMap((caseType) => {
+      const stat = letterMatchById.get(`${letter}-${caseType}`);
+      return stat && stat.totalAttempts > 0 ? [calculateWeight(stat)] : [];
+    });
+    const boost = caseWeights.length > 0 ? 1 + Math.max(...caseWeights) * LETTER_MATCH_BOOST : 1;
+
+    for (const direction of directions) {
+      const itemId = toItemId(letter, direction);
+      items.push({
+        itemId,
+        value: { letter, direction },
+        stat: statsById.get(itemId),
+        boost,
+      });
+    }
+  }
+
+  const selected = selectRound(items, {
+    roundSize: config.roundSize,
+    mode: config.difficulty,
+  });
+
+  return selected.map(({ letter, direction }) => buildItem(letter, direction, config.difficulty));
+}
+
+/**
+ * Record an answer to the database
+ */
+export async function recordAnswer(
+  item: CaseMatchItem,
+  correct: boolean,
+  profileId: number,
+  responseTimeMs?: number
+): Promise<void> {
+  // Get existing statistics or create new
+  let stat: CaseMatchStatistics | undefined = await db.caseMatchStatistics
+    .where('[profileId+letter+direction]')
+    .equals([profileId, item.letter, item.direction])
+    .first();
+
+  if (!stat) {
+    stat = {
+      gameId: 'case-match',
+      profileId,
+      itemId: item.itemId,
+      letter: item.letter,
+      direction: item.direction,
+      totalAttempts: 0,
+      correctCount: 0,
+      incorrectCount: 0,
+      lastAttempt: new Date(),
+      successRate: 0,
+    };
+  }
+
+  // Update counts
+  stat.totalAttempts++;
+  if (correct) {
+    stat.correctCount++;
+  } else {
+    stat.incorrectCount++;
+  }
+
+  // Recalculate success rate
+  stat.successRate = stat.correctCount / stat.totalAttempts;
+  stat.lastAttempt = new Date();
+  applyResponseTime(stat, responseTimeMs);
+
+  // Save to database
+  await db.caseMatchStatistics.put(stat);
+}
+
+/**
+ * Reset all case match statistics for a specific profile
+ */
+export async function resetAllStatistics(profileId: number): Promise<void> {
+  await resetGameStatistics('case-match', profileId);
+}
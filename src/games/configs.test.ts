@@ -0,0 +1,19 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { getAllGameConfigs } from '@/lib/games/registry';
+import { createGameShortcuts, gameConfigs } from './configs';
+
+// Import all games to register them
+import '@/games';
+
+describe('gameConfigs', () => {
+  it('lists every registered game, in registry order', () => {
+    expect(gameConfigs).toEqual(getAllGameConfigs());
+  });
+
+  it('gives every game a home-screen shortcut', () => {
+    expect(createGameShortcuts().map((shortcut) => shortcut.url)).toEqual(
+      getAllGameConfigs().map((config) => `/games/${config.id}`)
+    );
+  });
+});
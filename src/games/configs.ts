@@ -0,0 +1,54 @@
+/**
+ * Game Configs
+ * Metadata of every game, in the same order as the registry
+ *
+ * Plain data with no components, so vite.config.ts can build the PWA
+ * home-screen shortcuts from it
+ */
+
+import type { GameConfig } from '@/types/game';
+import { letterMatchConfig } from './letter-match/config';
+import { orientationGameConfig } from './orientation-game/config';
+import { alphabetOrderConfig } from './alphabet-order/config';
+import { caseMatchConfig } from './case-match/config';
+import { numberMatchConfig } from './number-match/config';
+import { sightWordsConfig } from './sight-words/config';
+import { letterSoundsConfig } from './letter-sounds/config';
+import { beginningSoundsConfig } from './beginning-sounds/config';
+import { countingConfig } from './counting/config';
+import { subitizingConfig } from './subitizing/config';
+import { wordBuildingConfig } from './word-building/config';
+
+export const gameConfigs: GameConfig[] = [
+  letterMatchConfig,
+  orientationGameConfig,
+  alphabetOrderConfig,
+  caseMatchConfig,
+  numberMatchConfig,
+  sightWordsConfig,
+  letterSoundsConfig,
+  beginningSoundsConfig,
+  countingConfig,
+  subitizingConfig,
+  wordBuildingConfig,
+];
+
+/**
+ * Web app manifest shortcut into a game
+ */
+export interface GameShortcut {
+  name: string;
+  description: string;
+  url: string;
+}
+
+/**
+ * Home-screen shortcuts straight into every game (long-press the app icon)
+ */
+export function createGameShortcuts(configs: GameConfig[] = gameConfigs): GameShortcut[] {
+  return configs.map((config) => ({
+    name: config.name,
+    description: config.description,
+    url: `/games/${config.id}`,
+  }));
+}
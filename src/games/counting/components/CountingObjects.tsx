@@ -0,0 +1,65 @@
+/**
+ * CountingObjects Component
+ * Shows the group of objects to count, scattered or on ten-frames
+ */
+
+import type { CountingItem } from '@/types/counting';
+
+interface CountingObjectsProps {
+  item: CountingItem;
+}
+
+const FRAME_SIZE = 10;
+
+export function CountingObjects({ item }: CountingObjectsProps) {
+  if (item.layout === 'ten-frame') {
+    // Filled row by row, left to right; a second frame holds 11-20
+    const frameCount = Math.ceil(item.quantity / FRAME_SIZE);
+
+    return (
+      <div className="flex flex-col gap-3" id="counting-objects" aria-label="Objects to count">
+        {Array.from({ length: frameCount }, (_, frame) => (
+          <div
+            key={frame}
+            className="grid grid-cols-5 bg-surface rounded-2xl border-[3px] border-ink shadow-[4px_4px_0px_0px_var(--color-shadow)] overflow-hidden"
+            id={`counting-ten-frame-${frame + 1}`}
+          >
+            {Array.from({ length: FRAME_SIZE }, (_, cell) => {
+              const filled = frame * FRAME_SIZE + cell < item.quantity;
+              return (
+                <div
+                  key={cell}
+                  className={`w-14 h-14 flex items-center justify-center border-ink ${
+                    cell % 5 < 4 ? 'border-r-[2px]' : ''
+                  } ${cell < 5 ? 'border-b-[2px]' : ''}`}
+                >
+                  {filled && <span className="text-3xl leading-none select-none">{item.emoji}</span>}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const emojiSize = item.quantity <= 5 ? 'text-5xl' : item.quantity <= 10 ? 'text-4xl' : 'text-3xl';
+
+  return (
+    <div
+      className="relative w-[280px] h-[280px] bg-surface rounded-3xl border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)]"
+      id="counting-objects"
+      aria-label="Objects to count"
+    >
+      {item.positions.map((position, i) => (
+        <span
+          key={i}
+          className={`absolute -translate-x-1/2 -translate-y-1/2 leading-none select-none ${emojiSize}`}
+          style={{ left: `${position.x}%`, top: `${position.y}%` }}
+        >
+          {item.emoji}
+        </span>
+      ))}
+    </div>
+  );
+}
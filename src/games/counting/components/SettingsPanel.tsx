@@ -0,0 +1,101 @@
+/**
+ * SettingsPanel Component
+ * Configuration options for Counting
+ */
+
+import { useCountingStore } from '../store';
+import { resetAllStatistics } from '../utils';
+import {
+  GameSettingsPanel,
+  DifficultySetting,
+  ChoiceSetting,
+  RoundSizeSetting,
+  ToggleSetting,
+} from '@/components/shared/SettingsControls';
+import type { CountingRange } from '@/types/game';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const COUNTING_RANGES: CountingRange[] = [5, 10, 20];
+
+const LAYOUT_LABELS = {
+  scattered: '🎲 Scattered',
+  'ten-frame': '🔟 Ten-Frame',
+  mixed: '🔀 Mixed',
+} as const;
+
+export function SettingsPanel({ onClose }: SettingsPanelProps) {
+  const { config, updateConfig, resetGame } = useCountingStore();
+
+  const handleResetProgress = async (profileId: number) => {
+    await resetAllStatistics(profileId);
+    resetGame();
+  };
+
+  const toggles = [
+    { key: 'soundEnabled', label: '🔊 Sound Effects' },
+    { key: 'speakNumbers', label: '🗣️ Say Numbers' },
+    { key: 'hapticEnabled', label: '📳 Haptic Feedback' },
+  ] as const;
+
+  return (
+    <GameSettingsPanel
+      idPrefix="counting"
+      onClose={onClose}
+      onResetProgress={handleResetProgress}
+    >
+      <DifficultySetting
+        idPrefix="counting"
+        value={config.difficulty}
+        descriptions={{
+          easy: '🐢 3 numbers far apart, slower pace',
+          auto: '🎯 3 numbers next to each other, focuses on miscounted amounts',
+          hard: '🔥 4 numbers next to each other, faster feedback',
+          spaced: '🗓️ Spaced review - amounts come back when they are due',
+        }}
+        onChange={(difficulty) => updateConfig({ difficulty })}
+      />
+
+      <ChoiceSetting
+        id="counting-range-setting"
+        label="Count Up To"
+        value={config.range}
+        options={COUNTING_RANGES}
+        optionLabel={(range) => `1–${range}`}
+        onChange={(range) => updateConfig({ range })}
+      />
+
+      <ChoiceSetting
+        id="counting-layout-setting"
+        label="Objects"
+        value={config.layout}
+        options={['scattered', 'ten-frame', 'mixed'] as const}
+        optionLabel={(layout) => LAYOUT_LABELS[layout]}
+        onChange={(layout) => updateConfig({ layout })}
+        compact
+        description='Ten-frames fill row by row, so the child can see "5 and 2 more" without counting one by one.'
+      />
+
+      <RoundSizeSetting
+        idPrefix="counting"
+        value={config.roundSize}
+        min={5}
+        max={20}
+        unit="items"
+        onChange={(roundSize) => updateConfig({ roundSize })}
+      />
+
+      {toggles.map(({ key, label }) => (
+        <ToggleSetting
+          key={key}
+          id={`counting-${key}-toggle`}
+          label={label}
+          checked={config[key]}
+          onChange={(checked) => updateConfig({ [key]: checked })}
+        />
+      ))}
+    </GameSettingsPanel>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Counting Config
+ * Game metadata shown in the game list
+ */
+
+import type { GameConfig } from '@/types/game';
+
+export const countingConfig: GameConfig = {
+  id: 'counting',
+  name: 'Counting',
+  description: 'Count the objects and tap the matching number',
+  icon: '🔢',
+  itemType: 'number',
+  defaultDifficulty: 'auto',
+};
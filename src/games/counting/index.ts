@@ -0,0 +1,18 @@
+/**
+ * Counting Module
+ * Exports game configuration and component for registry
+ */
+
+import type { GameModule } from '@/lib/games/registry';
+import { countingConfig } from './config';
+import { CountingGame } from './CountingGame';
+import { SettingsPanel } from './components/SettingsPanel';
+
+export const countingModule: GameModule = {
+  config: countingConfig,
+  Component: CountingGame,
+  SettingsComponent: SettingsPanel,
+};
+
+// Re-export the game component and config
+export { CountingGame, countingConfig };
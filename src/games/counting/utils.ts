@@ -0,0 +1,196 @@
+/**
+ * Counting Game Utilities
+ * Object layouts, nearby-number distractors, round generation, adaptive learning, and statistics
+ */
+
+import { db } from '@/lib/storage/db';
+import {
+  applyResponseTime,
+  getReviewSchedules,
+  resetGameStatistics,
+} from '@/lib/storage/statistics';
+import { shuffleArray } from '@/lib/learning/weighted-selection';
+import { selectRound } from '@/lib/learning/selection-strategy';
+import type { CountingConfig, CountingLayout, CountingStatistics } from '@/types/game';
+import type { CountingItem, ObjectPosition } from '@/types/counting';
+
+/**
+ * Objects to count; one kind per item
+ */
+const COUNTING_OBJECTS = ['🍎', '🐶', '⭐', '🐟', '🚗', '🌸', '🦆', '🍓', '⚽', '🐞'];
+
+/**
+ * Number of choices per mode, and whether distractors are next to the answer
+ * (7 vs 6 and 8, the usual miscount) or further away (easier to rule out)
+ */
+const CHOICE_SHAPE: Record<CountingConfig['difficulty'], { choices: number; nearby: boolean }> = {
+  easy: { choices: 3, nearby: false },
+  auto: { choices: 3, nearby: true },
+  hard: { choices: 4, nearby: true },
+  spaced: { choices: 3, nearby: true },
+};
+
+/**
+ * How long the result of a tap stays on screen before the next group (ms)
+ */
+export const FEEDBACK_DURATION: Record<CountingConfig['difficulty'], number> = {
+  easy: 1800,
+  auto: 1400,
+  hard: 1000,
+  spaced: 1400,
+};
+
+/**
+ * Build the statistics item id for a quantity ('7')
+ */
+export function toItemId(quantity: number): string {
+  return String(quantity);
+}
+
+/**
+ * All quantities in the configured range (1 to range)
+ */
+export function getQuantityPool(config: CountingConfig): number[] {
+  return Array.from({ length: config.range }, (_, i) => i + 1);
+}
+
+/**
+ * Scatter objects over the play area without overlaps
+ * Each object gets its own cell of a grid, nudged off-centre so it doesn't look lined up
+ */
+export function scatterObjects(quantity: number): ObjectPosition[] {
+  const side = quantity <= 5 ? 3 : quantity <= 10 ? 4 : 5;
+  const cellSize = 100 / side;
+  const cells = shuffleArray(Array.from({ length: side * side }, (_, i) => i)).slice(0, quantity);
+  const jitter = () => (Math.random() - 0.5) * cellSize * 0.4;
+
+  return cells.map((cell) => ({
+    x: ((cell % side) + 0.5) * cellSize + jitter(),
+    y: (Math.floor(cell / side) + 0.5) * cellSize + jitter(),
+  }));
+}
+
+/**
+ * Pick distractors for a quantity from the configured range
+ */
+function pickDistractors(quantity: number, config: CountingConfig): number[] {
+  const { choices, nearby } = CHOICE_SHAPE[config.difficulty];
+  const others = shuffleArray(getQuantityPool(config).filter((other) => other !== quantity));
+  const distance = (other: number) => Math.abs(other - quantity);
+
+  // Nearby: closest first. Far: skip the neighbours unless the range is too small
+  const ordered = nearby
+    ? [...others].sort((a, b) => distance(a) - distance(b))
+    : [...others.filter((other) => distance(other) > 1), ...others.filter((other) => distance(other) === 1)];
+
+  return ordered.slice(0, choices - 1);
+}
+
+/**
+ * Pick the layout for an item
+ */
+function pickLayout(config: CountingConfig): CountingLayout {
+  if (config.layout !== 'mixed') return config.layout;
+  return Math.random() < 0.5 ? 'scattered' : 'ten-frame';
+}
+
+/**
+ * Build one item for a quantity
+ */
+export function buildItem(quantity: number, emoji: string, config: CountingConfig): CountingItem {
+  const layout = pickLayout(config);
+
+  return {
+    itemId: toItemId(quantity),
+    quantity,
+    emoji,
+    layout,
+    positions: layout === 'scattered' ? scatterObjects(quantity) : [],
+    choices: shuffleArray([quantity, ...pickDistractors(quantity, config)]),
+  };
+}
+
+/**
+ * Generate a round based on statistics
+ * Uses the selection strategy for the configured mode to prioritize
+ * miscounted (or due) quantities; quantities never tried count as struggling
+ */
+export async function generateRound(
+  config: CountingConfig,
+  profileId: number
+): Promise<CountingItem[]> {
+  // Fetch statistics and review schedules for this profile only
+  const [allStats, schedules] = await Promise.all([
+    db.countingStatistics.where('profileId').equals(profileId).toArray(),
+    getReviewSchedules(profileId, 'counting'),
+  ]);
+
+  const statsById = new Map(allStats.map((stat) => [stat.itemId, stat]));
+
+  const selected = selectRound(
+    getQuantityPool(config).map((quantity) => ({
+      itemId: toItemId(quantity),
+      value: quantity,
+      stat: statsById.get(toItemId(quantity)),
+      schedule: schedules.get(toItemId(quantity)),
+    })),
+    { roundSize: config.roundSize, mode: config.difficulty }
+  );
+
+  // Cycle through the objects so two groups in a row never look the same
+  const objects = shuffleArray(COUNTING_OBJECTS);
+  return selected.map((quantity, i) => buildItem(quantity, objects[i % objects.length], config));
+}
+
+/**
+ * Record an answer to the database
+ */
+export async function recordAnswer(
+  item: CountingItem,
+  correct: boolean,
+  profileId: number,
+  responseTimeMs?: number
+): Promise<void> {
+  // Get existing statistics or create new
+  let stat: CountingStatistics | undefined = await db.countingStatistics
+    .where('[profileId+quantity]')
+    .equals([profileId, item.quantity])
+    .first();
+
+  if (!stat) {
+    stat = {
+      gameId: 'counting',
+      profileId,
+      itemId: item.itemId,
+      quantity: item.quantity,
+      totalAttempts: 0,
+      correctCount: 0,
+      incorrectCount: 0,
+      lastAttempt: new Date(),
+      successRate: 0,
+    };
+  }
+
+  // Update counts
+  stat.totalAttempts++;
+  if (correct) {
+    stat.correctCount++;
+  } else {
+    stat.incorrectCount++;
+  }
+
+  // Recalculate success rate
+  stat.successRate = stat.correctCount / stat.totalAttempts;
+  stat.lastAttempt = new Date();
+  applyResponseTime(stat, responseTimeMs);
+
+  // Save to database
+  await db.countingStatistics.put(stat);
+}
+
+/**
+ * Reset all counting statistics for a specific profile
+ */
+export async function resetAllStatistics(profileId: number): Promise<void> {
+  await resetGameStatistics('counting', profileId);
+}
@@ -5,9 +5,41 @@
 
 import { registerGame } from '@/lib/games/registry';
 import { letterMatchModule } from './letter-match';
+import { orientationGameModule } from './orientation-game';
+import { alphabetOrderModule } from './alphabet-order';
+import { caseMatchModule } from './case-match';
+import { numberMatchModule } from './number-match';
+import { sightWordsModule } from './sight-words';
+import { letterSoundsModule } from './letter-sounds';
+import { beginningSoundsModule } from './beginning-sounds';
+import { countingModule } from './counting';
+import { subitizingModule } from './subitizing';
+import { wordBuildingModule } from './word-building';
 
 // Register all games
 registerGame(letterMatchModule);
+registerGame(orientationGameModule);
+registerGame(alphabetOrderModule);
+registerGame(caseMatchModule);
+registerGame(numberMatchModule);
+registerGame(sightWordsModule);
+registerGame(letterSoundsModule);
+registerGame(beginningSoundsModule);
+registerGame(countingModule);
+registerGame(subitizingModule);
+registerGame(wordBuildingModule);
 
 // Export game modules for direct access
-export { letterMatchModule };
+export {
+  letterMatchModule,
+  orientationGameModule,
+  alphabetOrderModule,
+  caseMatchModule,
+  numberMatchModule,
+  sightWordsModule,
+  letterSoundsModule,
+  beginningSoundsModule,
+  countingModule,
+  subitizingModule,
+  wordBuildingModule,
+};
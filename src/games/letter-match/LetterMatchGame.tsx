@@ -3,14 +3,22 @@
  * Swipe-based letter recognition game
  */
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import { useChildMatches } from '@tanstack/react-router';
 import { useLetterMatchStore } from './store';
-import { SwipeCard } from './components/SwipeCard';
-import { RoundSummary } from './components/RoundSummary';
-import { SettingsPanel } from './components/SettingsPanel';
-import { LetterProgress } from './components/LetterProgress';
+import { UNDO_WINDOW } from './utils';
+import { RoundSummary } from '@/components/shared/RoundSummary';
 import { GameContainer } from '@/components/shared/GameContainer';
 import { Button } from '@/components/shared/Button';
+import { SwipeCard } from '@/components/shared/SwipeCard';
+import { useGameNavigation } from '@/hooks/useGameNavigation';
+import { useGameAudio } from '@/hooks/useGameAudio';
+import { useGameHaptics } from '@/hooks/useGameHaptics';
+import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
+import { STREAK_MILESTONE } from '@/lib/haptics/haptics';
+import { getLetterName } from '@/lib/audio/speech';
+import { useProfileStore } from '@/lib/profiles/store';
+import type { AnswerOutcome } from '@/types/game';
 import type { SwipeDirection } from '@/types/letter-match';
 
 export function LetterMatchGame() {
@@ -19,14 +27,28 @@ export function LetterMatchGame() {
     sessionLetters,
     currentIndex,
     currentScore,
+    currentSkipped,
     roundComplete,
+    savedRounds,
+    undoStack,
+    lastAnswerAt,
+    config,
     startNewRound,
     recordAnswer,
+    undoLastAnswer,
+    resumeRound,
+    abandonRound,
   } = useLetterMatchStore();
+  const activeProfileId = useProfileStore((state) => state.activeProfileId);
+  const { playSound, say } = useGameAudio(config.soundEnabled);
+  const { haptic } = useGameHaptics(config.hapticEnabled);
+  const streak = useRef(0); // Correct answers in a row
 
-  const [showSettings, setShowSettings] = useState(false);
-  const [showProgress, setShowProgress] = useState(false);
+  const { goHome, openSettings, openProgress } = useGameNavigation('letter-match');
   const [isStarted, setIsStarted] = useState(false);
+  const [undoAvailable, setUndoAvailable] = useState(false);
+  const overlayOpen = useChildMatches().length > 0; // Settings or progress on top of the game
+  const keyboardEnabled = config.keyboardShortcuts && !overlayOpen;
 
   // Auto-start first round if not started
   useEffect(() => {
@@ -36,39 +58,90 @@ export function LetterMatchGame() {
     }
   }, [currentRound, isStarted]);
 
+  // Offer undo until the window after the last answer (or undo) runs out
+  useEffect(() => {
+    const remaining = lastAnswerAt === null ? 0 : lastAnswerAt + UNDO_WINDOW - Date.now();
+    setUndoAvailable(undoStack.length > 0 && remaining > 0);
+    if (undoStack.length === 0 || remaining <= 0) return;
+
+    const timer = setTimeout(() => setUndoAvailable(false), remaining);
+    return () => clearTimeout(timer);
+  }, [lastAnswerAt, undoStack.length]);
+
+  // Say each letter as its card appears, so a child who doesn't know it yet hears it
+  const shownLetter = isStarted && !roundComplete ? sessionLetters[currentIndex]?.character : undefined;
+  useEffect(() => {
+    if (config.speakLetters && shownLetter) {
+      say(getLetterName(shownLetter));
+    }
+  }, [config.speakLetters, shownLetter, currentIndex, say]);
+
   const handleStart = async () => {
     await startNewRound();
+    streak.current = 0;
     setIsStarted(true);
   };
 
-  const handleSwipe = (direction: SwipeDirection) => {
+  const handleResume = () => {
+    if (resumeRound()) {
+      streak.current = 0;
+      setIsStarted(true);
+    }
+  };
+
+  const handleSwipe = (direction: SwipeDirection, responseTimeMs: number) => {
     if (direction === null) return;
 
-    const correct = direction === 'right';
+    const outcome: AnswerOutcome =
+      direction === 'up' ? 'skipped' : direction === 'right' ? 'correct' : 'incorrect';
+    const correct = outcome === 'correct';
+
+    // The last answer gets the round-complete fanfare from the summary instead
+    // Skips stay quiet: nothing was right or wrong
+    if (currentIndex < sessionLetters.length - 1 && outcome !== 'skipped') {
+      playSound(correct ? 'correct' : 'incorrect');
+    }
+
+    // SwipeCard vibrates for the answer itself; streak milestones get their own pattern
+    streak.current = correct ? streak.current + 1 : 0;
+    if (streak.current > 0 && streak.current % STREAK_MILESTONE === 0) {
+      haptic('streak');
+    }
 
     // Record answer asynchronously (don't block UI)
-    recordAnswer(correct).then(() => {
-      // Haptic feedback if supported
-      if ('vibrate' in navigator && correct) {
-        navigator.vibrate(50);
-      }
-    });
+    recordAnswer(outcome, responseTimeMs);
+  };
+
+  const handleUndo = async () => {
+    if (await undoLastAnswer()) {
+      streak.current = 0;
+    }
   };
 
+  // Backspace undoes from the card and from the round summary
+  useKeyboardShortcuts(
+    {
+      Backspace: () => {
+        if (undoAvailable) handleUndo();
+      },
+    },
+    keyboardEnabled && isStarted
+  );
+
   const handlePlayAgain = async () => {
     await startNewRound();
+    streak.current = 0;
     setIsStarted(true);
   };
 
   const handleBack = () => {
-    if ((window as any).navigateToHome) {
-      (window as any).navigateToHome();
-    }
+    goHome();
   };
 
   const currentLetter = sessionLetters[currentIndex];
   const totalLetters = sessionLetters.length;
   const progress = totalLetters > 0 ? `${currentIndex} / ${totalLetters}` : '0 / 0';
+  const savedRound = activeProfileId ? savedRounds[activeProfileId] : undefined;
 
   // Welcome screen
   if (!isStarted || currentRound === 0) {
@@ -80,40 +153,40 @@ export function LetterMatchGame() {
         <div className="flex-1 flex flex-col items-center justify-center px-6 text-center">
           {/* Icon with playful rotation */}
           <div className="mb-8">
-            <div className="w-28 h-28 bg-yellow-300 rounded-3xl border-[3px] border-black shadow-[6px_6px_0px_0px_rgba(0,0,0,1)] flex items-center justify-center transform rotate-6 mx-auto mb-6">
+            <div className="w-28 h-28 bg-yellow-300 rounded-3xl border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)] flex items-center justify-center transform rotate-6 mx-auto mb-6">
               <span className="text-6xl">🔤</span>
             </div>
 
-            <h2 className="text-4xl font-black text-black mb-6">
+            <h2 className="text-4xl font-black text-ink mb-6">
               Letter Match
             </h2>
 
             {/* Instructions card */}
-            <div className="bg-white rounded-[32px] border-[3px] border-black shadow-[6px_6px_0px_0px_rgba(0,0,0,1)] p-6 max-w-md mx-auto mb-8">
+            <div className="bg-surface rounded-[32px] border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)] p-6 max-w-md mx-auto mb-8">
               <div className="space-y-3 text-left">
                 <div className="flex items-start gap-3">
-                  <div className="w-10 h-10 bg-teal-200 rounded-xl border-[2px] border-black flex items-center justify-center shrink-0">
+                  <div className="w-10 h-10 bg-teal-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
                     <span className="text-xl">1</span>
                   </div>
-                  <p className="text-base font-semibold text-black">
+                  <p className="text-base font-semibold text-ink">
                     Show your child the letter
                   </p>
                 </div>
 
                 <div className="flex items-start gap-3">
-                  <div className="w-10 h-10 bg-yellow-200 rounded-xl border-[2px] border-black flex items-center justify-center shrink-0">
+                  <div className="w-10 h-10 bg-yellow-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
                     <span className="text-xl">2</span>
                   </div>
-                  <p className="text-base font-semibold text-black">
+                  <p className="text-base font-semibold text-ink">
                     Ask: "What letter is this?"
                   </p>
                 </div>
 
                 <div className="flex items-start gap-3">
-                  <div className="w-10 h-10 bg-coral-200 rounded-xl border-[2px] border-black flex items-center justify-center shrink-0">
+                  <div className="w-10 h-10 bg-coral-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
                     <span className="text-xl">3</span>
                   </div>
-                  <p className="text-base font-semibold text-black">
+                  <p className="text-base font-semibold text-ink">
                     Swipe ➡️ correct, ⬅️ incorrect
                   </p>
                 </div>
@@ -122,19 +195,42 @@ export function LetterMatchGame() {
           </div>
 
           <div className="space-y-3 w-full max-w-xs">
+            {savedRound && (
+              <>
+                <Button
+                  variant="primary"
+                  onClick={handleResume}
+                  className="w-full"
+                  id="letter-match-continue-button"
+                >
+                  {`▶️ Continue round ${savedRound.roundNumber} (${savedRound.currentIndex}/${savedRound.sessionLetters.length})`}
+                </Button>
+
+                <Button
+                  variant="ghost"
+                  size="small"
+                  onClick={abandonRound}
+                  className="w-full !border-coral-400 !text-coral-600"
+                  id="letter-match-abandon-button"
+                >
+                  ✖️ Abandon round
+                </Button>
+              </>
+            )}
+
             <Button
               variant="primary"
               onClick={handleStart}
               className="w-full !bg-teal-200 hover:!bg-teal-300 active:!bg-teal-400"
               id="letter-match-start-button"
             >
-              🎮 Start Round
+              🎮 {savedRound ? 'Start New Round' : 'Start Round'}
             </Button>
 
             <Button
               variant="secondary"
-              onClick={() => setShowProgress(true)}
-              className="w-full !bg-yellow-200 hover:!bg-yellow-300 !shadow-[4px_4px_0px_0px_rgba(0,0,0,1)]"
+              onClick={openProgress}
+              className="w-full !bg-yellow-200 hover:!bg-yellow-300 !shadow-[4px_4px_0px_0px_var(--color-shadow)]"
               id="letter-match-welcome-progress-button"
             >
               📊 View Progress
@@ -142,7 +238,7 @@ export function LetterMatchGame() {
 
             <Button
               variant="ghost"
-              onClick={() => setShowSettings(true)}
+              onClick={openSettings}
               className="w-full"
               id="letter-match-welcome-settings-button"
             >
@@ -150,48 +246,29 @@ export function LetterMatchGame() {
             </Button>
           </div>
         </div>
-
-        {showSettings && (
-          <SettingsPanel
-            onClose={() => setShowSettings(false)}
-            onViewProgress={() => setShowProgress(true)}
-          />
-        )}
-        {showProgress && (
-          <LetterProgress onClose={() => setShowProgress(false)} />
-        )}
       </GameContainer>
     );
   }
 
-  // Letter progress view
-  if (showProgress) {
-    return <LetterProgress onClose={() => setShowProgress(false)} />;
-  }
-
   // Round summary screen
   if (roundComplete) {
     return (
-      <>
-        <RoundSummary
-          totalAttempts={totalLetters}
-          correctCount={currentScore}
-          incorrectCount={totalLetters - currentScore}
-          roundNumber={currentRound}
-          onPlayAgain={handlePlayAgain}
-          onHome={handleBack}
-          onSettings={() => setShowSettings(true)}
-          onViewProgress={() => setShowProgress(true)}
-        />
-
-        {/* Settings panel overlay */}
-        {showSettings && (
-          <SettingsPanel
-            onClose={() => setShowSettings(false)}
-            onViewProgress={() => setShowProgress(true)}
-          />
-        )}
-      </>
+      <RoundSummary
+        idPrefix="letter-match"
+        totalAttempts={totalLetters}
+        correctCount={currentScore}
+        incorrectCount={totalLetters - currentScore - currentSkipped}
+        skippedCount={currentSkipped}
+        roundNumber={currentRound}
+        soundEnabled={config.soundEnabled}
+        hapticEnabled={config.hapticEnabled}
+        onPlayAgain={handlePlayAgain}
+        onHome={handleBack}
+        onSettings={openSettings}
+        onViewProgress={openProgress}
+        progressLabel="View Letter Progress"
+        onUndo={undoAvailable ? handleUndo : undefined}
+      />
     );
   }
 
@@ -204,19 +281,31 @@ export function LetterMatchGame() {
       {/* Header - Score and Settings */}
       <div className="w-full flex items-center justify-between px-6 py-4">
         <button
-          onClick={() => setShowSettings(true)}
-          className="w-14 h-14 bg-yellow-300 rounded-2xl border-[3px] border-black flex items-center justify-center hover:bg-yellow-400 active:bg-yellow-500 transition-colors shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] active:shadow-none active:translate-x-[3px] active:translate-y-[3px]"
+          onClick={openSettings}
+          className="w-14 h-14 bg-yellow-300 rounded-2xl border-[3px] border-ink flex items-center justify-center hover:bg-yellow-400 active:bg-yellow-500 transition-colors shadow-[3px_3px_0px_0px_var(--color-shadow)] active:shadow-none active:translate-x-[3px] active:translate-y-[3px]"
           aria-label="Settings"
           id="letter-match-settings-button"
         >
           <span className="text-2xl">⚙️</span>
         </button>
 
+        {undoAvailable && (
+          <button
+            onClick={handleUndo}
+            className="h-14 px-4 bg-surface rounded-2xl border-[3px] border-ink flex items-center gap-2 hover:bg-gray-100 transition-colors shadow-[3px_3px_0px_0px_var(--color-shadow)] active:shadow-none active:translate-x-[3px] active:translate-y-[3px]"
+            aria-label="Undo last answer"
+            id="letter-match-undo-button"
+          >
+            <span className="text-2xl">↩️</span>
+            <span className="text-base font-black text-ink">Undo</span>
+          </button>
+        )}
+
         <div
-          className="bg-white px-5 py-2 rounded-full border-[3px] border-black shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]"
+          className="bg-surface px-5 py-2 rounded-full border-[3px] border-ink shadow-[3px_3px_0px_0px_var(--color-shadow)]"
           id="letter-match-score-display"
         >
-          <span className="text-lg font-black text-black">
+          <span className="text-lg font-black text-ink">
             {currentScore} / {currentIndex}
           </span>
         </div>
@@ -227,8 +316,17 @@ export function LetterMatchGame() {
         {currentLetter && (
           <SwipeCard
             key={`${currentLetter.character}-${currentIndex}`}
-            letter={currentLetter}
+            itemKey={`${currentLetter.character}-${currentLetter.caseType}`}
+            content={currentLetter.character}
+            label={`Letter ${currentLetter.character}, ${currentLetter.caseType}`}
+            roleDescription="letter card"
+            idPrefix="letter-match"
             onSwipe={handleSwipe}
+            onUndo={undoAvailable ? handleUndo : undefined}
+            hapticEnabled={config.hapticEnabled}
+            showAnswerButtons={config.answerButtons}
+            keyboardEnabled={keyboardEnabled}
+            undoShortcut
           />
         )}
       </div>
@@ -236,22 +334,14 @@ export function LetterMatchGame() {
       {/* Progress footer */}
       <div className="px-6 py-4 flex justify-center">
         <div
-          className="bg-teal-200 px-6 py-2 rounded-full border-[2px] border-black"
+          className="bg-teal-200 px-6 py-2 rounded-full border-[2px] border-ink"
           id="letter-match-progress-display"
         >
-          <span className="text-sm font-bold text-black">
+          <span className="text-sm font-bold text-ink">
             Round {currentRound} • {progress}
           </span>
         </div>
       </div>
-
-      {/* Settings panel overlay */}
-      {showSettings && (
-        <SettingsPanel
-          onClose={() => setShowSettings(false)}
-          onViewProgress={() => setShowProgress(true)}
-        />
-      )}
     </GameContainer>
   );
 }
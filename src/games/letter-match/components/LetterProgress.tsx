@@ -14,6 +14,7 @@ interface LetterStat {
   totalAttempts: number;
   correctCount: number;
   successRate: number;
+  medianResponseTime?: number;
 }
 
 interface LetterProgressProps {
@@ -58,6 +59,7 @@ export function LetterProgress({ onClose }: LetterProgressProps) {
           successRate: stat.totalAttempts > 0
             ? stat.correctCount / stat.totalAttempts
             : 0,
+          medianResponseTime: stat.medianResponseTime,
         });
       }
     }
@@ -81,6 +83,9 @@ export function LetterProgress({ onClose }: LetterProgressProps) {
     return 'bg-coral-200 border-coral-500';
   };
 
+  const formatResponseTime = (ms?: number) =>
+    ms === undefined ? '' : `⏱️ ${(ms / 1000).toFixed(1)}s`;
+
   const getLabel = (successRate: number, attempts: number) => {
     if (attempts === 0) return 'Not tried';
     if (successRate >= 0.8) return 'Great!';
@@ -89,14 +94,14 @@ export function LetterProgress({ onClose }: LetterProgressProps) {
   };
 
   return (
-    <div className="fixed inset-0 z-50 bg-black bg-opacity-50 flex items-center justify-center p-4">
-      <div className="w-full max-w-4xl h-full max-h-[90vh] bg-[#f7f7f7] rounded-[32px] border-[3px] border-black shadow-[8px_8px_0px_0px_rgba(0,0,0,1)] overflow-hidden flex flex-col">
+    <div className="fixed inset-0 z-50 bg-backdrop flex items-center justify-center p-4">
+      <div className="w-full max-w-4xl h-full max-h-[90vh] bg-[#f7f7f7] rounded-[32px] border-[3px] border-ink shadow-[8px_8px_0px_0px_var(--color-shadow)] overflow-hidden flex flex-col">
         {/* Header */}
-        <div className="flex items-center justify-between px-6 py-4 bg-yellow-300 border-b-[3px] border-black">
-          <h1 className="text-2xl font-black text-black">Letter Progress</h1>
+        <div className="flex items-center justify-between px-6 py-4 bg-yellow-300 border-b-[3px] border-ink">
+          <h1 className="text-2xl font-black text-ink">Letter Progress</h1>
           <button
             onClick={onClose}
-            className="w-12 h-12 rounded-xl bg-coral-400 border-[3px] border-black flex items-center justify-center hover:bg-coral-500 transition-colors shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] active:shadow-none active:translate-x-[3px] active:translate-y-[3px]"
+            className="w-12 h-12 rounded-xl bg-coral-400 border-[3px] border-ink flex items-center justify-center hover:bg-coral-500 transition-colors shadow-[3px_3px_0px_0px_var(--color-shadow)] active:shadow-none active:translate-x-[3px] active:translate-y-[3px]"
             aria-label="Close"
           >
             <span className="text-2xl font-black">✕</span>
@@ -107,15 +112,15 @@ export function LetterProgress({ onClose }: LetterProgressProps) {
         {/* Header */}
         <div className="mb-6 text-center">
           <div className="inline-flex items-center gap-3 mb-4">
-            <div className="w-16 h-16 bg-yellow-300 rounded-2xl border-[3px] border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] flex items-center justify-center transform rotate-3">
+            <div className="w-16 h-16 bg-yellow-300 rounded-2xl border-[3px] border-ink shadow-[4px_4px_0px_0px_var(--color-shadow)] flex items-center justify-center transform rotate-3">
               <span className="text-4xl">📊</span>
             </div>
             <div className="text-left">
-              <h2 className="text-3xl font-black text-black">
+              <h2 className="text-3xl font-black text-ink">
                 {activeProfile?.name}'s Progress
               </h2>
-              <p className="text-sm font-semibold text-gray-600">
-                Success rate for each letter
+              <p className="text-sm font-semibold text-ink-muted">
+                Success rate and typical answer time for each letter
               </p>
             </div>
           </div>
@@ -123,14 +128,14 @@ export function LetterProgress({ onClose }: LetterProgressProps) {
 
         {/* View Toggle */}
         <div className="mb-6 flex flex-col items-center gap-4">
-          <div className="bg-white rounded-2xl p-3 border-[3px] border-black shadow-[3px_3px_0px_0px_rgba(0,0,0,1)]">
+          <div className="bg-surface rounded-2xl p-3 border-[3px] border-ink shadow-[3px_3px_0px_0px_var(--color-shadow)]">
             <div className="flex items-center gap-3">
               <button
                 onClick={() => setShowSeparate(true)}
                 className={`px-4 py-2 rounded-xl border-[2px] font-bold text-sm transition-all ${
                   showSeparate
-                    ? 'bg-yellow-300 border-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]'
-                    : 'bg-white border-gray-400 text-gray-600'
+                    ? 'bg-yellow-300 border-ink shadow-[2px_2px_0px_0px_var(--color-shadow)]'
+                    : 'bg-surface border-gray-400 text-ink-muted'
                 }`}
                 id="view-separate-button"
               >
@@ -140,8 +145,8 @@ export function LetterProgress({ onClose }: LetterProgressProps) {
                 onClick={() => setShowSeparate(false)}
                 className={`px-4 py-2 rounded-xl border-[2px] font-bold text-sm transition-all ${
                   !showSeparate
-                    ? 'bg-yellow-300 border-black shadow-[2px_2px_0px_0px_rgba(0,0,0,1)]'
-                    : 'bg-white border-gray-400 text-gray-600'
+                    ? 'bg-yellow-300 border-ink shadow-[2px_2px_0px_0px_var(--color-shadow)]'
+                    : 'bg-surface border-gray-400 text-ink-muted'
                 }`}
                 id="view-combined-button"
               >
@@ -170,7 +175,7 @@ export function LetterProgress({ onClose }: LetterProgressProps) {
         {isLoading ? (
           <div className="text-center py-12">
             <div className="text-4xl mb-4">⏳</div>
-            <p className="text-lg font-semibold text-gray-600">Loading progress...</p>
+            <p className="text-lg font-semibold text-ink-muted">Loading progress...</p>
           </div>
         ) : showSeparate ? (
           <>
@@ -192,44 +197,50 @@ export function LetterProgress({ onClose }: LetterProgressProps) {
                   <div key={letter} className="grid grid-cols-2 gap-3" id={`letter-group-${letter}`}>
                     {/* Uppercase */}
                     <div
-                      className={`aspect-square rounded-2xl border-[3px] shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] flex flex-col items-center justify-center p-3 ${getColorClass(
+                      className={`aspect-square rounded-2xl border-[3px] shadow-[3px_3px_0px_0px_var(--color-shadow)] flex flex-col items-center justify-center p-3 ${getColorClass(
                         upperStat?.successRate || 0,
                         upperStat?.totalAttempts || 0
                       )}`}
                       id={`letter-progress-${letter}-upper`}
                     >
-                      <div className="text-6xl font-black text-black mb-2">
+                      <div className="text-6xl font-black text-ink mb-2">
                         {letter}
                       </div>
-                      <div className="text-sm font-bold text-black">
+                      <div className="text-sm font-bold text-ink">
                         {upperStat && upperStat.totalAttempts > 0
                           ? `${Math.round(upperStat.successRate * 100)}%`
                           : '—'}
                       </div>
-                      <div className="text-xs font-semibold text-gray-700">
+                      <div className="text-xs font-semibold text-ink-muted">
                         {getLabel(upperStat?.successRate || 0, upperStat?.totalAttempts || 0)}
                       </div>
+                      <div className="text-xs font-semibold text-ink-muted" id={`letter-progress-${letter}-upper-time`}>
+                        {formatResponseTime(upperStat?.medianResponseTime)}
+                      </div>
                     </div>
 
                     {/* Lowercase */}
                     <div
-                      className={`aspect-square rounded-2xl border-[3px] shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] flex flex-col items-center justify-center p-3 ${getColorClass(
+                      className={`aspect-square rounded-2xl border-[3px] shadow-[3px_3px_0px_0px_var(--color-shadow)] flex flex-col items-center justify-center p-3 ${getColorClass(
                         lowerStat?.successRate || 0,
                         lowerStat?.totalAttempts || 0
                       )}`}
                       id={`letter-progress-${letter}-lower`}
                     >
-                      <div className="text-6xl font-black text-black mb-2">
+                      <div className="text-6xl font-black text-ink mb-2">
                         {letter.toLowerCase()}
                       </div>
-                      <div className="text-sm font-bold text-black">
+                      <div className="text-sm font-bold text-ink">
                         {lowerStat && lowerStat.totalAttempts > 0
                           ? `${Math.round(lowerStat.successRate * 100)}%`
                           : '—'}
                       </div>
-                      <div className="text-xs font-semibold text-gray-700">
+                      <div className="text-xs font-semibold text-ink-muted">
                         {getLabel(lowerStat?.successRate || 0, lowerStat?.totalAttempts || 0)}
                       </div>
+                      <div className="text-xs font-semibold text-ink-muted" id={`letter-progress-${letter}-lower-time`}>
+                        {formatResponseTime(lowerStat?.medianResponseTime)}
+                      </div>
                     </div>
                   </div>
                 );
@@ -256,21 +267,21 @@ export function LetterProgress({ onClose }: LetterProgressProps) {
                 return (
                   <div
                     key={letter}
-                    className={`aspect-square rounded-2xl border-[3px] shadow-[3px_3px_0px_0px_rgba(0,0,0,1)] flex flex-col items-center justify-center p-2 ${getColorClass(
+                    className={`aspect-square rounded-2xl border-[3px] shadow-[3px_3px_0px_0px_var(--color-shadow)] flex flex-col items-center justify-center p-2 ${getColorClass(
                       successRate,
                       totalAttempts
                     )}`}
                     id={`letter-progress-${letter}-combined`}
                   >
-                    <div className="text-5xl font-black text-black mb-1">
+                    <div className="text-5xl font-black text-ink mb-1">
                       {letter}
                     </div>
-                    <div className="text-xs font-bold text-black">
+                    <div className="text-xs font-bold text-ink">
                       {totalAttempts > 0
                         ? `${Math.round(successRate * 100)}%`
                         : '—'}
                     </div>
-                    <div className="text-[10px] font-semibold text-gray-700">
+                    <div className="text-[10px] font-semibold text-ink-muted">
                       {getLabel(successRate, totalAttempts)}
                     </div>
                   </div>
@@ -284,26 +295,26 @@ export function LetterProgress({ onClose }: LetterProgressProps) {
           <>
 
           {/* Summary Stats */}
-          <div className="mt-8 bg-white rounded-[24px] border-[3px] border-black shadow-[4px_4px_0px_0px_rgba(0,0,0,1)] p-5">
-            <h3 className="text-lg font-black text-black mb-3">Summary</h3>
+          <div className="mt-8 bg-surface rounded-[24px] border-[3px] border-ink shadow-[4px_4px_0px_0px_var(--color-shadow)] p-5">
+            <h3 className="text-lg font-black text-ink mb-3">Summary</h3>
             <div className="grid grid-cols-3 gap-4">
               <div className="text-center">
                 <div className="text-2xl font-black text-teal-600">
                   {letterStats.filter((s) => s.successRate >= 0.8 && s.totalAttempts > 0).length}
                 </div>
-                <div className="text-xs font-semibold text-gray-600">Mastered</div>
+                <div className="text-xs font-semibold text-ink-muted">Mastered</div>
               </div>
               <div className="text-center">
                 <div className="text-2xl font-black text-yellow-600">
                   {letterStats.filter((s) => s.successRate >= 0.6 && s.successRate < 0.8 && s.totalAttempts > 0).length}
                 </div>
-                <div className="text-xs font-semibold text-gray-600">Learning</div>
+                <div className="text-xs font-semibold text-ink-muted">Learning</div>
               </div>
               <div className="text-center">
                 <div className="text-2xl font-black text-coral-600">
                   {letterStats.filter((s) => s.successRate < 0.6 && s.totalAttempts > 0).length}
                 </div>
-                <div className="text-xs font-semibold text-gray-600">Practice</div>
+                <div className="text-xs font-semibold text-ink-muted">Practice</div>
               </div>
             </div>
           </div>
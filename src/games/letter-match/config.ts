@@ -0,0 +1,15 @@
+/**
+ * Letter Match Game Config
+ * Game metadata shown in the game list
+ */
+
+import type { GameConfig } from '@/types/game';
+
+export const letterMatchConfig: GameConfig = {
+  id: 'letter-match',
+  name: 'Letter Match',
+  description: 'Swipe to identify uppercase and lowercase letters',
+  icon: '🔤',
+  itemType: 'letter',
+  defaultDifficulty: 'auto',
+};
@@ -3,23 +3,18 @@
  * Exports game configuration and component for registry
  */
 
-import type { GameConfig } from '@/types/game';
 import type { GameModule } from '@/lib/games/registry';
+import { letterMatchConfig } from './config';
 import { LetterMatchGame } from './LetterMatchGame';
-
-export const letterMatchConfig: GameConfig = {
-  id: 'letter-match',
-  name: 'Letter Match',
-  description: 'Swipe to identify uppercase and lowercase letters',
-  icon: '🔤',
-  itemType: 'letter',
-  defaultDifficulty: 'auto',
-};
+import { SettingsPanel } from './components/SettingsPanel';
+import { LetterProgress } from './components/LetterProgress';
 
 export const letterMatchModule: GameModule = {
   config: letterMatchConfig,
   Component: LetterMatchGame,
+  SettingsComponent: SettingsPanel,
+  ProgressComponent: LetterProgress,
 };
 
-// Re-export the game component
-export { LetterMatchGame };
+// Re-export the game component and config
+export { LetterMatchGame, letterMatchConfig };
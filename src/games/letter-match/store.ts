@@ -5,10 +5,12 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import type { AnswerOutcome } from '@/types/game';
 import type {
   LetterMatchState,
   LetterMatchConfig,
   Letter,
+  SavedRound,
 } from '@/types/letter-match';
 import { DEFAULT_LETTER_MATCH_CONFIG } from '@/types/letter-match';
 import {
@@ -16,8 +18,39 @@ import {
   generateAdaptiveRound,
   recordAnswer as recordAnswerToDB,
   initializeLetterStatistics,
+  restoreStatistic,
+  toItemId,
+  UNDO_WINDOW,
 } from './utils';
+import {
+  createSessionId,
+  deleteAnswerEvent,
+  recordAnswerEvent,
+  restoreReviewSchedule,
+  updateReviewSchedule,
+} from '@/lib/storage/statistics';
 import { useProfileStore } from '@/lib/profiles/store';
+import {
+  saveActiveProfileConfig,
+  syncConfigWithActiveProfile,
+} from '@/lib/profiles/game-config';
+
+/**
+ * Return saved rounds with one profile's entry replaced (or removed when null)
+ */
+function updateSavedRounds(
+  savedRounds: Record<number, SavedRound>,
+  profileId: number,
+  round: SavedRound | null
+): Record<number, SavedRound> {
+  const updated = { ...savedRounds };
+  if (round) {
+    updated[profileId] = round;
+  } else {
+    delete updated[profileId];
+  }
+  return updated;
+}
 
 export const useLetterMatchStore = create<LetterMatchState>()(
   persist(
@@ -27,7 +60,12 @@ export const useLetterMatchStore = create<LetterMatchState>()(
       sessionLetters: [],
       currentIndex: 0,
       currentScore: 0,
+      currentSkipped: 0,
       roundComplete: false,
+      sessionId: null,
+      savedRounds: {},
+      undoStack: [],
+      lastAnswerAt: null,
       config: DEFAULT_LETTER_MATCH_CONFIG,
 
       /**
@@ -35,7 +73,7 @@ export const useLetterMatchStore = create<LetterMatchState>()(
        * First round uses all letters, subsequent rounds are adaptive
        */
       startNewRound: async () => {
-        const { currentRound, config } = get();
+        const { currentRound, config, sessionId, savedRounds } = get();
         const nextRound = currentRound + 1;
 
         // Get active profile
@@ -63,15 +101,35 @@ export const useLetterMatchStore = create<LetterMatchState>()(
           sessionLetters: letters,
           currentIndex: 0,
           currentScore: 0,
+          currentSkipped: 0,
           roundComplete: false,
+          undoStack: [],
+          lastAnswerAt: null,
+          sessionId: sessionId ?? createSessionId(),
+          savedRounds: updateSavedRounds(savedRounds, activeProfileId, {
+            roundNumber: nextRound,
+            sessionLetters: letters,
+            currentIndex: 0,
+            currentScore: 0,
+            currentSkipped: 0,
+          }),
         });
       },
 
       /**
        * Record an answer and move to next letter
+       * Skipped letters leave the review schedule untouched (the letter stays due)
        */
-      recordAnswer: async (correct: boolean) => {
-        const { sessionLetters, currentIndex, currentScore } = get();
+      recordAnswer: async (outcome: AnswerOutcome, responseTimeMs?: number) => {
+        const {
+          sessionLetters,
+          currentIndex,
+          currentScore,
+          currentSkipped,
+          currentRound,
+          sessionId,
+          savedRounds,
+        } = get();
 
         if (currentIndex >= sessionLetters.length) {
           return; // Round already complete
@@ -85,30 +143,196 @@ export const useLetterMatchStore = create<LetterMatchState>()(
         }
 
         const currentLetter = sessionLetters[currentIndex];
+        const correct = outcome === 'correct';
+        const skipped = outcome === 'skipped';
 
-        // Record to database
-        await recordAnswerToDB(currentLetter, correct, activeProfileId);
+        // Record to database (running totals, event log and review schedule)
+        const [previousStat, previousSchedule, eventId] = await Promise.all([
+          recordAnswerToDB(currentLetter, outcome, activeProfileId, responseTimeMs),
+          skipped
+            ? null
+            : updateReviewSchedule(activeProfileId, 'letter-match', toItemId(currentLetter), correct),
+          recordAnswerEvent({
+            profileId: activeProfileId,
+            gameId: 'letter-match',
+            itemId: toItemId(currentLetter),
+            correct,
+            ...(skipped && { skipped }),
+            roundNumber: currentRound,
+            sessionId: sessionId ?? createSessionId(),
+            responseTimeMs,
+          }),
+        ]);
 
         // Update score
         const newScore = correct ? currentScore + 1 : currentScore;
+        const newSkipped = skipped ? currentSkipped + 1 : currentSkipped;
+
+        // Remember what changed so the answer can be undone
+        const undoStack = [
+          ...get().undoStack,
+          {
+            profileId: activeProfileId,
+            index: currentIndex,
+            outcome,
+            previousStat,
+            previousSchedule: previousSchedule ?? undefined,
+            scheduleUpdated: !skipped,
+            eventId,
+          },
+        ];
 
         // Check if round is complete
         const isLastLetter = currentIndex === sessionLetters.length - 1;
 
+        // Keep the unfinished round so it can be resumed after a reload
+        const updatedSavedRounds = updateSavedRounds(
+          savedRounds,
+          activeProfileId,
+          isLastLetter
+            ? null
+            : {
+                roundNumber: currentRound,
+                sessionLetters,
+                currentIndex: currentIndex + 1,
+                currentScore: newScore,
+                currentSkipped: newSkipped,
+              }
+        );
+
         if (isLastLetter) {
           set({
             currentScore: newScore,
+            currentSkipped: newSkipped,
             currentIndex: currentIndex + 1,
             roundComplete: true,
+            savedRounds: updatedSavedRounds,
+            undoStack,
+            lastAnswerAt: Date.now(),
           });
         } else {
           set({
             currentScore: newScore,
+            currentSkipped: newSkipped,
             currentIndex: currentIndex + 1,
+            savedRounds: updatedSavedRounds,
+            undoStack,
+            lastAnswerAt: Date.now(),
           });
         }
       },
 
+      /**
+       * Revert the latest answer of this round (store, statistics, schedule and event log)
+       * Only within UNDO_WINDOW of the last answer or undo; returns false otherwise
+       */
+      undoLastAnswer: async () => {
+        const { undoStack, lastAnswerAt } = get();
+        const entry = undoStack[undoStack.length - 1];
+        const activeProfileId = useProfileStore.getState().activeProfileId;
+
+        if (
+          !entry ||
+          entry.profileId !== activeProfileId ||
+          lastAnswerAt === null ||
+          Date.now() - lastAnswerAt > UNDO_WINDOW
+        ) {
+          return false;
+        }
+
+        // Take the entry off first so a double tap can't revert it twice
+        set({ undoStack: undoStack.slice(0, -1) });
+
+        const { sessionLetters } = get();
+        const letter = sessionLetters[entry.index];
+
+        try {
+          await Promise.all([
+            restoreStatistic(letter, entry.profileId, entry.previousStat),
+            entry.scheduleUpdated
+              ? restoreReviewSchedule(
+                  entry.profileId,
+                  'letter-match',
+                  toItemId(letter),
+                  entry.previousSchedule
+                )
+              : null,
+            deleteAnswerEvent(entry.eventId),
+          ]);
+        } catch (error) {
+          console.error('Failed to undo answer:', error);
+          return false;
+        }
+
+        const { currentRound, currentScore, currentSkipped, savedRounds } = get();
+        const restoredScore = entry.outcome === 'correct' ? currentScore - 1 : currentScore;
+        const restoredSkipped = entry.outcome === 'skipped' ? currentSkipped - 1 : currentSkipped;
+
+        set({
+          currentIndex: entry.index,
+          currentScore: restoredScore,
+          currentSkipped: restoredSkipped,
+          roundComplete: false,
+          lastAnswerAt: Date.now(),
+          // Back to an unfinished round, even if the undone answer completed it
+          savedRounds: updateSavedRounds(savedRounds, entry.profileId, {
+            roundNumber: currentRound,
+            sessionLetters,
+            currentIndex: entry.index,
+            currentScore: restoredScore,
+            currentSkipped: restoredSkipped,
+          }),
+        });
+        return true;
+      },
+
+      /**
+       * Restore the active profile's unfinished round
+       * Returns false when there is nothing to resume
+       */
+      resumeRound: () => {
+        const { savedRounds, sessionId } = get();
+        const activeProfileId = useProfileStore.getState().activeProfileId;
+        const saved = activeProfileId ? savedRounds[activeProfileId] : undefined;
+
+        if (!saved) {
+          return false;
+        }
+
+        set({
+          currentRound: saved.roundNumber,
+          sessionLetters: saved.sessionLetters,
+          currentIndex: saved.currentIndex,
+          currentScore: saved.currentScore,
+          currentSkipped: saved.currentSkipped ?? 0,
+          roundComplete: false,
+          undoStack: [],
+          lastAnswerAt: null,
+          sessionId: sessionId ?? createSessionId(),
+        });
+        return true;
+      },
+
+      /**
+       * Discard the active profile's unfinished round
+       * Answers already given stay in the statistics
+       */
+      abandonRound: () => {
+        const activeProfileId = useProfileStore.getState().activeProfileId;
+        if (!activeProfileId) return;
+
+        set((state) => ({
+          sessionLetters: [],
+          currentIndex: 0,
+          currentScore: 0,
+          currentSkipped: 0,
+          roundComplete: false,
+          undoStack: [],
+          lastAnswerAt: null,
+          savedRounds: updateSavedRounds(state.savedRounds, activeProfileId, null),
+        }));
+      },
+
       /**
        * Move to next letter (without recording answer)
        */
@@ -126,30 +350,45 @@ export const useLetterMatchStore = create<LetterMatchState>()(
        * Reset the game completely
        */
       resetGame: () => {
-        set({
+        const activeProfileId = useProfileStore.getState().activeProfileId;
+
+        set((state) => ({
           currentRound: 0,
           sessionLetters: [],
           currentIndex: 0,
           currentScore: 0,
+          currentSkipped: 0,
           roundComplete: false,
-        });
+          undoStack: [],
+          lastAnswerAt: null,
+          sessionId: null,
+          savedRounds: activeProfileId
+            ? updateSavedRounds(state.savedRounds, activeProfileId, null)
+            : state.savedRounds,
+        }));
       },
 
       /**
-       * Update game configuration
+       * Update game configuration (saved for the active profile)
        */
       updateConfig: (newConfig: Partial<LetterMatchConfig>) => {
-        set((state) => ({
-          config: { ...state.config, ...newConfig },
-        }));
+        const config = { ...get().config, ...newConfig };
+        set({ config });
+        saveActiveProfileConfig('letter-match', config);
       },
     }),
     {
       name: 'letter-match-storage',
       partialize: (state) => ({
         currentRound: state.currentRound,
-        config: state.config,
+        savedRounds: state.savedRounds,
+        // config is stored per profile in IndexedDB
       }),
     }
   )
 );
+
+// Swap in the active profile's settings whenever the profile changes
+syncConfigWithActiveProfile('letter-match', DEFAULT_LETTER_MATCH_CONFIG, (config) =>
+  useLetterMatchStore.setState({ config })
+);
@@ -4,12 +4,25 @@
  */
 
 import { db } from '@/lib/storage/db';
-import { weightedRandomSelection } from '@/lib/learning/weighted-selection';
-import type { LetterMatchStatistics, LetterMatchConfig, WeightedItem } from '@/types/game';
+import {
+  applyResponseTime,
+  getReviewSchedules,
+  resetGameStatistics,
+} from '@/lib/storage/statistics';
+import { shuffleArray } from '@/lib/learning/weighted-selection';
+import { selectRound, type RoundItem } from '@/lib/learning/selection-strategy';
+import type { AnswerOutcome, LetterMatchStatistics, LetterMatchConfig } from '@/types/game';
 import type { Letter } from '@/types/letter-match';
 
 const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
 
+/**
+ * Build the statistics item id for a letter ('A-uppercase', 'A-lowercase')
+ */
+export function toItemId(letter: Letter): string {
+  return `${letter.character.toUpperCase()}-${letter.caseType}`;
+}
+
 /**
  * Generate the first round with all 26 letters
  * Random mix of uppercase and lowercase
@@ -41,20 +54,21 @@ export function generateFirstRound(config: LetterMatchConfig): Letter[] {
 
 /**
  * Generate an adaptive round based on statistics
- * Uses weighted selection to prioritize struggling letters
+ * Uses the selection strategy for the configured mode to prioritize
+ * struggling (or due) letters
  */
 export async function generateAdaptiveRound(
   config: LetterMatchConfig,
   profileId: number
 ): Promise<Letter[]> {
-  // Fetch statistics for this profile only
-  const allStats = await db.letterMatchStatistics
-    .where('profileId')
-    .equals(profileId)
-    .toArray();
+  // Fetch statistics and review schedules for this profile only
+  const [allStats, schedules] = await Promise.all([
+    db.letterMatchStatistics.where('profileId').equals(profileId).toArray(),
+    getReviewSchedules(profileId, 'letter-match'),
+  ]);
 
-  // Calculate weights for each letter
-  const weightedLetters: Array<Letter & { weight: number }> = [];
+  const statsById = new Map(allStats.map((stat) => [stat.itemId, stat]));
+  const items: RoundItem<Letter>[] = [];
 
   for (const char of ALPHABET) {
     const casesToConsider: Array<'uppercase' | 'lowercase'> = [];
@@ -68,89 +82,44 @@ export async function generateAdaptiveRound(
     }
 
     for (const caseType of casesToConsider) {
-      const stat = allStats.find(
-        (s) => s.letter === char && s.caseType === caseType
-      );
-
-      const weight = calculateWeight(stat, config.difficulty);
       const character =
         caseType === 'uppercase' ? char : char.toLowerCase();
-
-      weightedLetters.push({
-        character,
-        caseType,
-        weight,
+      const letter: Letter = { character, caseType };
+      const itemId = toItemId(letter);
+
+      items.push({
+        itemId,
+        value: letter,
+        stat: statsById.get(itemId),
+        schedule: schedules.get(itemId),
       });
     }
   }
 
-  // Convert to WeightedItem format for selection
-  const weightedItems: WeightedItem[] = weightedLetters.map((item, idx) => ({
-    itemId: `${item.character}-${item.caseType}-${idx}`,
-    weight: item.weight,
-  }));
-
-  // Use weighted selection to pick letters
-  const selectedIds = weightedRandomSelection(weightedItems, config.roundSize, false);
-
-  // Map back to Letter objects
-  const selectedLetters = selectedIds.map(id => {
-    const parts = id.split('-');
-    const char = parts[0];
-    const caseType = parts[1] as 'uppercase' | 'lowercase';
-    return weightedLetters.find(l => l.character === char && l.caseType === caseType)!;
-  }).filter(Boolean).map(({ character, caseType }) => ({ character, caseType }));
-
-  return shuffleArray(selectedLetters);
+  return selectRound(items, {
+    roundSize: config.roundSize,
+    mode: config.difficulty,
+  });
 }
 
 /**
- * Calculate weight for a letter based on statistics and difficulty
- * Higher weight = more likely to appear
+ * How long after an answer it can still be undone (ms)
+ * Each undo restarts the window, so several answers can be undone in a row
  */
-function calculateWeight(
-  stat: LetterMatchStatistics | undefined,
-  difficulty: LetterMatchConfig['difficulty']
-): number {
-  if (!stat || stat.totalAttempts === 0) {
-    // Never seen before, high priority
-    return 1.0;
-  }
-
-  // Base error weight (1 - successRate)
-  // 0% success = weight 1.0
-  // 100% success = weight 0.0
-  const errorWeight = 1 - stat.successRate;
-
-  // Recency boost: show recently attempted letters
-  const daysSinceLastAttempt =
-    (Date.now() - new Date(stat.lastAttempt).getTime()) /
-    (1000 * 60 * 60 * 24);
-  const recencyBoost = daysSinceLastAttempt > 7 ? 1.2 : 1.0;
-
-  let finalWeight = errorWeight * recencyBoost;
-
-  // Apply difficulty modifiers
-  if (difficulty === 'easy') {
-    // Flatten weights - more even distribution
-    finalWeight = 0.5 + finalWeight * 0.5;
-  } else if (difficulty === 'hard') {
-    // Amplify weights - focus heavily on struggling letters
-    finalWeight = Math.pow(finalWeight, 0.7);
-  }
-
-  // Ensure minimum weight so all letters can appear
-  return Math.max(0.1, finalWeight);
-}
+export const UNDO_WINDOW = 8000;
 
 /**
  * Record an answer to the database
+ * Skipped letters only count towards skippedCount, not the success rate
+ * Returns the statistics row as it was before (undefined if it was just created),
+ * so the answer can be undone
  */
 export async function recordAnswer(
   letter: Letter,
-  correct: boolean,
-  profileId: number
-): Promise<void> {
+  outcome: AnswerOutcome,
+  profileId: number,
+  responseTimeMs?: number
+): Promise<LetterMatchStatistics | undefined> {
   const upperLetter = letter.character.toUpperCase();
 
   // Find existing stat for this profile
@@ -158,15 +127,16 @@ export async function recordAnswer(
     .where('[profileId+letter+caseType]')
     .equals([profileId, upperLetter, letter.caseType])
     .first();
+  const previous = stat ? structuredClone(stat) : undefined;
 
   if (!stat) {
     // Create new stat entry
     stat = {
       gameId: 'letter-match',
       profileId,
-      itemId: `${upperLetter}-${letter.caseType}`,
+      itemId: toItemId(letter),
       letter: upperLetter,
-      caseType: letter.caseType as any, // Type assertion for 'both' | 'n/a' compatibility
+      caseType: letter.caseType,
       totalAttempts: 0,
       correctCount: 0,
       incorrectCount: 0,
@@ -175,9 +145,17 @@ export async function recordAnswer(
     };
   }
 
+  stat.lastAttempt = new Date();
+
+  if (outcome === 'skipped') {
+    stat.skippedCount = (stat.skippedCount ?? 0) + 1;
+    await db.letterMatchStatistics.put(stat);
+    return previous;
+  }
+
   // Update counts
   stat.totalAttempts++;
-  if (correct) {
+  if (outcome === 'correct') {
     stat.correctCount++;
   } else {
     stat.incorrectCount++;
@@ -185,10 +163,31 @@ export async function recordAnswer(
 
   // Recalculate success rate
   stat.successRate = stat.correctCount / stat.totalAttempts;
-  stat.lastAttempt = new Date();
+  applyResponseTime(stat, responseTimeMs);
 
   // Save to database
   await db.letterMatchStatistics.put(stat);
+  return previous;
+}
+
+/**
+ * Put a letter's statistics back to how they were before an answer (undo)
+ * Without a previous row the one created by the answer is removed
+ */
+export async function restoreStatistic(
+  letter: Letter,
+  profileId: number,
+  previous: LetterMatchStatistics | undefined
+): Promise<void> {
+  if (previous) {
+    await db.letterMatchStatistics.put(previous);
+    return;
+  }
+
+  await db.letterMatchStatistics
+    .where('[profileId+letter+caseType]')
+    .equals([profileId, letter.character.toUpperCase(), letter.caseType])
+    .delete();
 }
 
 /**
@@ -213,7 +212,7 @@ export async function initializeLetterStatistics(profileId: number): Promise<voi
         profileId,
         itemId: `${letter}-${caseType}`,
         letter,
-        caseType: caseType as any, // Type assertion for CaseType compatibility
+        caseType,
         totalAttempts: 0,
         correctCount: 0,
         incorrectCount: 0,
@@ -230,21 +229,6 @@ export async function initializeLetterStatistics(profileId: number): Promise<voi
  * Reset all letter statistics for a specific profile
  */
 export async function resetAllStatistics(profileId: number): Promise<void> {
-  await db.letterMatchStatistics
-    .where('profileId')
-    .equals(profileId)
-    .delete();
+  await resetGameStatistics('letter-match', profileId);
   await initializeLetterStatistics(profileId);
 }
-
-/**
- * Shuffle array using Fisher-Yates algorithm
- */
-function shuffleArray<T>(array: T[]): T[] {
-  const shuffled = [...array];
-  for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-  }
-  return shuffled;
-}
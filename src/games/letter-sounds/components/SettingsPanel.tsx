@@ -0,0 +1,91 @@
+/**
+ * SettingsPanel Component
+ * Configuration options for Letter Sounds
+ */
+
+import { useLetterSoundsStore } from '../store';
+import { resetAllStatistics } from '../utils';
+import {
+  GameSettingsPanel,
+  DifficultySetting,
+  ChoiceSetting,
+  RoundSizeSetting,
+  ToggleSetting,
+} from '@/components/shared/SettingsControls';
+import { SoundRecordings } from './SoundRecordings';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const CASE_LABELS = {
+  lowercase: 'abc',
+  uppercase: 'ABC',
+} as const;
+
+export function SettingsPanel({ onClose }: SettingsPanelProps) {
+  const { config, updateConfig, resetGame } = useLetterSoundsStore();
+
+  const handleResetProgress = async (profileId: number) => {
+    await resetAllStatistics(profileId);
+    resetGame();
+  };
+
+  const toggles = [
+    { key: 'soundEnabled', label: '🔊 Sound Effects' },
+    { key: 'hapticEnabled', label: '📳 Haptic Feedback' },
+  ] as const;
+
+  return (
+    <GameSettingsPanel
+      idPrefix="letter-sounds"
+      onClose={onClose}
+      onResetProgress={handleResetProgress}
+    >
+      <DifficultySetting
+        idPrefix="letter-sounds"
+        value={config.difficulty}
+        descriptions={{
+          easy: '🐢 3 choices that sound different, slower pace',
+          auto: '🎯 3 choices, one sounds alike, focuses on tricky sounds',
+          hard: '🔥 4 choices, two sound alike, faster feedback',
+          spaced: '🗓️ Spaced review - sounds come back when they are due',
+        }}
+        onChange={(difficulty) => updateConfig({ difficulty })}
+      />
+
+      <ChoiceSetting
+        id="letter-sounds-case-setting"
+        label="Letter Cards"
+        value={config.letterCase}
+        options={['lowercase', 'uppercase'] as const}
+        optionLabel={(letterCase) => CASE_LABELS[letterCase]}
+        onChange={(letterCase) => updateConfig({ letterCase })}
+      />
+
+      <RoundSizeSetting
+        idPrefix="letter-sounds"
+        value={config.roundSize}
+        min={5}
+        max={26}
+        unit="items"
+        onChange={(roundSize) => updateConfig({ roundSize })}
+      />
+
+      {toggles.map(({ key, label }) => (
+        <ToggleSetting
+          key={key}
+          id={`letter-sounds-${key}-toggle`}
+          label={label}
+          checked={config[key]}
+          onChange={(checked) => updateConfig({ [key]: checked })}
+        />
+      ))}
+
+      {/* Parent recordings */}
+      <div className="pt-4 border-t-[3px] border-ink">
+        <SoundRecordings letterCase={config.letterCase} />
+      </div>
+    </GameSettingsPanel>
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * SoundRecordings Component
+ * Lets a parent record their own sound for each letter
+ * Letters without a recording use the synthesized sound
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/shared/Button';
+import { playLetterSound } from '@/lib/audio/letter-sounds';
+import { isRecordingSupported, startRecording, type ActiveRecording } from '@/lib/audio/recorder';
+import {
+  deleteLetterRecording,
+  getRecordedLetters,
+  saveLetterRecording,
+} from '@/lib/storage/recordings';
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+/**
+ * Recordings stop by themselves after this long (ms); a letter sound is short
+ */
+const MAX_RECORDING_DURATION = 3000;
+
+interface SoundRecordingsProps {
+  letterCase: 'uppercase' | 'lowercase';
+}
+
+export function SoundRecordings({ letterCase }: SoundRecordingsProps) {
+  const [recordedLetters, setRecordedLetters] = useState<Set<string>>(new Set());
+  const [selectedLetter, setSelectedLetter] = useState('A');
+  const [isRecording, setIsRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const recording = useRef<ActiveRecording | null>(null);
+  const autoStop = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    getRecordedLetters().then(setRecordedLetters);
+  }, []);
+
+  // Don't keep the microphone open when the panel closes mid-recording
+  useEffect(() => {
+    return () => {
+      if (autoStop.current) clearTimeout(autoStop.current);
+      recording.current?.cancel();
+    };
+  }, []);
+
+  const showLetter = (letter: string) =>
+    letterCase === 'lowercase' ? letter.toLowerCase() : letter;
+
+  const handleStop = async () => {
+    if (autoStop.current) clearTimeout(autoStop.current);
+    const active = recording.current;
+    if (!active) return;
+
+    recording.current = null;
+    setIsRecording(false);
+
+    const audio = await active.stop();
+    await saveLetterRecording(selectedLetter, audio);
+    setRecordedLetters(await getRecordedLetters());
+  };
+
+  const handleRecord = async () => {
+    setError(null);
+    try {
+      recording.current = await startRecording();
+    } catch (recordError) {
+      console.error('Failed to start recording:', recordError);
+      setError('The microphone is not available. Check the browser permission.');
+      return;
+    }
+    setIsRecording(true);
+    autoStop.current = setTimeout(handleStop, MAX_RECORDING_DURATION);
+  };
+
+  const handleDelete = async () => {
+    await deleteLetterRecording(selectedLetter);
+    setRecordedLetters(await getRecordedLetters());
+  };
+
+  const hasRecording = recordedLetters.has(selectedLetter);
+
+  return (
+    <div id="letter-sounds-recordings-setting">
+      <label className="block text-sm font-bold text-ink mb-3">
+        🎙️ Your Recordings
+      </label>
+
+      {/* Letter picker - recorded letters are marked */}
+      <div className="grid grid-cols-7 gap-1.5 mb-3" id="letter-sounds-recordings-letters">
+        {ALPHABET.map((letter) => (
+          <button
+            key={letter}
+            onClick={() => setSelectedLetter(letter)}
+            disabled={isRecording}
+            aria-pressed={selectedLetter === letter}
+            aria-label={`Letter ${letter}${recordedLetters.has(letter) ? ', recorded' : ''}`}
+            className={`relative h-10 rounded-xl font-black text-lg border-[2px] border-ink transition-all disabled:opacity-50 ${
+              selectedLetter === letter
+                ? 'bg-yellow-400 shadow-[2px_2px_0px_0px_var(--color-shadow)]'
+                : recordedLetters.has(letter)
+                ? 'bg-teal-200'
+                : 'bg-surface hover:bg-yellow-100'
+            }`}
+            id={`letter-sounds-recording-letter-${letter}`}
+          >
+            {showLetter(letter)}
+            {recordedLetters.has(letter) && (
+              <span className="absolute -top-1 -right-1 text-xs" aria-hidden="true">🎙️</span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {/* Controls for the selected letter */}
+      {isRecordingSupported() ? (
+        <div className="flex gap-2">
+          {isRecording ? (
+            <Button
+              variant="secondary"
+              onClick={handleStop}
+              className="flex-1 !bg-coral-300 hover:!bg-coral-400"
+              id="letter-sounds-stop-recording-button"
+            >
+              ⏹️ Stop
+            </Button>
+          ) : (
+            <Button
+              variant="secondary"
+              onClick={handleRecord}
+              className="flex-1"
+              id="letter-sounds-record-button"
+            >
+              🔴 Record "{showLetter(selectedLetter)}"
+            </Button>
+          )}
+
+          <Button
+            variant="ghost"
+            onClick={() => playLetterSound(selectedLetter)}
+            disabled={isRecording}
+            aria-label={`Play the sound of ${selectedLetter}`}
+            id="letter-sounds-play-recording-button"
+          >
+            🔊
+          </Button>
+
+          {hasRecording && (
+            <Button
+              variant="ghost"
+              onClick={handleDelete}
+              disabled={isRecording}
+              className="!border-coral-400 !text-coral-600"
+              aria-label={`Delete the recording of ${selectedLetter}`}
+              id="letter-sounds-delete-recording-button"
+            >
+              🗑️
+            </Button>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs font-semibold text-ink bg-coral-100 p-2 rounded-xl border-[2px] border-ink">
+          This browser can't record audio. The built-in sounds are used.
+        </p>
+      )}
+
+      {error && (
+        <p className="text-xs font-semibold text-ink bg-coral-100 p-2 rounded-xl border-[2px] border-ink mt-2" id="letter-sounds-recording-error">
+          {error}
+        </p>
+      )}
+
+      <p className="text-xs font-semibold text-ink mt-2 bg-yellow-50 p-2 rounded-xl border-[2px] border-ink">
+        Say just the sound ("buh", not "bee"), up to 3 seconds. Letters without a recording use
+        the built-in voice. Recordings stay on this device and are shared by all children.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Letter Sounds Config
+ * Game metadata shown in the game list
+ */
+
+import type { GameConfig } from '@/types/game';
+
+export const letterSoundsConfig: GameConfig = {
+  id: 'letter-sounds',
+  name: 'Letter Sounds',
+  description: 'Listen to a sound and tap the letter that makes it',
+  icon: '👂',
+  itemType: 'letter',
+  defaultDifficulty: 'auto',
+};
@@ -0,0 +1,18 @@
+/**
+ * Letter Sounds Module
+ * Exports game configuration and component for registry
+ */
+
+import type { GameModule } from '@/lib/games/registry';
+import { letterSoundsConfig } from './config';
+import { LetterSoundsGame } from './LetterSoundsGame';
+import { SettingsPanel } from './components/SettingsPanel';
+
+export const letterSoundsModule: GameModule = {
+  config: letterSoundsConfig,
+  Component: LetterSoundsGame,
+  SettingsComponent: SettingsPanel,
+};
+
+// Re-export the game component and config
+export { LetterSoundsGame, letterSoundsConfig };
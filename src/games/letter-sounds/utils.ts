@@ -0,0 +1,176 @@
+/**
+ * Letter Sounds Game Utilities
+ * Sound-alike distractors, round generation, adaptive learning, and statistics
+ */
+
+import { db } from '@/lib/storage/db';
+import {
+  applyResponseTime,
+  getReviewSchedules,
+  resetGameStatistics,
+} from '@/lib/storage/statistics';
+import { shuffleArray } from '@/lib/learning/weighted-selection';
+import { selectRound } from '@/lib/learning/selection-strategy';
+import { SAME_SOUND } from '@/lib/audio/letter-sounds';
+import type { LetterSoundStatistics, LetterSoundsConfig } from '@/types/game';
+import type { LetterSoundsItem } from '@/types/letter-sounds';
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+/**
+ * Letters whose sounds are easy to mix up with each one
+ * Distractors come from here so the child has to listen closely
+ */
+const SOUND_ALIKES: Record<string, string[]> = {
+  A: ['E', 'U', 'O'], B: ['P', 'D'], C: ['G', 'T'], D: ['T', 'B'],
+  E: ['I', 'A'], F: ['V', 'S', 'H'], G: ['C', 'J'], H: ['F'],
+  I: ['E', 'U'], J: ['G', 'Y'], K: ['G', 'T'], L: ['R', 'W'],
+  M: ['N'], N: ['M'], O: ['U', 'A'], P: ['B', 'T'],
+  Q: ['W', 'G'], R: ['L', 'W'], S: ['Z', 'F'], T: ['D', 'P'],
+  U: ['O', 'A'], V: ['F', 'B'], W: ['R', 'Y'], X: ['S', 'Z'],
+  Y: ['W', 'J'], Z: ['S'],
+};
+
+/**
+ * Number of choices and how many distractors are sound-alikes, per mode
+ * The rest are random letters, which are easier to rule out
+ */
+const CHOICE_SHAPE: Record<LetterSoundsConfig['difficulty'], { choices: number; soundAlikes: number }> = {
+  easy: { choices: 3, soundAlikes: 0 },
+  auto: { choices: 3, soundAlikes: 1 },
+  hard: { choices: 4, soundAlikes: 2 },
+  spaced: { choices: 3, soundAlikes: 1 },
+};
+
+/**
+ * How long the result of a tap stays on screen before the next sound (ms)
+ */
+export const FEEDBACK_DURATION: Record<LetterSoundsConfig['difficulty'], number> = {
+  easy: 1800,
+  auto: 1400,
+  hard: 1000,
+  spaced: 1400,
+};
+
+/**
+ * Pick distractors for a letter (uppercase)
+ */
+function pickDistractors(letter: string, difficulty: LetterSoundsConfig['difficulty']): string[] {
+  const { choices, soundAlikes } = CHOICE_SHAPE[difficulty];
+  const excluded = [letter, ...(SAME_SOUND[letter] ?? [])];
+
+  const similar = shuffleArray(SOUND_ALIKES[letter] ?? [])
+    .filter((other) => !excluded.includes(other))
+    .slice(0, soundAlikes);
+  const others = shuffleArray(
+    ALPHABET.filter((other) => !excluded.includes(other) && !similar.includes(other))
+  );
+
+  // Two distractors that sound the same (C and K) would leave one wrong either way
+  const distractors: string[] = [];
+  for (const candidate of [...similar, ...others]) {
+    if (distractors.length === choices - 1) break;
+    if (distractors.some((picked) => SAME_SOUND[picked]?.includes(candidate))) continue;
+    distractors.push(candidate);
+  }
+  return distractors;
+}
+
+/**
+ * Build one item for a letter
+ */
+export function buildItem(letter: string, config: LetterSoundsConfig): LetterSoundsItem {
+  const toCase = (value: string) =>
+    config.letterCase === 'lowercase' ? value.toLowerCase() : value.toUpperCase();
+  const answer = toCase(letter);
+
+  return {
+    itemId: letter,
+    letter,
+    answer,
+    choices: shuffleArray([answer, ...pickDistractors(letter, config.difficulty).map(toCase)]),
+  };
+}
+
+/**
+ * Generate a round based on statistics
+ * Uses the selection strategy for the configured mode to prioritize
+ * struggling (or due) sounds; sounds never tried count as struggling
+ */
+export async function generateRound(
+  config: LetterSoundsConfig,
+  profileId: number
+): Promise<LetterSoundsItem[]> {
+  // Fetch statistics and review schedules for this profile only
+  const [allStats, schedules] = await Promise.all([
+    db.letterSoundStatistics.where('profileId').equals(profileId).toArray(),
+    getReviewSchedules(profileId, 'letter-sounds'),
+  ]);
+
+  const statsById = new Map(allStats.map((stat) => [stat.itemId, stat]));
+
+  const selected = selectRound(
+    ALPHABET.map((letter) => ({
+      itemId: letter,
+      value: letter,
+      stat: statsById.get(letter),
+      schedule: schedules.get(letter),
+    })),
+    { roundSize: config.roundSize, mode: config.difficulty }
+  );
+
+  return selected.map((letter) => buildItem(letter, config));
+}
+
+/**
+ * Record an answer to the database
+ */
+export async function recordAnswer(
+  item: LetterSoundsItem,
+  correct: boolean,
+  profileId: number,
+  responseTimeMs?: number
+): Promise<void> {
+  // Get existing statistics or create new
+  let stat: LetterSoundStatistics | undefined = await db.letterSoundStatistics
+    .where('[profileId+letter]')
+    .equals([profileId, item.letter])
+    .first();
+
+  if (!stat) {
+    stat = {
+      gameId: 'letter-sounds',
+      profileId,
+      itemId: item.itemId,
+      letter: item.letter,
+      totalAttempts: 0,
+      correctCount: 0,
+      incorrectCount: 0,
+      lastAttempt: new Date(),
+      successRate: 0,
+    };
+  }
+
+  // Update counts
+  stat.totalAttempts++;
+  if (correct) {
+    stat.correctCount++;
+  } else {
+    stat.incorrectCount++;
+  }
+
+  // Recalculate success rate
+  stat.successRate = stat.correctCount / stat.totalAttempts;
+  stat.lastAttempt = new Date();
+  applyResponseTime(stat, responseTimeMs);
+
+  // Save to database
+  await db.letterSoundStatistics.put(stat);
+}
+
+/**
+ * Reset all letter sound statistics for a specific profile
+ */
+export async function resetAllStatistics(profileId: number): Promise<void> {
+  await resetGameStatistics('letter-sounds', profileId);
+}
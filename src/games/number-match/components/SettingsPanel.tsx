@@ -0,0 +1,111 @@
+/**
+ * SettingsPanel Component
+ * Configuration options for Number Match game
+ */
+
+import { useNumberMatchStore } from '../store';
+import { resetAllStatistics } from '../utils';
+import {
+  GameSettingsPanel,
+  DifficultySetting,
+  ChoiceSetting,
+  RoundSizeSetting,
+  ToggleSetting,
+} from '@/components/shared/SettingsControls';
+import type { NumberRange } from '@/types/game';
+
+const NUMBER_RANGES: NumberRange[] = [10, 20, 100];
+
+interface SettingsPanelProps {
+  onClose: () => void;
+  onViewProgress?: () => void;
+}
+
+export function SettingsPanel({ onClose, onViewProgress }: SettingsPanelProps) {
+  const { config, updateConfig, resetGame } = useNumberMatchStore();
+
+  const handleResetProgress = async (profileId: number) => {
+    await resetAllStatistics(profileId);
+    resetGame();
+  };
+
+  return (
+    <GameSettingsPanel
+      idPrefix="number-match"
+      onClose={onClose}
+      onResetProgress={handleResetProgress}
+      onViewProgress={onViewProgress}
+      progressLabel="View Number Progress"
+    >
+      <DifficultySetting
+        idPrefix="number-match"
+        value={config.difficulty}
+        descriptions={{
+          easy: '📊 Even distribution of all numbers',
+          auto: '🎯 Adaptive - focuses on struggling numbers',
+          hard: '🔥 Heavily focuses on incorrect numbers',
+          spaced: '🗓️ Spaced review - numbers come back when they are due',
+        }}
+        onChange={(difficulty) => updateConfig({ difficulty })}
+      />
+
+      <ChoiceSetting
+        id="number-match-range-setting"
+        label="Numbers"
+        value={config.range}
+        options={NUMBER_RANGES}
+        optionLabel={(range) => `0–${range}`}
+        onChange={(range) => updateConfig({ range })}
+      />
+
+      <RoundSizeSetting
+        idPrefix="number-match"
+        value={config.roundSize}
+        min={5}
+        max={30}
+        unit="numbers"
+        onChange={(roundSize) => updateConfig({ roundSize })}
+      />
+
+      <ToggleSetting
+        id="number-match-sound-enabled-toggle"
+        label="🔊 Sound Effects"
+        checked={config.soundEnabled}
+        onChange={(soundEnabled) => updateConfig({ soundEnabled })}
+      />
+
+      <ToggleSetting
+        id="number-match-speak-numbers-toggle"
+        label="🗣️ Say Numbers"
+        checked={config.speakNumbers}
+        disabled={!config.soundEnabled}
+        onChange={(speakNumbers) => updateConfig({ speakNumbers })}
+      />
+
+      <ToggleSetting
+        id="number-match-haptic-enabled-toggle"
+        label="📳 Haptic Feedback"
+        checked={config.hapticEnabled}
+        onChange={(hapticEnabled) => updateConfig({ hapticEnabled })}
+      />
+
+      <ToggleSetting
+        id="number-match-answer-buttons-toggle"
+        label="✅ Answer Buttons"
+        checked={config.answerButtons}
+        onChange={(answerButtons) => updateConfig({ answerButtons })}
+      />
+
+      <ToggleSetting
+        id="number-match-keyboard-shortcuts-toggle"
+        label="⌨️ Keyboard Shortcuts"
+        checked={config.keyboardShortcuts}
+        onChange={(keyboardShortcuts) => updateConfig({ keyboardShortcuts })}
+      />
+
+      <p className="text-xs font-semibold text-ink bg-yellow-50 p-2 rounded-xl border-[2px] border-ink" id="number-match-controls-description">
+        ✓/✗ buttons answer without swiping. Keys: → or Y correct, ← or N wrong, Space skip.
+      </p>
+    </GameSettingsPanel>
+  );
+}
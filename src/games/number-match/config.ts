@@ -0,0 +1,15 @@
+/**
+ * Number Match Game Config
+ * Game metadata shown in the game list
+ */
+
+import type { GameConfig } from '@/types/game';
+
+export const numberMatchConfig: GameConfig = {
+  id: 'number-match',
+  name: 'Number Match',
+  description: 'Swipe to identify the numbers 0 to 100',
+  icon: '🔢',
+  itemType: 'number',
+  defaultDifficulty: 'auto',
+};
@@ -0,0 +1,20 @@
+/**
+ * Number Match Game Module
+ * Exports game configuration and component for registry
+ */
+
+import type { GameModule } from '@/lib/games/registry';
+import { numberMatchConfig } from './config';
+import { NumberMatchGame } from './NumberMatchGame';
+import { SettingsPanel } from './components/SettingsPanel';
+import { NumberProgress } from './components/NumberProgress';
+
+export const numberMatchModule: GameModule = {
+  config: numberMatchConfig,
+  Component: NumberMatchGame,
+  SettingsComponent: SettingsPanel,
+  ProgressComponent: NumberProgress,
+};
+
+// Re-export the game component and config
+export { NumberMatchGame, numberMatchConfig };
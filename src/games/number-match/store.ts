@@ -0,0 +1,155 @@
+/**
+ * Number Match Game Store (Zustand)
+ * Manages game state, rounds, scoring, and configuration
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { AnswerOutcome, NumberMatchConfig } from '@/types/game';
+import type { NumberMatchState } from '@/types/number-match';
+import { DEFAULT_NUMBER_MATCH_CONFIG } from '@/types/number-match';
+import { generateRound, recordAnswer as recordAnswerToDB, toItemId } from './utils';
+import {
+  createSessionId,
+  recordAnswerEvent,
+  updateReviewSchedule,
+} from '@/lib/storage/statistics';
+import { useProfileStore } from '@/lib/profiles/store';
+import {
+  saveActiveProfileConfig,
+  syncConfigWithActiveProfile,
+} from '@/lib/profiles/game-config';
+
+export const useNumberMatchStore = create<NumberMatchState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      currentRound: 0,
+      sessionNumbers: [],
+      currentIndex: 0,
+      currentScore: 0,
+      currentSkipped: 0,
+      roundComplete: false,
+      sessionId: null,
+      config: DEFAULT_NUMBER_MATCH_CONFIG,
+
+      /**
+       * Start a new round
+       */
+      startNewRound: async () => {
+        const { currentRound, config, sessionId } = get();
+
+        // Get active profile
+        const activeProfileId = useProfileStore.getState().activeProfileId;
+        if (!activeProfileId) {
+          console.error('No active profile - cannot start round');
+          return;
+        }
+
+        const numbers = await generateRound(config, activeProfileId);
+
+        set({
+          currentRound: currentRound + 1,
+          sessionNumbers: numbers,
+          currentIndex: 0,
+          currentScore: 0,
+          currentSkipped: 0,
+          roundComplete: false,
+          sessionId: sessionId ?? createSessionId(),
+        });
+      },
+
+      /**
+       * Record an answer and move to next number
+       * Skipped numbers leave the review schedule untouched (the number stays due)
+       */
+      recordAnswer: async (outcome: AnswerOutcome, responseTimeMs?: number) => {
+        const {
+          sessionNumbers,
+          currentIndex,
+          currentScore,
+          currentSkipped,
+          currentRound,
+          sessionId,
+        } = get();
+
+        if (currentIndex >= sessionNumbers.length) {
+          return; // Round already complete
+        }
+
+        // Get active profile
+        const activeProfileId = useProfileStore.getState().activeProfileId;
+        if (!activeProfileId) {
+          console.error('No active profile - cannot record answer');
+          return;
+        }
+
+        const currentNumber = sessionNumbers[currentIndex];
+        const correct = outcome === 'correct';
+        const skipped = outcome === 'skipped';
+
+        // Move on right away; the card has already animated out
+        set({
+          currentScore: correct ? currentScore + 1 : currentScore,
+          currentSkipped: skipped ? currentSkipped + 1 : currentSkipped,
+          currentIndex: currentIndex + 1,
+          roundComplete: currentIndex === sessionNumbers.length - 1,
+        });
+
+        // Record to database (running totals, event log and review schedule)
+        await Promise.all([
+          recordAnswerToDB(currentNumber, outcome, activeProfileId, responseTimeMs),
+          skipped
+            ? null
+            : updateReviewSchedule(activeProfileId, 'number-match', toItemId(currentNumber), correct),
+          recordAnswerEvent({
+            profileId: activeProfileId,
+            gameId: 'number-match',
+            itemId: toItemId(currentNumber),
+            correct,
+            ...(skipped && { skipped }),
+            roundNumber: currentRound,
+            sessionId: sessionId ?? createSessionId(),
+            responseTimeMs,
+          }),
+        ]);
+      },
+
+      /**
+       * Reset the game completely
+       */
+      resetGame: () => {
+        set({
+          currentRound: 0,
+          sessionNumbers: [],
+          currentIndex: 0,
+          currentScore: 0,
+          currentSkipped: 0,
+          roundComplete: false,
+          sessionId: null,
+        });
+      },
+
+      /**
+       * Update game configuration (saved for the active profile)
+       */
+      updateConfig: (newConfig: Partial<NumberMatchConfig>) => {
+        const config = { ...get().config, ...newConfig };
+        set({ config });
+        saveActiveProfileConfig('number-match', config);
+      },
+    }),
+    {
+      name: 'number-match-storage',
+      partialize: (state) => ({
+        currentRound: state.currentRound,
+        // config is stored per profile in IndexedDB
+      }),
+    }
+  )
+);
+
+// Swap in the active profile's settings whenever the profile changes
+syncConfigWithActiveProfile('number-match', DEFAULT_NUMBER_MATCH_CONFIG, (config) =>
+  useNumberMatchStore.setState({ config })
+);
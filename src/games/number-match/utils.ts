@@ -0,0 +1,116 @@
+/**
+ * Number Match Game Utilities
+ * Helper functions for round generation, adaptive learning, and statistics
+ */
+
+import { db } from '@/lib/storage/db';
+import {
+  applyResponseTime,
+  getReviewSchedules,
+  resetGameStatistics,
+} from '@/lib/storage/statistics';
+import { selectRound } from '@/lib/learning/selection-strategy';
+import type { AnswerOutcome, NumberMatchConfig, NumberMatchStatistics } from '@/types/game';
+
+/**
+ * Build the statistics item id for a number ('7')
+ */
+export function toItemId(number: number): string {
+  return String(number);
+}
+
+/**
+ * All numbers in the configured range (0 to range)
+ */
+export function getNumberPool(config: NumberMatchConfig): number[] {
+  return Array.from({ length: config.range + 1 }, (_, i) => i);
+}
+
+/**
+ * Generate a round based on statistics
+ * Uses the selection strategy for the configured mode to prioritize
+ * struggling (or due) numbers; numbers never tried count as struggling
+ */
+export async function generateRound(
+  config: NumberMatchConfig,
+  profileId: number
+): Promise<number[]> {
+  // Fetch statistics and review schedules for this profile only
+  const [allStats, schedules] = await Promise.all([
+    db.numberMatchStatistics.where('profileId').equals(profileId).toArray(),
+    getReviewSchedules(profileId, 'number-match'),
+  ]);
+
+  const statsById = new Map(allStats.map((stat) => [stat.itemId, stat]));
+
+  return selectRound(
+    getNumberPool(config).map((number) => ({
+      itemId: toItemId(number),
+      value: number,
+      stat: statsById.get(toItemId(number)),
+      schedule: schedules.get(toItemId(number)),
+    })),
+    { roundSize: config.roundSize, mode: config.difficulty }
+  );
+}
+
+/**
+ * Record an answer to the database
+ * Skipped numbers only count towards skippedCount, not the success rate
+ */
+export async function recordAnswer(
+  number: number,
+  outcome: AnswerOutcome,
+  profileId: number,
+  responseTimeMs?: number
+): Promise<void> {
+  // Get existing statistics or create new
+  let stat: NumberMatchStatistics | undefined = await db.numberMatchStatistics
+    .where('[profileId+number]')
+    .equals([profileId, number])
+    .first();
+
+  if (!stat) {
+    stat = {
+      gameId: 'number-match',
+      profileId,
+      itemId: toItemId(number),
+      number,
+      totalAttempts: 0,
+      correctCount: 0,
+      incorrectCount: 0,
+      lastAttempt: new Date(),
+      successRate: 0,
+    };
+  }
+
+  stat.lastAttempt = new Date();
+
+  if (outcome === 'skipped') {
+    stat.skippedCount = (stat.skippedCount ?? 0) + 1;
+    await db.numberMatchStatistics.put(stat);
+    return;
+  }
+
+  // Update counts
+  stat.totalAttempts++;
+  if (outcome === 'correct') {
+    stat.correctCount++;
+  } else {
+    stat.incorrectCount++;
+  }
+
+  // Recalculate success rate
+  stat.successRate = stat.correctCount / stat.totalAttempts;
+  applyResponseTime(stat, responseTimeMs);
+
+  // Save to database
+  await db.numberMatchStatistics.put(stat);
+}
+
+/**
+ * Reset all number statistics for a specific profile
+ */
+export async function resetAllStatistics(profileId: number): Promise<void> {
+  await resetGameStatistics('number-match', profileId);
+}
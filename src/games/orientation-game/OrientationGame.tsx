@@ -0,0 +1,290 @@
+/**
+ * Orientation Game - Main Game Component
+ * Tap the correctly oriented character of a mirrored pair
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useOrientationGameStore } from './store';
+import { needsNamedTarget } from './utils';
+import { OrientationCard, type OrientationCardFeedback } from './components/OrientationCard';
+import { RoundSummary } from '@/components/shared/RoundSummary';
+import { GameContainer } from '@/components/shared/GameContainer';
+import { Button } from '@/components/shared/Button';
+import { useGameNavigation } from '@/hooks/useGameNavigation';
+import { useGameAudio } from '@/hooks/useGameAudio';
+import { useGameHaptics } from '@/hooks/useGameHaptics';
+import { STREAK_MILESTONE } from '@/lib/haptics/haptics';
+import type { ChoiceSide } from '@/types/orientation-game';
+
+const HINT_DURATION = 1200; // How long the hint arrow stays visible (ms)
+
+export function OrientationGame() {
+  const {
+    currentRound,
+    roundItems,
+    currentIndex,
+    currentScore,
+    roundComplete,
+    showingFeedback,
+    lastChoice,
+    config,
+    startNewRound,
+    handleChoice,
+  } = useOrientationGameStore();
+
+  const { goHome, openSettings } = useGameNavigation('orientation-game');
+  const { playSound, say } = useGameAudio(config.soundEnabled);
+  const { haptic } = useGameHaptics(config.hapticEnabled);
+  const streak = useRef(0); // Correct answers in a row
+  const shownAt = useRef(performance.now()); // When the current pair appeared
+  const [isStarted, setIsStarted] = useState(false);
+  const [hintVisible, setHintVisible] = useState(false);
+
+  const currentItem = roundItems[currentIndex];
+  const namedTarget = currentItem && needsNamedTarget(currentItem) ? currentItem.character : null;
+
+  // Start timing each new pair, and say which letter to find when both
+  // cards are real letters (b and d, p and q)
+  useEffect(() => {
+    shownAt.current = performance.now();
+    if (isStarted && namedTarget) say(`Tap the ${namedTarget}`);
+  }, [currentIndex, currentRound, isStarted, namedTarget, say]);
+
+  // Briefly show the hint arrow when a new pair appears
+  useEffect(() => {
+    if (!config.showHints || roundComplete) return;
+
+    setHintVisible(true);
+    const timer = setTimeout(() => setHintVisible(false), HINT_DURATION);
+    return () => clearTimeout(timer);
+  }, [currentIndex, currentRound, config.showHints, roundComplete]);
+
+  const handleStart = async () => {
+    await startNewRound();
+    streak.current = 0;
+    setIsStarted(true);
+  };
+
+  const handleSelect = (side: ChoiceSide) => {
+    if (showingFeedback || !currentItem) return;
+
+    const correct = side === currentItem.correctSide;
+
+    // The last answer gets the round-complete fanfare from the summary instead
+    if (currentIndex < roundItems.length - 1) {
+      playSound(correct ? 'correct' : 'incorrect');
+    }
+
+    // Streak milestones replace the regular correct pattern
+    streak.current = correct ? streak.current + 1 : 0;
+    if (streak.current > 0 && streak.current % STREAK_MILESTONE === 0) {
+      haptic('streak');
+    } else {
+      haptic(correct ? 'correct' : 'incorrect');
+    }
+
+    handleChoice(side, performance.now() - shownAt.current);
+  };
+
+  const handleBack = () => {
+    goHome();
+  };
+
+  const totalItems = roundItems.length;
+  const progress = totalItems > 0 ? `${currentIndex} / ${totalItems}` : '0 / 0';
+
+  const getFeedback = (side: ChoiceSide): OrientationCardFeedback => {
+    if (!showingFeedback || !currentItem) return 'none';
+    if (side === lastChoice) {
+      return side === currentItem.correctSide ? 'correct' : 'incorrect';
+    }
+    return side === currentItem.correctSide ? 'reveal' : 'none';
+  };
+
+  // Welcome screen
+  if (!isStarted || currentRound === 0) {
+    return (
+      <GameContainer
+        title="Orientation Game"
+        onBack={handleBack}
+      >
+        <div className="flex-1 flex flex-col items-center justify-center px-6 text-center">
+          {/* Icon with playful rotation */}
+          <div className="mb-8">
+            <div className="w-28 h-28 bg-teal-300 rounded-3xl border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)] flex items-center justify-center transform -rotate-6 mx-auto mb-6">
+              <span className="text-6xl">🪞</span>
+            </div>
+
+            <h2 className="text-4xl font-black text-ink mb-6">
+              Mirror Match
+            </h2>
+
+            {/* Instructions card */}
+            <div className="bg-surface rounded-[32px] border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)] p-6 max-w-md mx-auto mb-8">
+              <div className="space-y-3 text-left">
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-teal-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">1</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Two cards show the same character
+                  </p>
+                </div>
+
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-yellow-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">2</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    One of them is flipped like in a mirror
+                  </p>
+                </div>
+
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-coral-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">3</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Tap the one that's the right way! 👆
+                  </p>
+                </div>
+              </div>
+
+              {/* Example pair */}
+              <div className="flex justify-center gap-4 mt-5" id="orientation-game-example">
+                <div className="w-16 h-20 bg-teal-200 rounded-xl border-[3px] border-ink flex items-center justify-center">
+                  <span className="text-5xl font-black text-ink leading-none">b</span>
+                </div>
+                <div className="w-16 h-20 bg-surface rounded-xl border-[3px] border-ink flex items-center justify-center">
+                  <span className="text-5xl font-black text-ink leading-none" style={{ transform: 'scaleX(-1)' }}>
+                    b
+                  </span>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-3 w-full max-w-xs">
+            <Button
+              variant="primary"
+              onClick={handleStart}
+              className="w-full !bg-teal-200 hover:!bg-teal-300 active:!bg-teal-400"
+              id="orientation-game-start-button"
+            >
+              🎮 Start Round
+            </Button>
+
+            <Button
+              variant="ghost"
+              onClick={openSettings}
+              className="w-full"
+              id="orientation-game-welcome-settings-button"
+            >
+              ⚙️ Settings
+            </Button>
+          </div>
+        </div>
+      </GameContainer>
+    );
+  }
+
+  // Round summary screen
+  if (roundComplete) {
+    return (
+      <RoundSummary
+        idPrefix="orientation-game"
+        totalAttempts={totalItems}
+        correctCount={currentScore}
+        incorrectCount={totalItems - currentScore}
+        roundNumber={currentRound}
+        soundEnabled={config.soundEnabled}
+        hapticEnabled={config.hapticEnabled}
+        onPlayAgain={handleStart}
+        onHome={handleBack}
+        onSettings={openSettings}
+      />
+    );
+  }
+
+  // Active gameplay
+  return (
+    <GameContainer
+      title="Orientation Game"
+      onBack={handleBack}
+    >
+      {/* Header - Score and Settings */}
+      <div className="w-full flex items-center justify-between px-6 py-4">
+        <button
+          onClick={openSettings}
+          className="w-14 h-14 bg-yellow-300 rounded-2xl border-[3px] border-ink flex items-center justify-center hover:bg-yellow-400 active:bg-yellow-500 transition-colors shadow-[3px_3px_0px_0px_var(--color-shadow)] active:shadow-none active:translate-x-[3px] active:translate-y-[3px]"
+          aria-label="Settings"
+          id="orientation-game-settings-button"
+        >
+          <span className="text-2xl">⚙️</span>
+        </button>
+
+        <div
+          className="bg-surface px-5 py-2 rounded-full border-[3px] border-ink shadow-[3px_3px_0px_0px_var(--color-shadow)]"
+          id="orientation-game-score-display"
+        >
+          <span className="text-lg font-black text-ink">
+            {currentScore} / {showingFeedback ? currentIndex + 1 : currentIndex}
+          </span>
+        </div>
+      </div>
+
+      {/* Main game area - Card pair */}
+      <div className="flex-1 flex flex-col items-center justify-center gap-8 px-6">
+        {currentItem && (
+          <div
+            className="flex flex-col min-[340px]:flex-row gap-5"
+            id="orientation-game-card-pair"
+            key={`${currentItem.itemId}-${currentIndex}`}
+          >
+            {(['left', 'right'] as const).map((side) => (
+              <OrientationCard
+                key={side}
+                character={currentItem.character}
+                side={side}
+                mirrored={side !== currentItem.correctSide}
+                feedback={getFeedback(side)}
+                showHint={hintVisible && !showingFeedback && side === currentItem.correctSide}
+                disabled={showingFeedback}
+                onSelect={handleSelect}
+              />
+            ))}
+          </div>
+        )}
+
+        <p className="text-lg font-bold text-ink-muted text-center" id="orientation-game-instruction">
+          {namedTarget ? (
+            <>
+              Tap the{' '}
+              <span
+                className="inline-block bg-yellow-200 px-3 rounded-xl border-[2px] border-ink text-2xl font-black text-ink"
+                id="orientation-game-target"
+              >
+                {namedTarget}
+              </span>
+              !
+            </>
+          ) : (
+            <>Tap the {currentItem?.characterType === 'number' ? 'number' : 'letter'} that's the right way!</>
+          )}
+        </p>
+      </div>
+
+      {/* Progress footer */}
+      <div className="px-6 py-4 flex justify-center">
+        <div
+          className="bg-teal-200 px-6 py-2 rounded-full border-[2px] border-ink"
+          id="orientation-game-progress-display"
+        >
+          <span className="text-sm font-bold text-ink">
+            Round {currentRound} • {progress}
+          </span>
+        </div>
+      </div>
+    </GameContainer>
+  );
+}
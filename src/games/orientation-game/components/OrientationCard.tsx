@@ -0,0 +1,71 @@
+/**
+ * OrientationCard Component
+ * Tappable character card, optionally mirrored horizontally
+ */
+
+import type { ChoiceSide } from '@/types/orientation-game';
+
+export type OrientationCardFeedback = 'none' | 'correct' | 'incorrect' | 'reveal';
+
+interface OrientationCardProps {
+  character: string;
+  side: ChoiceSide;
+  mirrored: boolean;
+  feedback: OrientationCardFeedback;
+  showHint?: boolean;
+  disabled?: boolean;
+  onSelect: (side: ChoiceSide) => void;
+}
+
+export function OrientationCard({
+  character,
+  side,
+  mirrored,
+  feedback,
+  showHint = false,
+  disabled = false,
+  onSelect,
+}: OrientationCardProps) {
+  const feedbackStyles: Record<OrientationCardFeedback, string> = {
+    none: 'bg-surface border-ink',
+    correct: 'bg-teal-200 border-teal-700',
+    incorrect: 'bg-coral-200 border-coral-700',
+    reveal: 'bg-surface border-teal-700 shadow-[0_0_0_6px_rgba(38,197,197,0.5)]',
+  };
+
+  return (
+    <button
+      onClick={() => onSelect(side)}
+      disabled={disabled}
+      className={`relative w-[140px] h-[180px] min-w-[120px] min-h-[160px] rounded-2xl border-[3px] shadow-[6px_6px_0px_0px_var(--color-shadow)] flex items-center justify-center select-none touch-manipulation transition-all duration-200 active:scale-95 disabled:active:scale-100 ${feedbackStyles[feedback]}`}
+      style={{ willChange: 'transform' }}
+      aria-label={`${side} card`}
+      id={`orientation-game-card-${side}`}
+      data-mirrored={mirrored}
+    >
+      <span
+        className="text-[96px] font-black text-ink leading-none"
+        style={{ transform: mirrored ? 'scaleX(-1)' : 'scaleX(1)' }}
+      >
+        {character}
+      </span>
+
+      {/* Hint arrow on the correct card */}
+      {showHint && (
+        <span
+          className="absolute top-2 right-3 text-2xl font-black text-teal-600"
+          id={`orientation-game-hint-${side}`}
+        >
+          →
+        </span>
+      )}
+
+      {/* Result marker */}
+      {(feedback === 'correct' || feedback === 'incorrect') && (
+        <span className="absolute bottom-2 right-3 text-3xl font-black text-ink">
+          {feedback === 'correct' ? '✓' : '✗'}
+        </span>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * SettingsPanel Component
+ * Configuration options for Orientation Game
+ */
+
+import { useOrientationGameStore } from '../store';
+import { resetAllStatistics } from '../utils';
+import {
+  GameSettingsPanel,
+  DifficultySetting,
+  ChoiceSetting,
+  RoundSizeSetting,
+  ToggleSetting,
+} from '@/components/shared/SettingsControls';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+}
+
+const CHARACTER_TYPE_LABELS = {
+  both: 'Both',
+  letter: 'Abc',
+  number: '123',
+} as const;
+
+const CASE_LABELS = {
+  both: 'Both',
+  uppercase: 'ABC',
+  lowercase: 'abc',
+} as const;
+
+export function SettingsPanel({ onClose }: SettingsPanelProps) {
+  const { config, updateConfig, resetGame } = useOrientationGameStore();
+
+  const handleResetProgress = async (profileId: number) => {
+    await resetAllStatistics(profileId);
+    resetGame();
+  };
+
+  const toggles = [
+    { key: 'soundEnabled', label: '🔊 Sound Effects' },
+    { key: 'hapticEnabled', label: '📳 Haptic Feedback' },
+    { key: 'showHints', label: '💡 Show Hints' },
+  ] as const;
+
+  return (
+    <GameSettingsPanel
+      idPrefix="orientation-game"
+      onClose={onClose}
+      onResetProgress={handleResetProgress}
+    >
+      <DifficultySetting
+        idPrefix="orientation-game"
+        value={config.difficulty}
+        descriptions={{
+          easy: '🐢 Focuses on b/d, p/q and friends, slower pace',
+          auto: '🎯 Adaptive - focuses on confused characters',
+          hard: '🔥 Wider mix of characters, faster feedback',
+        }}
+        onChange={(difficulty) => updateConfig({ difficulty })}
+      />
+
+      <ChoiceSetting
+        id="orientation-game-character-type-setting"
+        label="Characters"
+        value={config.characterType}
+        options={['both', 'letter', 'number'] as const}
+        optionLabel={(characterType) => CHARACTER_TYPE_LABELS[characterType]}
+        onChange={(characterType) => updateConfig({ characterType })}
+      />
+
+      {config.characterType !== 'number' && (
+        <ChoiceSetting
+          id="orientation-game-case-setting"
+          label="Letter Case"
+          value={config.letterCase}
+          options={['both', 'uppercase', 'lowercase'] as const}
+          optionLabel={(letterCase) => CASE_LABELS[letterCase]}
+          onChange={(letterCase) => updateConfig({ letterCase })}
+        />
+      )}
+
+      <RoundSizeSetting
+        idPrefix="orientation-game"
+        value={config.roundSize}
+        min={5}
+        max={20}
+        unit="items"
+        onChange={(roundSize) => updateConfig({ roundSize })}
+      />
+
+      {toggles.map(({ key, label }) => (
+        <ToggleSetting
+          key={key}
+          id={`orientation-game-${key}-toggle`}
+          label={label}
+          checked={config[key]}
+          onChange={(checked) => updateConfig({ [key]: checked })}
+        />
+      ))}
+    </GameSettingsPanel>
+  );
+}
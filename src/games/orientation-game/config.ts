@@ -0,0 +1,15 @@
+/**
+ * Orientation Game Config
+ * Game metadata shown in the game list
+ */
+
+import type { GameConfig } from '@/types/game';
+
+export const orientationGameConfig: GameConfig = {
+  id: 'orientation-game',
+  name: 'Mirror Match',
+  description: 'Tap the letter or number that is facing the right way',
+  icon: '🪞',
+  itemType: 'letter',
+  defaultDifficulty: 'auto',
+};
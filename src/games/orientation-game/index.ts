@@ -0,0 +1,18 @@
+/**
+ * Orientation Game Module
+ * Exports game configuration and component for registry
+ */
+
+import type { GameModule } from '@/lib/games/registry';
+import { orientationGameConfig } from './config';
+import { OrientationGame } from './OrientationGame';
+import { SettingsPanel } from './components/SettingsPanel';
+
+export const orientationGameModule: GameModule = {
+  config: orientationGameConfig,
+  Component: OrientationGame,
+  SettingsComponent: SettingsPanel,
+};
+
+// Re-export the game component and config
+export { OrientationGame, orientationGameConfig };
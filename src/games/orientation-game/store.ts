@@ -0,0 +1,167 @@
+/**
+ * Orientation Game Store (Zustand)
+ * Manages game state, rounds, scoring, and configuration
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { OrientationGameConfig } from '@/types/game';
+import type { ChoiceSide, OrientationGameState } from '@/types/orientation-game';
+import { DEFAULT_ORIENTATION_GAME_CONFIG } from '@/types/orientation-game';
+import { FEEDBACK_DURATION, generateRound, recordAnswer as recordAnswerToDB } from './utils';
+import { createSessionId, recordAnswerEvent } from '@/lib/storage/statistics';
+import { useProfileStore } from '@/lib/profiles/store';
+import {
+  saveActiveProfileConfig,
+  syncConfigWithActiveProfile,
+} from '@/lib/profiles/game-config';
+
+export const useOrientationGameStore = create<OrientationGameState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      currentRound: 0,
+      roundItems: [],
+      currentIndex: 0,
+      currentScore: 0,
+      roundComplete: false,
+      showingFeedback: false,
+      lastChoice: null,
+      sessionId: null,
+      config: DEFAULT_ORIENTATION_GAME_CONFIG,
+
+      /**
+       * Start a new round
+       */
+      startNewRound: async () => {
+        const { currentRound, config, sessionId } = get();
+
+        // Get active profile
+        const activeProfileId = useProfileStore.getState().activeProfileId;
+        if (!activeProfileId) {
+          console.error('No active profile - cannot start round');
+          return;
+        }
+
+        const items = await generateRound(config, activeProfileId);
+
+        set({
+          currentRound: currentRound + 1,
+          roundItems: items,
+          currentIndex: 0,
+          currentScore: 0,
+          roundComplete: false,
+          showingFeedback: false,
+          lastChoice: null,
+          sessionId: sessionId ?? createSessionId(),
+        });
+      },
+
+      /**
+       * Handle a tap on one of the two cards
+       * Shows feedback, records the answer, then advances
+       */
+      handleChoice: async (choice: ChoiceSide, responseTimeMs?: number) => {
+        const {
+          roundItems,
+          currentIndex,
+          currentScore,
+          currentRound,
+          showingFeedback,
+          sessionId,
+          config,
+        } = get();
+
+        // Ignore taps while feedback is showing or after the round ended
+        if (showingFeedback || currentIndex >= roundItems.length) {
+          return;
+        }
+
+        // Get active profile
+        const activeProfileId = useProfileStore.getState().activeProfileId;
+        if (!activeProfileId) {
+          console.error('No active profile - cannot record answer');
+          return;
+        }
+
+        const currentItem = roundItems[currentIndex];
+        const correct = choice === currentItem.correctSide;
+
+        set({
+          showingFeedback: true,
+          lastChoice: choice,
+          currentScore: correct ? currentScore + 1 : currentScore,
+        });
+
+        // Record to database while feedback is displayed
+        await Promise.all([
+          recordAnswerToDB(currentItem, correct, activeProfileId, responseTimeMs),
+          recordAnswerEvent({
+            profileId: activeProfileId,
+            gameId: 'orientation-game',
+            itemId: currentItem.itemId,
+            correct,
+            roundNumber: currentRound,
+            sessionId: sessionId ?? createSessionId(),
+            responseTimeMs,
+          }),
+          new Promise((resolve) => setTimeout(resolve, FEEDBACK_DURATION[config.difficulty])),
+        ]);
+
+        get().nextItem();
+      },
+
+      /**
+       * Move to next item and clear feedback
+       */
+      nextItem: () => {
+        const { roundItems, currentIndex } = get();
+        const isLastItem = currentIndex >= roundItems.length - 1;
+
+        set({
+          currentIndex: currentIndex + 1,
+          showingFeedback: false,
+          lastChoice: null,
+          roundComplete: isLastItem,
+        });
+      },
+
+      /**
+       * Reset the game completely
+       */
+      resetGame: () => {
+        set({
+          currentRound: 0,
+          roundItems: [],
+          currentIndex: 0,
+          currentScore: 0,
+          roundComplete: false,
+          showingFeedback: false,
+          lastChoice: null,
+          sessionId: null,
+        });
+      },
+
+      /**
+       * Update game configuration (saved for the active profile)
+       */
+      updateConfig: (newConfig: Partial<OrientationGameConfig>) => {
+        const config = { ...get().config, ...newConfig };
+        set({ config });
+        saveActiveProfileConfig('orientation-game', config);
+      },
+    }),
+    {
+      name: 'orientation-game-storage',
+      partialize: (state) => ({
+        currentRound: state.currentRound,
+        // config is stored per profile in IndexedDB
+      }),
+    }
+  )
+);
+
+// Swap in the active profile's settings whenever the profile changes
+syncConfigWithActiveProfile('orientation-game', DEFAULT_ORIENTATION_GAME_CONFIG, (config) =>
+  useOrientationGameStore.setState({ config })
+);
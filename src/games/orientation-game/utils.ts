@@ -0,0 +1,195 @@
+/**
+ * Orientation Game Utilities
+ * Character sets, round generation, adaptive learning, and statistics
+ */
+
+import { db } from '@/lib/storage/db';
+import {
+  recordOrientationGameAnswer,
+  resetGameStatistics,
+} from '@/lib/storage/statistics';
+import { selectRound } from '@/lib/learning/selection-strategy';
+import type { OrientationGameConfig } from '@/types/game';
+import type { ChoiceSide, OrientationItem } from '@/types/orientation-game';
+
+type OrientationCharacter = Omit<OrientationItem, 'correctSide'>;
+
+/**
+ * Characters that are commonly reversed (appear more often)
+ */
+const HIGH_PRIORITY = ['b', 'd', 'p', 'q', 'N', 'Z', 'S', '2', '3', '5', '6', '9'];
+
+/**
+ * Characters eligible for the game
+ * Horizontally symmetric characters (A, H, O, 0, 8...) are left out because
+ * their mirror image is identical to the original
+ */
+const UPPERCASE_LETTERS = ['N', 'Z', 'S', 'B', 'C', 'D', 'E', 'F', 'G', 'J', 'K', 'L', 'P', 'R'];
+const LOWERCASE_LETTERS = ['b', 'd', 'p', 'q', 'a', 'c', 'e', 'f', 'g', 'h', 'j', 'k', 'n', 'r', 's', 'z'];
+const NUMBERS = ['2', '3', '5', '6', '9', '1', '4', '7'];
+
+/**
+ * Letters whose mirror image is another letter (b mirrors to d, p to q)
+ * Both cards are real letters, so the prompt has to name the target
+ */
+const MIRROR_PAIRS = ['b', 'd', 'p', 'q'];
+
+/**
+ * Whether the prompt must name the character for the pair to have one answer
+ */
+export function needsNamedTarget(item: OrientationCharacter): boolean {
+  return item.caseType === 'lowercase' && MIRROR_PAIRS.includes(item.character);
+}
+
+/**
+ * Weight multiplier for commonly reversed characters, per difficulty
+ * Easy focuses almost entirely on the classic reversals
+ */
+const PRIORITY_BOOST: Record<OrientationGameConfig['difficulty'], number> = {
+  easy: 2.5,
+  auto: 1.5,
+  hard: 1.2,
+};
+
+/**
+ * How long the result of a tap stays on screen before the next pair (ms)
+ */
+export const FEEDBACK_DURATION: Record<OrientationGameConfig['difficulty'], number> = {
+  easy: 1500,
+  auto: 1000,
+  hard: 600,
+};
+
+/**
+ * Build the statistics item id for a character
+ * Mirrors the format used by recordOrientationGameAnswer
+ */
+function toItemId(character: string, caseType: OrientationItem['caseType']): string {
+  return `${character}-${caseType === 'n/a' ? 'number' : caseType}`;
+}
+
+/**
+ * Get all characters allowed by the current configuration
+ */
+export function getCharacterPool(config: OrientationGameConfig): OrientationCharacter[] {
+  const pool: OrientationCharacter[] = [];
+
+  if (config.characterType !== 'number') {
+    if (config.letterCase !== 'lowercase') {
+      for (const character of UPPERCASE_LETTERS) {
+        pool.push({
+          itemId: toItemId(character, 'uppercase'),
+          character,
+          characterType: 'letter',
+          caseType: 'uppercase',
+        });
+      }
+    }
+
+    if (config.letterCase !== 'uppercase') {
+      for (const character of LOWERCASE_LETTERS) {
+        pool.push({
+          itemId: toItemId(character, 'lowercase'),
+          character,
+          characterType: 'letter',
+          caseType: 'lowercase',
+        });
+      }
+    }
+  }
+
+  if (config.characterType !== 'letter') {
+    for (const character of NUMBERS) {
+      pool.push({
+        itemId: toItemId(character, 'n/a'),
+        character,
+        characterType: 'number',
+        caseType: 'n/a',
+      });
+    }
+  }
+
+  return pool;
+}
+
+/**
+ * Assign the correct side for each item in a round
+ * Random, but never more than two in a row on the same side so the
+ * child can't get through a round by always tapping one card
+ */
+export function assignCorrectSides(count: number): ChoiceSide[] {
+  const sides: ChoiceSide[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const previous = sides[i - 1];
+    if (i >= 2 && previous === sides[i - 2]) {
+      sides.push(previous === 'left' ? 'right' : 'left');
+    } else {
+      sides.push(Math.random() > 0.5 ? 'left' : 'right');
+    }
+  }
+
+  return sides;
+}
+
+/**
+ * Generate a round based on statistics
+ * Struggling characters (high confusion score) plus commonly reversed
+ * characters are favoured by the shared selection strategy
+ */
+export async function generateRound(
+  config: OrientationGameConfig,
+  profileId: number
+): Promise<OrientationItem[]> {
+  // Fetch statistics for this profile only
+  const allStats = await db.orientationGameStatistics
+    .where('profileId')
+    .equals(profileId)
+    .toArray();
+
+  const statsById = new Map(allStats.map((stat) => [stat.itemId, stat]));
+  const boost = PRIORITY_BOOST[config.difficulty];
+
+  const selected = selectRound(
+    getCharacterPool(config).map((character) => ({
+      itemId: character.itemId,
+      value: character,
+      // successRate-based weighting mirrors confusionScore (1 - successRate)
+      stat: statsById.get(character.itemId),
+      boost: HIGH_PRIORITY.includes(character.character) ? boost : 1,
+    })),
+    { roundSize: config.roundSize, mode: config.difficulty }
+  );
+  const sides = assignCorrectSides(selected.length);
+
+  return selected.map((character, index) => ({
+    ...character,
+    correctSide: sides[index],
+  }));
+}
+
+/**
+ * Record an answer to the database
+ */
+export async function recordAnswer(
+  item: OrientationItem,
+  correct: boolean,
+  profileId: number,
+  responseTimeMs?: number
+): Promise<void> {
+  await recordOrientationGameAnswer(
+    item.character,
+    item.characterType,
+    item.caseType,
+    correct,
+    profileId,
+    responseTimeMs
+  );
+}
+
+/**
+ * Reset all orientation statistics for a specific profile
+ */
+export async function resetAllStatistics(profileId: number): Promise<void> {
+  await resetGameStatistics('orientation-game', profileId);
+}
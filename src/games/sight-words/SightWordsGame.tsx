@@ -0,0 +1,252 @@
+/**
+ * Sight Words Game - Main Game Component
+ * Swipe-based sight word reading game
+ */
+
+import { useRef, useState } from 'react';
+import { useChildMatches } from '@tanstack/react-router';
+import { useSightWordsStore } from './store';
+import { RoundSummary } from '@/components/shared/RoundSummary';
+import { GameContainer } from '@/components/shared/GameContainer';
+import { Button } from '@/components/shared/Button';
+import { SwipeCard } from '@/components/shared/SwipeCard';
+import { useGameNavigation } from '@/hooks/useGameNavigation';
+import { useGameAudio } from '@/hooks/useGameAudio';
+import { useGameHaptics } from '@/hooks/useGameHaptics';
+import { STREAK_MILESTONE } from '@/lib/haptics/haptics';
+import type { AnswerOutcome } from '@/types/game';
+import type { SwipeDirection } from '@/types/sight-words';
+
+export function SightWordsGame() {
+  const {
+    currentRound,
+    sessionWords,
+    currentIndex,
+    currentScore,
+    currentSkipped,
+    roundComplete,
+    config,
+    startNewRound,
+    recordAnswer,
+  } = useSightWordsStore();
+  const { playSound, say } = useGameAudio(config.soundEnabled);
+  const { haptic } = useGameHaptics(config.hapticEnabled);
+  const streak = useRef(0); // Correct answers in a row
+
+  const { goHome, openSettings, openProgress } = useGameNavigation('sight-words');
+  const [isStarted, setIsStarted] = useState(false);
+  const overlayOpen = useChildMatches().length > 0; // Settings or progress on top of the game
+  const keyboardEnabled = config.keyboardShortcuts && !overlayOpen;
+
+  const handleStart = async () => {
+    await startNewRound();
+    streak.current = 0;
+    setIsStarted(true);
+  };
+
+  const handleSwipe = (direction: SwipeDirection, responseTimeMs: number) => {
+    if (direction === null) return;
+
+    const outcome: AnswerOutcome =
+      direction === 'up' ? 'skipped' : direction === 'right' ? 'correct' : 'incorrect';
+    const correct = outcome === 'correct';
+    const word = sessionWords[currentIndex];
+
+    // The last answer gets the round-complete fanfare from the summary instead
+    // Skips stay quiet: nothing was right or wrong
+    if (currentIndex < sessionWords.length - 1 && outcome !== 'skipped') {
+      playSound(correct ? 'correct' : 'incorrect');
+    }
+    if (config.speakWords && word) {
+      say(word);
+    }
+
+    // SwipeCard vibrates for the answer itself; streak milestones get their own pattern
+    streak.current = correct ? streak.current + 1 : 0;
+    if (streak.current > 0 && streak.current % STREAK_MILESTONE === 0) {
+      haptic('streak');
+    }
+
+    // Record answer asynchronously (don't block UI)
+    recordAnswer(outcome, responseTimeMs);
+  };
+
+  const handlePlayAgain = async () => {
+    await startNewRound();
+    streak.current = 0;
+    setIsStarted(true);
+  };
+
+  const handleBack = () => {
+    goHome();
+  };
+
+  const currentWord = sessionWords[currentIndex];
+  const totalWords = sessionWords.length;
+  const progress = totalWords > 0 ? `${currentIndex} / ${totalWords}` : '0 / 0';
+
+  // Welcome screen
+  if (!isStarted || currentRound === 0) {
+    return (
+      <GameContainer
+        title="Sight Words"
+        onBack={handleBack}
+      >
+        <div className="flex-1 flex flex-col items-center justify-center px-6 text-center">
+          {/* Icon with playful rotation */}
+          <div className="mb-8">
+            <div className="w-28 h-28 bg-yellow-300 rounded-3xl border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)] flex items-center justify-center transform rotate-6 mx-auto mb-6">
+              <span className="text-6xl">📖</span>
+            </div>
+
+            <h2 className="text-4xl font-black text-ink mb-6">
+              Sight Words
+            </h2>
+
+            {/* Instructions card */}
+            <div className="bg-surface rounded-[32px] border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)] p-6 max-w-md mx-auto mb-8">
+              <div className="space-y-3 text-left">
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-teal-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">1</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Show your child the word
+                  </p>
+                </div>
+
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-yellow-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">2</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Ask: "What word is this?"
+                  </p>
+                </div>
+
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-coral-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">3</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Swipe ➡️ correct, ⬅️ incorrect
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-3 w-full max-w-xs">
+            <Button
+              variant="primary"
+              onClick={handleStart}
+              className="w-full !bg-teal-200 hover:!bg-teal-300 active:!bg-teal-400"
+              id="sight-words-start-button"
+            >
+              🎮 Start Round
+            </Button>
+
+            <Button
+              variant="secondary"
+              onClick={openProgress}
+              className="w-full !bg-yellow-200 hover:!bg-yellow-300 !shadow-[4px_4px_0px_0px_var(--color-shadow)]"
+              id="sight-words-welcome-progress-button"
+            >
+              📊 View Progress
+            </Button>
+
+            <Button
+              variant="ghost"
+              onClick={openSettings}
+              className="w-full"
+              id="sight-words-welcome-settings-button"
+            >
+              ⚙️ Settings
+            </Button>
+          </div>
+        </div>
+      </GameContainer>
+    );
+  }
+
+  // Round summary screen
+  if (roundComplete) {
+    return (
+      <RoundSummary
+        idPrefix="sight-words"
+        totalAttempts={totalWords}
+        correctCount={currentScore}
+        incorrectCount={totalWords - currentScore - currentSkipped}
+        skippedCount={currentSkipped}
+        roundNumber={currentRound}
+        soundEnabled={config.soundEnabled}
+        hapticEnabled={config.hapticEnabled}
+        onPlayAgain={handlePlayAgain}
+        onHome={handleBack}
+        onSettings={openSettings}
+        onViewProgress={openProgress}
+        progressLabel="View Word Progress"
+      />
+    );
+  }
+
+  // Active gameplay
+  return (
+    <GameContainer
+      title="Sight Words"
+      onBack={handleBack}
+    >
+      {/* Header - Score and Settings */}
+      <div className="w-full flex items-center justify-between px-6 py-4">
+        <button
+          onClick={openSettings}
+          className="w-14 h-14 bg-yellow-300 rounded-2xl border-[3px] border-ink flex items-center justify-center hover:bg-yellow-400 active:bg-yellow-500 transition-colors shadow-[3px_3px_0px_0px_var(--color-shadow)] active:shadow-none active:translate-x-[3px] active:translate-y-[3px]"
+          aria-label="Settings"
+          id="sight-words-settings-button"
+        >
+          <span className="text-2xl">⚙️</span>
+        </button>
+
+        <div
+          className="bg-surface px-5 py-2 rounded-full border-[3px] border-ink shadow-[3px_3px_0px_0px_var(--color-shadow)]"
+          id="sight-words-score-display"
+        >
+          <span className="text-lg font-black text-ink">
+            {currentScore} / {currentIndex}
+          </span>
+        </div>
+      </div>
+
+      {/* Main game area - Swipe card */}
+      <div className="flex-1 flex items-center justify-center px-6">
+        {currentWord && (
+          <SwipeCard
+            key={`${currentWord}-${currentIndex}`}
+            itemKey={currentWord}
+            content={currentWord}
+            variant="word"
+            label={`Word ${currentWord}`}
+            roleDescription="word card"
+            idPrefix="sight-words"
+            onSwipe={handleSwipe}
+            hapticEnabled={config.hapticEnabled}
+            showAnswerButtons={config.answerButtons}
+            keyboardEnabled={keyboardEnabled}
+          />
+        )}
+      </div>
+
+      {/* Progress footer */}
+      <div className="px-6 py-4 flex justify-center">
+        <div
+          className="bg-teal-200 px-6 py-2 rounded-full border-[2px] border-ink"
+          id="sight-words-progress-display"
+        >
+          <span className="text-sm font-bold text-ink">
+            Round {currentRound} • {progress}
+          </span>
+        </div>
+      </div>
+    </GameContainer>
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * SettingsPanel Component
+ * Configuration options for Sight Words game
+ */
+
+import { useSightWordsStore } from '../store';
+import { getWordPool, resetAllStatistics } from '../utils';
+import { SIGHT_WORD_LISTS } from '../word-lists';
+import {
+  GameSettingsPanel,
+  DifficultySetting,
+  RoundSizeSetting,
+  ToggleSetting,
+} from '@/components/shared/SettingsControls';
+import type { SightWordListId } from '@/types/game';
+
+interface SettingsPanelProps {
+  onClose: () => void;
+  onViewProgress?: () => void;
+}
+
+export function SettingsPanel({ onClose, onViewProgress }: SettingsPanelProps) {
+  const { config, updateConfig, resetGame } = useSightWordsStore();
+  const wordCount = getWordPool(config).length;
+
+  // Turning off the last list would leave nothing to practice
+  const toggleList = (listId: SightWordListId) => {
+    const enabledLists = config.enabledLists.includes(listId)
+      ? config.enabledLists.filter((id) => id !== listId)
+      : [...config.enabledLists, listId];
+    if (enabledLists.length === 0) return;
+    updateConfig({ enabledLists });
+  };
+
+  const handleResetProgress = async (profileId: number) => {
+    await resetAllStatistics(profileId);
+    resetGame();
+  };
+
+  return (
+    <GameSettingsPanel
+      idPrefix="sight-words"
+      onClose={onClose}
+      onResetProgress={handleResetProgress}
+      onViewProgress={onViewProgress}
+      progressLabel="View Word Progress"
+    >
+      <DifficultySetting
+        idPrefix="sight-words"
+        value={config.difficulty}
+        descriptions={{
+          easy: '📊 Even distribution of all words',
+          auto: '🎯 Adaptive - focuses on struggling words',
+          hard: '🔥 Heavily focuses on incorrect words',
+          spaced: '🗓️ Spaced review - words come back when they are due',
+        }}
+        onChange={(difficulty) => updateConfig({ difficulty })}
+      />
+
+      {/* Word Lists */}
+      <div id="sight-words-lists-setting">
+        <label className="block text-sm font-bold text-ink mb-3">
+          Word Lists
+        </label>
+        <div className="space-y-2">
+          {SIGHT_WORD_LISTS.map((list) => {
+            const enabled = config.enabledLists.includes(list.id);
+            return (
+              <button
+                key={list.id}
+                onClick={() => toggleList(list.id)}
+                aria-pressed={enabled}
+                className={`w-full flex items-center justify-between py-2 px-4 rounded-2xl font-bold transition-all border-[2px] border-ink ${
+                  enabled
+                    ? 'bg-teal-400 text-ink shadow-[3px_3px_0px_0px_var(--color-shadow)]'
+                    : 'bg-surface text-ink hover:bg-teal-100'
+                }`}
+                id={`sight-words-list-${list.id}-toggle`}
+              >
+                <span>
+                  {enabled ? '✓ ' : ''}
+                  {list.name}
+                </span>
+                <span className="text-xs font-semibold">
+                  {list.source} • {list.words.length} words
+                </span>
+              </button>
+            );
+          })}
+        </div>
+        <p className="text-xs font-semibold text-ink mt-2 bg-yellow-50 p-2 rounded-xl border-[2px] border-ink">
+          📚 {wordCount} words in play. At least one list stays on.
+        </p>
+      </div>
+
+      <RoundSizeSetting
+        idPrefix="sight-words"
+        value={config.roundSize}
+        min={5}
+        max={30}
+        unit="words"
+        onChange={(roundSize) => updateConfig({ roundSize })}
+      />
+
+      <ToggleSetting
+        id="sight-words-sound-enabled-toggle"
+        label="🔊 Sound Effects"
+        checked={config.soundEnabled}
+        onChange={(soundEnabled) => updateConfig({ soundEnabled })}
+      />
+
+      <ToggleSetting
+        id="sight-words-speak-words-toggle"
+        label="🗣️ Say Words"
+        checked={config.speakWords}
+        disabled={!config.soundEnabled}
+        onChange={(speakWords) => updateConfig({ speakWords })}
+      />
+
+      <ToggleSetting
+        id="sight-words-haptic-enabled-toggle"
+        label="📳 Haptic Feedback"
+        checked={config.hapticEnabled}
+        onChange={(hapticEnabled) => updateConfig({ hapticEnabled })}
+      />
+
+      <ToggleSetting
+        id="sight-words-answer-buttons-toggle"
+        label="✅ Answer Buttons"
+        checked={config.answerButtons}
+        onChange={(answerButtons) => updateConfig({ answerButtons })}
+      />
+
+      <ToggleSetting
+        id="sight-words-keyboard-shortcuts-toggle"
+        label="⌨️ Keyboard Shortcuts"
+        checked={config.keyboardShortcuts}
+        onChange={(keyboardShortcuts) => updateConfig({ keyboardShortcuts })}
+      />
+
+      <p className="text-xs font-semibold text-ink bg-yellow-50 p-2 rounded-xl border-[2px] border-ink" id="sight-words-controls-description">
+        ✓/✗ buttons answer without swiping. Keys: → or Y correct, ← or N wrong, Space skip.
+      </p>
+    </GameSettingsPanel>
+  );
+}
@@ -0,0 +1,213 @@
+/**
+ * WordProgress Component
+ * Shows success rates for every word, grouped by word list
+ */
+
+import { useEffect, useState } from 'react';
+import { db } from '@/lib/storage/db';
+import { useProfileStore } from '@/lib/profiles/store';
+import { Button } from '@/components/shared/Button';
+import { useSightWordsStore } from '../store';
+import { getWordPool } from '../utils';
+import { SIGHT_WORD_LISTS } from '../word-lists';
+import type { SightWordStatistics } from '@/types/game';
+
+interface WordProgressProps {
+  onClose: () => void;
+}
+
+export function WordProgress({ onClose }: WordProgressProps) {
+  const [wordStats, setWordStats] = useState<Map<string, SightWordStatistics>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const config = useSightWordsStore((state) => state.config);
+  const { activeProfileId, getActiveProfile } = useProfileStore();
+  const activeProfile = getActiveProfile();
+
+  useEffect(() => {
+    if (!activeProfileId) return;
+
+    const loadWordStats = async () => {
+      setIsLoading(true);
+
+      const allStats = await db.sightWordStatistics
+        .where('profileId')
+        .equals(activeProfileId)
+        .toArray();
+
+      setWordStats(new Map(allStats.map((stat) => [stat.word, stat])));
+      setIsLoading(false);
+    };
+
+    loadWordStats();
+  }, [activeProfileId]);
+
+  const getColorClass = (successRate: number, attempts: number) => {
+    if (attempts === 0) return 'bg-gray-200 border-gray-400';
+    if (successRate >= 0.8) return 'bg-teal-200 border-teal-600';
+    if (successRate >= 0.6) return 'bg-yellow-200 border-yellow-600';
+    return 'bg-coral-200 border-coral-500';
+  };
+
+  const formatResponseTime = (ms?: number) =>
+    ms === undefined ? '' : `⏱️ ${(ms / 1000).toFixed(1)}s`;
+
+  const getLabel = (successRate: number, attempts: number) => {
+    if (attempts === 0) return 'Not tried';
+    if (successRate >= 0.8) return 'Great!';
+    if (successRate >= 0.6) return 'Good';
+    return 'Practice';
+  };
+
+  // The summary counts words in the enabled lists, each once
+  const attempted = getWordPool(config)
+    .map((word) => wordStats.get(word))
+    .filter((stat): stat is SightWordStatistics => stat !== undefined && stat.totalAttempts > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-backdrop flex items-center justify-center p-4">
+      <div className="w-full max-w-4xl h-full max-h-[90vh] bg-[#f7f7f7] rounded-[32px] border-[3px] border-ink shadow-[8px_8px_0px_0px_var(--color-shadow)] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 bg-yellow-300 border-b-[3px] border-ink">
+          <h1 className="text-2xl font-black text-ink">Word Progress</h1>
+          <button
+            onClick={onClose}
+            className="w-12 h-12 rounded-xl bg-coral-400 border-[3px] border-ink flex items-center justify-center hover:bg-coral-500 transition-colors shadow-[3px_3px_0px_0px_var(--color-shadow)] active:shadow-none active:translate-x-[3px] active:translate-y-[3px]"
+            aria-label="Close"
+          >
+            <span className="text-2xl font-black">✕</span>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-6">
+        {/* Header */}
+        <div className="mb-6 text-center">
+          <div className="inline-flex items-center gap-3 mb-4">
+            <div className="w-16 h-16 bg-yellow-300 rounded-2xl border-[3px] border-ink shadow-[4px_4px_0px_0px_var(--color-shadow)] flex items-center justify-center transform rotate-3">
+              <span className="text-4xl">📊</span>
+            </div>
+            <div className="text-left">
+              <h2 className="text-3xl font-black text-ink">
+                {activeProfile?.name}'s Progress
+              </h2>
+              <p className="text-sm font-semibold text-ink-muted">
+                Success rate and typical answer time for each word
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {/* Legend */}
+        <div className="mb-6 flex flex-wrap gap-2 justify-center">
+          <div className="px-3 py-1 bg-teal-200 rounded-full border-[2px] border-teal-600 text-xs font-bold">
+            🟢 Great (80%+)
+          </div>
+          <div className="px-3 py-1 bg-yellow-200 rounded-full border-[2px] border-yellow-600 text-xs font-bold">
+            🟡 Good (60-79%)
+          </div>
+          <div className="px-3 py-1 bg-coral-200 rounded-full border-[2px] border-coral-500 text-xs font-bold">
+            🔴 Practice (&lt;60%)
+          </div>
+          <div className="px-3 py-1 bg-gray-200 rounded-full border-[2px] border-gray-400 text-xs font-bold">
+            ⚪ Not tried
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="text-4xl mb-4">⏳</div>
+            <p className="text-lg font-semibold text-ink-muted">Loading progress...</p>
+          </div>
+        ) : (
+          <>
+            {/* Word Grid - one section per list, disabled lists dimmed */}
+            <div className="space-y-6">
+              {SIGHT_WORD_LISTS.map((list) => (
+                <div
+                  key={list.id}
+                  className={config.enabledLists.includes(list.id) ? '' : 'opacity-50'}
+                  id={`word-progress-list-${list.id}`}
+                >
+                  <h3 className="text-lg font-black text-ink mb-3">
+                    {list.name}{' '}
+                    <span className="text-sm font-semibold text-ink-muted">({list.source})</span>
+                  </h3>
+                  <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-3">
+                    {list.words.map((word) => {
+                      const stat = wordStats.get(word);
+                      const totalAttempts = stat?.totalAttempts || 0;
+                      const successRate = stat?.successRate || 0;
+
+                      return (
+                        <div
+                          key={word}
+                          className={`rounded-2xl border-[3px] shadow-[3px_3px_0px_0px_var(--color-shadow)] flex flex-col items-center justify-center p-2 ${getColorClass(
+                            successRate,
+                            totalAttempts
+                          )}`}
+                          id={`word-progress-${list.id}-${word}`}
+                        >
+                          <div className="text-2xl font-black text-ink mb-1">
+                            {word}
+                          </div>
+                          <div className="text-xs font-bold text-ink">
+                            {totalAttempts > 0
+                              ? `${Math.round(successRate * 100)}%`
+                              : '—'}
+                          </div>
+                          <div className="text-[10px] font-semibold text-ink-muted">
+                            {getLabel(successRate, totalAttempts)}
+                          </div>
+                          <div className="text-[10px] font-semibold text-ink-muted">
+                            {formatResponseTime(stat?.medianResponseTime)}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Summary Stats */}
+            <div className="mt-8 bg-surface rounded-[24px] border-[3px] border-ink shadow-[4px_4px_0px_0px_var(--color-shadow)] p-5">
+              <h3 className="text-lg font-black text-ink mb-3">Summary</h3>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="text-center">
+                  <div className="text-2xl font-black text-teal-600">
+                    {attempted.filter((s) => s.successRate >= 0.8).length}
+                  </div>
+                  <div className="text-xs font-semibold text-ink-muted">Mastered</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-black text-yellow-600">
+                    {attempted.filter((s) => s.successRate >= 0.6 && s.successRate < 0.8).length}
+                  </div>
+                  <div className="text-xs font-semibold text-ink-muted">Learning</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-2xl font-black text-coral-600">
+                    {attempted.filter((s) => s.successRate < 0.6).length}
+                  </div>
+                  <div className="text-xs font-semibold text-ink-muted">Practice</div>
+                </div>
+              </div>
+            </div>
+
+            {/* Close Button */}
+            <div className="mt-6">
+              <Button
+                variant="primary"
+                onClick={onClose}
+                className="w-full"
+                id="word-progress-close"
+              >
+                Done
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+/**
+ * Sight Words Game Config
+ * Game metadata shown in the game list
+ */
+
+import type { GameConfig } from '@/types/game';
+
+export const sightWordsConfig: GameConfig = {
+  id: 'sight-words',
+  name: 'Sight Words',
+  description: 'Swipe to read common words from kindergarten word lists',
+  icon: '📖',
+  itemType: 'word',
+  defaultDifficulty: 'auto',
+};
@@ -0,0 +1,20 @@
+/**
+ * Sight Words Game Module
+ * Exports game configuration and component for registry
+ */
+
+import type { GameModule } from '@/lib/games/registry';
+import { sightWordsConfig } from './config';
+import { SightWordsGame } from './SightWordsGame';
+import { SettingsPanel } from './components/SettingsPanel';
+import { WordProgress } from './components/WordProgress';
+
+export const sightWordsModule: GameModule = {
+  config: sightWordsConfig,
+  Component: SightWordsGame,
+  SettingsComponent: SettingsPanel,
+  ProgressComponent: WordProgress,
+};
+
+// Re-export the game component and config
+export { SightWordsGame, sightWordsConfig };
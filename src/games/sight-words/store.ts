@@ -0,0 +1,155 @@
+/**
+ * Sight Words Game Store (Zustand)
+ * Manages game state, rounds, scoring, and configuration
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { AnswerOutcome, SightWordsConfig } from '@/types/game';
+import type { SightWordsState } from '@/types/sight-words';
+import { DEFAULT_SIGHT_WORDS_CONFIG } from '@/types/sight-words';
+import { generateRound, recordAnswer as recordAnswerToDB } from './utils';
+import {
+  createSessionId,
+  recordAnswerEvent,
+  updateReviewSchedule,
+} from '@/lib/storage/statistics';
+import { useProfileStore } from '@/lib/profiles/store';
+import {
+  saveActiveProfileConfig,
+  syncConfigWithActiveProfile,
+} from '@/lib/profiles/game-config';
+
+export const useSightWordsStore = create<SightWordsState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      currentRound: 0,
+      sessionWords: [],
+      currentIndex: 0,
+      currentScore: 0,
+      currentSkipped: 0,
+      roundComplete: false,
+      sessionId: null,
+      config: DEFAULT_SIGHT_WORDS_CONFIG,
+
+      /**
+       * Start a new round
+       */
+      startNewRound: async () => {
+        const { currentRound, config, sessionId } = get();
+
+        // Get active profile
+        const activeProfileId = useProfileStore.getState().activeProfileId;
+        if (!activeProfileId) {
+          console.error('No active profile - cannot start round');
+          return;
+        }
+
+        const words = await generateRound(config, activeProfileId);
+
+        set({
+          currentRound: currentRound + 1,
+          sessionWords: words,
+          currentIndex: 0,
+          currentScore: 0,
+          currentSkipped: 0,
+          roundComplete: false,
+          sessionId: sessionId ?? createSessionId(),
+        });
+      },
+
+      /**
+       * Record an answer and move to next word
+       * Skipped words leave the review schedule untouched (the word stays due)
+       */
+      recordAnswer: async (outcome: AnswerOutcome, responseTimeMs?: number) => {
+        const {
+          sessionWords,
+          currentIndex,
+          currentScore,
+          currentSkipped,
+          currentRound,
+          sessionId,
+        } = get();
+
+        if (currentIndex >= sessionWords.length) {
+          return; // Round already complete
+        }
+
+        // Get active profile
+        const activeProfileId = useProfileStore.getState().activeProfileId;
+        if (!activeProfileId) {
+          console.error('No active profile - cannot record answer');
+          return;
+        }
+
+        const currentWord = sessionWords[currentIndex];
+        const correct = outcome === 'correct';
+        const skipped = outcome === 'skipped';
+
+        // Move on right away; the card has already animated out
+        set({
+          currentScore: correct ? currentScore + 1 : currentScore,
+          currentSkipped: skipped ? currentSkipped + 1 : currentSkipped,
+          currentIndex: currentIndex + 1,
+          roundComplete: currentIndex === sessionWords.length - 1,
+        });
+
+        // Record to database (running totals, event log and review schedule)
+        await Promise.all([
+          recordAnswerToDB(currentWord, outcome, activeProfileId, responseTimeMs),
+          skipped
+            ? null
+            : updateReviewSchedule(activeProfileId, 'sight-words', currentWord, correct),
+          recordAnswerEvent({
+            profileId: activeProfileId,
+            gameId: 'sight-words',
+            itemId: currentWord,
+            correct,
+            ...(skipped && { skipped }),
+            roundNumber: currentRound,
+            sessionId: sessionId ?? createSessionId(),
+            responseTimeMs,
+          }),
+        ]);
+      },
+
+      /**
+       * Reset the game completely
+       */
+      resetGame: () => {
+        set({
+          currentRound: 0,
+          sessionWords: [],
+          currentIndex: 0,
+          currentScore: 0,
+          currentSkipped: 0,
+          roundComplete: false,
+          sessionId: null,
+        });
+      },
+
+      /**
+       * Update game configuration (saved for the active profile)
+       */
+      updateConfig: (newConfig: Partial<SightWordsConfig>) => {
+        const config = { ...get().config, ...newConfig };
+        set({ config });
+        saveActiveProfileConfig('sight-words', config);
+      },
+    }),
+    {
+      name: 'sight-words-storage',
+      partialize: (state) => ({
+        currentRound: state.currentRound,
+        // config is stored per profile in IndexedDB
+      }),
+    }
+  )
+);
+
+// Swap in the active profile's settings whenever the profile changes
+syncConfigWithActiveProfile('sight-words', DEFAULT_SIGHT_WORDS_CONFIG, (config) =>
+  useSightWordsStore.setState({ config })
+);
@@ -0,0 +1,114 @@
+/**
+ * Sight Words Game Utilities
+ * Helper functions for round generation, adaptive learning, and statistics
+ */
+
+import { db } from '@/lib/storage/db';
+import {
+  applyResponseTime,
+  getReviewSchedules,
+  resetGameStatistics,
+} from '@/lib/storage/statistics';
+import { selectRound } from '@/lib/learning/selection-strategy';
+import { SIGHT_WORD_LISTS } from './word-lists';
+import type { AnswerOutcome, SightWordStatistics, SightWordsConfig } from '@/types/game';
+
+/**
+ * All words in the enabled lists, each once (lists overlap)
+ */
+export function getWordPool(config: SightWordsConfig): string[] {
+  const words = SIGHT_WORD_LISTS
+    .filter((list) => config.enabledLists.includes(list.id))
+    .flatMap((list) => list.words);
+
+  return Array.from(new Set(words));
+}
+
+/**
+ * Generate a round based on statistics
+ * Uses the selection strategy for the configured mode to prioritize
+ * struggling (or due) words; words never tried count as struggling
+ */
+export async function generateRound(
+  config: SightWordsConfig,
+  profileId: number
+): Promise<string[]> {
+  // Fetch statistics and review schedules for this profile only
+  const [allStats, schedules] = await Promise.all([
+    db.sightWordStatistics.where('profileId').equals(profileId).toArray(),
+    getReviewSchedules(profileId, 'sight-words'),
+  ]);
+
+  const statsById = new Map(allStats.map((stat) => [stat.itemId, stat]));
+
+  return selectRound(
+    getWordPool(config).map((word) => ({
+      itemId: word,
+      value: word,
+      stat: statsById.get(word),
+      schedule: schedules.get(word),
+    })),
+    { roundSize: config.roundSize, mode: config.difficulty }
+  );
+}
+
+/**
+ * Record an answer to the database
+ * Skipped words only count towards skippedCount, not the success rate
+ */
+export async function recordAnswer(
+  word: string,
+  outcome: AnswerOutcome,
+  profileId: number,
+  responseTimeMs?: number
+): Promise<void> {
+  // Get existing statistics or create new
+  let stat: SightWordStatistics | undefined = await db.sightWordStatistics
+    .where('[profileId+word]')
+    .equals([profileId, word])
+    .first();
+
+  if (!stat) {
+    stat = {
+      gameId: 'sight-words',
+      profileId,
+      itemId: word,
+      word,
+      totalAttempts: 0,
+      correctCount: 0,
+      incorrectCount: 0,
+      lastAttempt: new Date(),
+      successRate: 0,
+    };
+  }
+
+  stat.lastAttempt = new Date();
+
+  if (outcome === 'skipped') {
+    stat.skippedCount = (stat.skippedCount ?? 0) + 1;
+    await db.sightWordStatistics.put(stat);
+    return;
+  }
+
+  // Update counts
+  stat.totalAttempts++;
+  if (outcome === 'correct') {
+    stat.correctCount++;
+  } else {
+    stat.incorrectCount++;
+  }
+
+  // Recalculate success rate
+  stat.successRate = stat.correctCount / stat.totalAttempts;
+  applyResponseTime(stat, responseTimeMs);
+
+  // Save to database
+  await db.sightWordStatistics.put(stat);
+}
+
+/**
+ * Reset all sight word statistics for a specific profile
+ */
+export async function resetAllStatistics(profileId: number): Promise<void> {
+  await resetGameStatistics('sight-words', profileId);
+}
@@ -0,0 +1,47 @@
+/**
+ * Sight Word Lists
+ * Bundled high-frequency word lists for kindergarten
+ */
+
+import type { SightWordList } from '@/types/sight-words';
+
+/**
+ * Dolch pre-primer and primer lists, plus the first 25 Fry words
+ * Words are stored as they are printed ("I" stays uppercase)
+ */
+export const SIGHT_WORD_LISTS: SightWordList[] = [
+  {
+    id: 'pre-primer',
+    name: 'Pre-Primer',
+    source: 'Dolch',
+    words: [
+      'a', 'and', 'away', 'big', 'blue', 'can', 'come', 'down', 'find', 'for',
+      'funny', 'go', 'help', 'here', 'I', 'in', 'is', 'it', 'jump', 'little',
+      'look', 'make', 'me', 'my', 'not', 'one', 'play', 'red', 'run', 'said',
+      'see', 'the', 'three', 'to', 'two', 'up', 'we', 'where', 'yellow', 'you',
+    ],
+  },
+  {
+    id: 'primer',
+    name: 'Primer',
+    source: 'Dolch',
+    words: [
+      'all', 'am', 'are', 'at', 'ate', 'be', 'black', 'brown', 'but', 'came',
+      'did', 'do', 'eat', 'four', 'get', 'good', 'have', 'he', 'into', 'like',
+      'must', 'new', 'no', 'now', 'on', 'our', 'out', 'please', 'pretty', 'ran',
+      'ride', 'saw', 'say', 'she', 'so', 'soon', 'that', 'there', 'they', 'this',
+      'too', 'under', 'want', 'was', 'well', 'went', 'what', 'white', 'who', 'will',
+      'with', 'yes',
+    ],
+  },
+  {
+    id: 'kindergarten',
+    name: 'Kindergarten',
+    source: 'Fry 1–25',
+    words: [
+      'the', 'of', 'and', 'a', 'to', 'in', 'is', 'you', 'that', 'it',
+      'he', 'was', 'for', 'on', 'are', 'as', 'with', 'his', 'they', 'I',
+      'at', 'be', 'this', 'have', 'from',
+    ],
+  },
+];
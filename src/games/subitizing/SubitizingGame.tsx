@@ -0,0 +1,279 @@
+/**
+ * Subitizing - Main Game Component
+ * A dot pattern flashes briefly; tap how many dots there were
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useSubitizingStore } from './store';
+import { DotPattern } from './components/DotPattern';
+import { RoundSummary } from '@/components/shared/RoundSummary';
+import { GameContainer } from '@/components/shared/GameContainer';
+import { Button } from '@/components/shared/Button';
+import { Card } from '@/components/shared/Card';
+import { ScoreDisplay } from '@/components/shared/ScoreDisplay';
+import { ChoiceCard, type ChoiceCardFeedback } from '@/components/shared/ChoiceCard';
+import { useGameNavigation } from '@/hooks/useGameNavigation';
+import { useGameAudio } from '@/hooks/useGameAudio';
+import { useGameHaptics } from '@/hooks/useGameHaptics';
+import { STREAK_MILESTONE } from '@/lib/haptics/haptics';
+
+export function SubitizingGame() {
+  const {
+    currentRound,
+    roundItems,
+    currentIndex,
+    currentScore,
+    roundComplete,
+    showingFeedback,
+    lastChoice,
+    config,
+    startNewRound,
+    handleChoice,
+  } = useSubitizingStore();
+
+  const { goHome, openSettings, openProgress } = useGameNavigation('subitizing');
+  const { playSound, say } = useGameAudio(config.soundEnabled);
+  const { haptic } = useGameHaptics(config.hapticEnabled);
+  const streak = useRef(0); // Correct answers in a row
+  const shownAt = useRef(performance.now()); // When the current pattern appeared
+  const [isStarted, setIsStarted] = useState(false);
+  const [isFlashing, setIsFlashing] = useState(false); // Pattern visible before answering
+
+  const currentItem = roundItems[currentIndex];
+
+  // Flash each new pattern and start timing from there
+  // The duration is read when the pattern appears: adapting it after an
+  // answer must not restart the flash of the pattern being answered
+  useEffect(() => {
+    if (!isStarted || !currentItem) return;
+    shownAt.current = performance.now();
+    setIsFlashing(true);
+
+    const { displayDuration } = useSubitizingStore.getState().config;
+    const timer = setTimeout(() => setIsFlashing(false), displayDuration);
+    return () => clearTimeout(timer);
+  }, [isStarted, currentItem]);
+
+  const handleStart = async () => {
+    await startNewRound();
+    streak.current = 0;
+    setIsStarted(true);
+  };
+
+  const handleSelect = (value: string) => {
+    if (showingFeedback || !currentItem) return;
+
+    const choice = Number(value);
+    const correct = choice === currentItem.quantity;
+
+    // The last answer gets the round-complete fanfare from the summary instead
+    if (currentIndex < roundItems.length - 1) {
+      playSound(correct ? 'correct' : 'incorrect');
+    }
+
+    // Streak milestones replace the regular correct pattern
+    streak.current = correct ? streak.current + 1 : 0;
+    if (streak.current > 0 && streak.current % STREAK_MILESTONE === 0) {
+      haptic('streak');
+    } else {
+      haptic(correct ? 'correct' : 'incorrect');
+    }
+
+    // Hearing the right number helps after a wrong guess too
+    if (config.speakNumbers) {
+      say(String(currentItem.quantity));
+    }
+
+    handleChoice(choice, performance.now() - shownAt.current);
+  };
+
+  const handleBack = () => {
+    goHome();
+  };
+
+  const totalItems = roundItems.length;
+  const progress = totalItems > 0 ? `${currentIndex} / ${totalItems}` : '0 / 0';
+
+  const getFeedback = (choice: number): ChoiceCardFeedback => {
+    if (!showingFeedback || !currentItem) return 'none';
+    if (choice === lastChoice) {
+      return choice === currentItem.quantity ? 'correct' : 'incorrect';
+    }
+    return choice === currentItem.quantity ? 'reveal' : 'none';
+  };
+
+  // Welcome screen
+  if (!isStarted || currentRound === 0) {
+    return (
+      <GameContainer
+        title="Quick Look"
+        onBack={handleBack}
+      >
+        <div className="flex-1 flex flex-col items-center justify-center px-6 text-center">
+          {/* Icon with playful rotation */}
+          <div className="mb-8">
+            <div className="w-28 h-28 bg-teal-300 rounded-3xl border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)] flex items-center justify-center transform rotate-6 mx-auto mb-6">
+              <span className="text-6xl">🎲</span>
+            </div>
+
+            <h2 className="text-4xl font-black text-ink mb-6">
+              Quick Look
+            </h2>
+
+            {/* Instructions card */}
+            <Card className="p-6 max-w-md mx-auto mb-8">
+              <div className="space-y-3 text-left">
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-teal-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">1</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Watch closely, the dots disappear fast 👀
+                  </p>
+                </div>
+
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-yellow-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">2</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    No time to count: how many did you see?
+                  </p>
+                </div>
+
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-coral-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">3</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Tap the number!
+                  </p>
+                </div>
+              </div>
+            </Card>
+          </div>
+
+          <div className="space-y-3 w-full max-w-xs">
+            <Button
+              variant="primary"
+              onClick={handleStart}
+              className="w-full"
+              id="subitizing-start-button"
+            >
+              🎮 Start Round
+            </Button>
+
+            <Button
+              variant="ghost"
+              onClick={openSettings}
+              className="w-full"
+              id="subitizing-welcome-settings-button"
+            >
+              ⚙️ Settings
+            </Button>
+          </div>
+        </div>
+      </GameContainer>
+    );
+  }
+
+  // Round summary screen
+  if (roundComplete) {
+    return (
+      <RoundSummary
+        idPrefix="subitizing"
+        totalAttempts={totalItems}
+        correctCount={currentScore}
+        incorrectCount={totalItems - currentScore}
+        roundNumber={currentRound}
+        soundEnabled={config.soundEnabled}
+        hapticEnabled={config.hapticEnabled}
+        onPlayAgain={handleStart}
+        onViewProgress={openProgress}
+        onHome={handleBack}
+        onSettings={openSettings}
+      />
+    );
+  }
+
+  // Active gameplay
+  return (
+    <GameContainer
+      title="Quick Look"
+      onBack={handleBack}
+    >
+      {/* Header - Score and Settings */}
+      <div className="w-full flex items-center justify-between px-6 py-4">
+        <button
+          onClick={openSettings}
+          className="w-14 h-14 bg-yellow-300 rounded-2xl border-[3px] border-ink flex items-center justify-center hover:bg-yellow-400 active:bg-yellow-500 transition-colors shadow-[3px_3px_0px_0px_var(--color-shadow)] active:shadow-none active:translate-x-[3px] active:translate-y-[3px]"
+          aria-label="Settings"
+          id="subitizing-settings-button"
+        >
+          <span className="text-2xl">⚙️</span>
+        </button>
+
+        <ScoreDisplay
+          current={currentScore}
+          total={showingFeedback ? currentIndex + 1 : currentIndex}
+          size="large"
+          id="subitizing-score-display"
+        />
+      </div>
+
+      {/* Main game area - Pattern and choices */}
+      <div className="flex-1 flex flex-col items-center justify-center gap-6 px-6">
+        {currentItem && (
+          <>
+            {/* The pattern comes back with the feedback so the child can check */}
+            <div className="min-h-[220px] flex items-center justify-center">
+              {isFlashing || showingFeedback ? (
+                <DotPattern
+                  item={currentItem}
+                  key={`${currentItem.itemId}-${currentIndex}`}
+                />
+              ) : (
+                <div
+                  className="w-[200px] h-[200px] bg-yellow-300 rounded-[32px] border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)] flex items-center justify-center"
+                  id="subitizing-pattern-hidden"
+                >
+                  <span className="text-[80px] font-black text-ink leading-none">?</span>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap justify-center gap-4 max-w-[260px] min-[480px]:max-w-none" id="subitizing-choices">
+              {currentItem.choices.map((choice) => (
+                <ChoiceCard
+                  key={choice}
+                  value={String(choice)}
+                  label={`Number ${choice}`}
+                  idPrefix="subitizing"
+                  feedback={getFeedback(choice)}
+                  disabled={showingFeedback}
+                  onSelect={handleSelect}
+                />
+              ))}
+            </div>
+          </>
+        )}
+
+        <p className="text-lg font-bold text-ink-muted text-center" id="subitizing-instruction">
+          How many dots did you see?
+        </p>
+      </div>
+
+      {/* Progress footer */}
+      <div className="px-6 py-4 flex justify-center">
+        <div
+          className="bg-teal-200 px-6 py-2 rounded-full border-[2px] border-ink"
+          id="subitizing-progress-display"
+        >
+          <span className="text-sm font-bold text-ink">
+            Round {currentRound} • {progress}
+          </span>
+        </div>
+      </div>
+    </GameContainer>
+  );
+}
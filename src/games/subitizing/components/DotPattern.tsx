@@ -0,0 +1,82 @@
+/**
+ * DotPattern Component
+ * Draws a quantity as dice pips, on a ten-frame, or as randomly placed dots
+ */
+
+import type { SubitizingItem } from '@/types/subitizing';
+
+interface DotPatternProps {
+  item: SubitizingItem;
+}
+
+/**
+ * Pip cells on a 3×3 die face (0 top left, 8 bottom right) for 1-6
+ */
+const DICE_PIPS: Record<number, number[]> = {
+  1: [4],
+  2: [0, 8],
+  3: [0, 4, 8],
+  4: [0, 2, 6, 8],
+  5: [0, 2, 4, 6, 8],
+  6: [0, 2, 3, 5, 6, 8],
+};
+
+const DOT_CLASS = 'rounded-full border-[3px] border-ink';
+
+export function DotPattern({ item }: DotPatternProps) {
+  if (item.pattern === 'dice') {
+    const pips = DICE_PIPS[item.quantity] ?? [];
+
+    return (
+      <div
+        className="w-[200px] h-[200px] bg-surface rounded-[32px] border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)] grid grid-cols-3 grid-rows-3 p-5"
+        id="subitizing-pattern"
+        aria-label="Dot pattern"
+      >
+        {Array.from({ length: 9 }, (_, cell) => (
+          <div key={cell} className="flex items-center justify-center">
+            {pips.includes(cell) && <div className={`w-10 h-10 bg-ink ${DOT_CLASS}`} />}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (item.pattern === 'ten-frame') {
+    // Filled row by row, left to right
+    return (
+      <div
+        className="grid grid-cols-5 bg-surface rounded-2xl border-[3px] border-ink shadow-[4px_4px_0px_0px_var(--color-shadow)] overflow-hidden"
+        id="subitizing-pattern"
+        aria-label="Dot pattern"
+      >
+        {Array.from({ length: 10 }, (_, cell) => (
+          <div
+            key={cell}
+            className={`w-14 h-14 flex items-center justify-center border-ink ${
+              cell % 5 < 4 ? 'border-r-[2px]' : ''
+            } ${cell < 5 ? 'border-b-[2px]' : ''}`}
+          >
+            {cell < item.quantity && <div className={`w-9 h-9 bg-coral-400 ${DOT_CLASS}`} />}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="relative w-[220px] h-[220px] bg-surface rounded-[32px] border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)]"
+      id="subitizing-pattern"
+      aria-label="Dot pattern"
+    >
+      {item.positions.map((position, i) => (
+        <div
+          key={i}
+          className={`absolute w-9 h-9 -translate-x-1/2 -translate-y-1/2 bg-teal-400 ${DOT_CLASS}`}
+          style={{ left: `${position.x}%`, top: `${position.y}%` }}
+        />
+      ))}
+    </div>
+  );
+}
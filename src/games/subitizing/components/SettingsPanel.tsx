@@ -0,0 +1,172 @@
+/**
+ * SettingsPanel Component
+ * Configuration options for Quick Look (Subitizing)
+ */
+
+import { useSubitizingStore } from '../store';
+import { MAX_DISPLAY_DURATION, MIN_DISPLAY_DURATION, resetAllStatistics } from '../utils';
+import {
+  GameSettingsPanel,
+  DifficultySetting,
+  ChoiceSetting,
+  RoundSizeSetting,
+  ToggleSetting,
+} from '@/components/shared/SettingsControls';
+import type { SubitizingPattern, SubitizingRange } from '@/types/game';
+
+const SUBITIZING_RANGES: SubitizingRange[] = [5, 10];
+
+const PATTERN_LABELS: Record<SubitizingPattern, string> = {
+  dice: '🎲 Dice',
+  'ten-frame': '🔟 Frame',
+  random: '✨ Random',
+};
+
+interface SettingsPanelProps {
+  onClose: () => void;
+  onViewProgress?: () => void;
+}
+
+export function SettingsPanel({ onClose, onViewProgress }: SettingsPanelProps) {
+  const { config, updateConfig, resetGame } = useSubitizingStore();
+
+  const togglePattern = (pattern: SubitizingPattern) => {
+    const patterns = config.patterns.includes(pattern)
+      ? config.patterns.filter((other) => other !== pattern)
+      : [...config.patterns, pattern];
+    if (patterns.length === 0) return;
+    updateConfig({ patterns });
+  };
+
+  const handleResetProgress = async (profileId: number) => {
+    await resetAllStatistics(profileId);
+    resetGame();
+  };
+
+  return (
+    <GameSettingsPanel
+      idPrefix="subitizing"
+      onClose={onClose}
+      onResetProgress={handleResetProgress}
+      onViewProgress={onViewProgress}
+    >
+      <DifficultySetting
+        idPrefix="subitizing"
+        value={config.difficulty}
+        descriptions={{
+          easy: '📊 Even mix of quantities and patterns, 3 choices',
+          auto: '🎯 Adaptive - focuses on patterns your child gets wrong',
+          hard: '🔥 Heavily focuses on incorrect patterns',
+          spaced: '🗓️ Spaced review - patterns come back when they are due',
+        }}
+        onChange={(difficulty) => updateConfig({ difficulty })}
+      />
+
+      <ChoiceSetting
+        id="subitizing-range-setting"
+        label="Quantities"
+        value={config.range}
+        options={SUBITIZING_RANGES}
+        optionLabel={(range) => `1–${range}`}
+        onChange={(range) => updateConfig({ range })}
+      />
+
+      {/* Patterns */}
+      <div id="subitizing-patterns-setting">
+        <label className="block text-sm font-bold text-ink mb-3">
+          Patterns
+        </label>
+        <div className="flex gap-2">
+          {(['dice', 'ten-frame', 'random'] as const).map((pattern) => {
+            const enabled = config.patterns.includes(pattern);
+            return (
+              <button
+                key={pattern}
+                onClick={() => togglePattern(pattern)}
+                aria-pressed={enabled}
+                className={`flex-1 py-2 px-2 rounded-full font-bold text-sm transition-all border-[2px] border-ink ${
+                  enabled
+                    ? 'bg-teal-400 text-ink shadow-[3px_3px_0px_0px_var(--color-shadow)]'
+                    : 'bg-surface text-ink hover:bg-teal-100'
+                }`}
+                id={`subitizing-pattern-${pattern}-toggle`}
+              >
+                {PATTERN_LABELS[pattern]}
+              </button>
+            );
+          })}
+        </div>
+        <p className="text-xs font-semibold text-ink mt-2 bg-yellow-50 p-2 rounded-xl border-[2px] border-ink">
+          Dice show 1–6 only. At least one pattern stays on.
+        </p>
+      </div>
+
+      {/* Display Time */}
+      <div id="subitizing-display-time-setting">
+        <label className="block text-sm font-bold text-ink mb-3">
+          Display Time: <span className="bg-coral-200 px-3 py-1 rounded-full border-[2px] border-ink">{(config.displayDuration / 1000).toFixed(2)}s</span>
+        </label>
+        <input
+          type="range"
+          min={MIN_DISPLAY_DURATION}
+          max={MAX_DISPLAY_DURATION}
+          step="50"
+          value={config.displayDuration}
+          onChange={(e) =>
+            updateConfig({ displayDuration: parseInt(e.target.value) })
+          }
+          className="w-full h-3 bg-yellow-100 rounded-lg appearance-none cursor-pointer border-[2px] border-ink"
+          id="subitizing-display-time-slider"
+          style={{
+            accentColor: '#facc15',
+          }}
+        />
+        <div className="flex justify-between text-xs font-bold text-ink mt-2">
+          <span>{MIN_DISPLAY_DURATION / 1000}s min</span>
+          <span>{MAX_DISPLAY_DURATION / 1000}s max</span>
+        </div>
+      </div>
+
+      <ToggleSetting
+        id="subitizing-adaptive-duration-toggle"
+        label="⏱️ Adjust Display Time"
+        checked={config.adaptiveDuration}
+        onChange={(adaptiveDuration) => updateConfig({ adaptiveDuration })}
+      />
+      <p className="text-xs font-semibold text-ink bg-yellow-50 p-2 rounded-xl border-[2px] border-ink" id="subitizing-adaptive-duration-description">
+        Each correct answer shortens the display time a little, each mistake lengthens it.
+      </p>
+
+      <RoundSizeSetting
+        idPrefix="subitizing"
+        value={config.roundSize}
+        min={5}
+        max={20}
+        unit="patterns"
+        onChange={(roundSize) => updateConfig({ roundSize })}
+      />
+
+      <ToggleSetting
+        id="subitizing-sound-enabled-toggle"
+        label="🔊 Sound Effects"
+        checked={config.soundEnabled}
+        onChange={(soundEnabled) => updateConfig({ soundEnabled })}
+      />
+
+      <ToggleSetting
+        id="subitizing-speak-numbers-toggle"
+        label="🗣️ Say Numbers"
+        checked={config.speakNumbers}
+        disabled={!config.soundEnabled}
+        onChange={(speakNumbers) => updateConfig({ speakNumbers })}
+      />
+
+      <ToggleSetting
+        id="subitizing-haptic-enabled-toggle"
+        label="📳 Haptic Feedback"
+        checked={config.hapticEnabled}
+        onChange={(hapticEnabled) => updateConfig({ hapticEnabled })}
+      />
+    </GameSettingsPanel>
+  );
+}
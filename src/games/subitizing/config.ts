@@ -0,0 +1,15 @@
+/**
+ * Subitizing Config
+ * Game metadata shown in the game list
+ */
+
+import type { GameConfig } from '@/types/game';
+
+export const subitizingConfig: GameConfig = {
+  id: 'subitizing',
+  name: 'Quick Look',
+  description: 'Dots flash for a moment - how many were there?',
+  icon: '🎲',
+  itemType: 'number',
+  defaultDifficulty: 'auto',
+};
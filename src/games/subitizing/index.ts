@@ -0,0 +1,20 @@
+/**
+ * Subitizing Module
+ * Exports game configuration and component for registry
+ */
+
+import type { GameModule } from '@/lib/games/registry';
+import { subitizingConfig } from './config';
+import { SubitizingGame } from './SubitizingGame';
+import { SettingsPanel } from './components/SettingsPanel';
+import { QuantityProgress } from './components/QuantityProgress';
+
+export const subitizingModule: GameModule = {
+  config: subitizingConfig,
+  Component: SubitizingGame,
+  SettingsComponent: SettingsPanel,
+  ProgressComponent: QuantityProgress,
+};
+
+// Re-export the game component and config
+export { SubitizingGame, subitizingConfig };
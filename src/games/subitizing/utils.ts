@@ -0,0 +1,219 @@
+/**
+ * Subitizing Game Utilities
+ * Dot patterns, display time adaptation, round generation, adaptive learning, and statistics
+ */
+
+import { db } from '@/lib/storage/db';
+import {
+  applyResponseTime,
+  getReviewSchedules,
+  resetGameStatistics,
+} from '@/lib/storage/statistics';
+import { shuffleArray } from '@/lib/learning/weighted-selection';
+import { selectRound } from '@/lib/learning/selection-strategy';
+import type { SubitizingConfig, SubitizingPattern, SubitizingStatistics } from '@/types/game';
+import type { DotPosition, SubitizingItem } from '@/types/subitizing';
+
+/**
+ * Largest quantity each pattern can show (a die has 6 faces)
+ */
+export const PATTERN_MAX: Record<SubitizingPattern, number> = {
+  dice: 6,
+  'ten-frame': 10,
+  random: 10,
+};
+
+/**
+ * Display time limits (ms) and how much one answer moves it
+ * Mistakes lengthen it by more than correct answers shorten it, so a
+ * struggling child gets time back quickly
+ */
+export const MIN_DISPLAY_DURATION = 300;
+export const MAX_DISPLAY_DURATION = 3000;
+const FASTER_AFTER_CORRECT = 0.9;
+const SLOWER_AFTER_INCORRECT = 1.25;
+
+/**
+ * Number of choices per mode; distractors are always next to the answer
+ */
+const CHOICE_COUNT: Record<SubitizingConfig['difficulty'], number> = {
+  easy: 3,
+  auto: 4,
+  hard: 4,
+  spaced: 4,
+};
+
+/**
+ * How long the result of a tap stays on screen before the next pattern (ms)
+ * The pattern is shown again meanwhile, so the child can check it
+ */
+export const FEEDBACK_DURATION: Record<SubitizingConfig['difficulty'], number> = {
+  easy: 2000,
+  auto: 1600,
+  hard: 1200,
+  spaced: 1600,
+};
+
+/**
+ * Build the statistics item id for a quantity shown in a pattern ('4-dice')
+ */
+export function toItemId(quantity: number, pattern: SubitizingPattern): string {
+  return `${quantity}-${pattern}`;
+}
+
+/**
+ * Next display time after an answer, kept within the limits and rounded to 50 ms
+ */
+export function adaptDisplayDuration(duration: number, correct: boolean): number {
+  const next = duration * (correct ? FASTER_AFTER_CORRECT : SLOWER_AFTER_INCORRECT);
+  const rounded = Math.round(next / 50) * 50;
+  return Math.min(MAX_DISPLAY_DURATION, Math.max(MIN_DISPLAY_DURATION, rounded));
+}
+
+/**
+ * Every quantity and pattern combination for the configured range and patterns
+ */
+export function getItemPool(
+  config: SubitizingConfig
+): { quantity: number; pattern: SubitizingPattern }[] {
+  return config.patterns.flatMap((pattern) =>
+    Array.from({ length: Math.min(config.range, PATTERN_MAX[pattern]) }, (_, i) => ({
+      quantity: i + 1,
+      pattern,
+    }))
+  );
+}
+
+/**
+ * Place dots at random without overlaps
+ * Each dot gets its own cell of a grid, nudged off-centre so no familiar shape appears
+ */
+export function randomDots(quantity: number): DotPosition[] {
+  const side = quantity <= 5 ? 3 : 4;
+  const cellSize = 100 / side;
+  const cells = shuffleArray(Array.from({ length: side * side }, (_, i) => i)).slice(0, quantity);
+  const jitter = () => (Math.random() - 0.5) * cellSize * 0.3;
+
+  return cells.map((cell) => ({
+    x: ((cell % side) + 0.5) * cellSize + jitter(),
+    y: (Math.floor(cell / side) + 0.5) * cellSize + jitter(),
+  }));
+}
+
+/**
+ * Pick distractors for a quantity: the closest numbers in the range (4 → 3 and 5)
+ */
+function pickDistractors(quantity: number, config: SubitizingConfig): number[] {
+  const others = shuffleArray(
+    Array.from({ length: config.range }, (_, i) => i + 1).filter((other) => other !== quantity)
+  );
+  const distance = (other: number) => Math.abs(other - quantity);
+
+  return others
+    .sort((a, b) => distance(a) - distance(b))
+    .slice(0, CHOICE_COUNT[config.difficulty] - 1);
+}
+
+/**
+ * Build one item for a quantity and pattern
+ */
+export function buildItem(
+  quantity: number,
+  pattern: SubitizingPattern,
+  config: SubitizingConfig
+): SubitizingItem {
+  return {
+    itemId: toItemId(quantity, pattern),
+    quantity,
+    pattern,
+    positions: pattern === 'random' ? randomDots(quantity) : [],
+    choices: shuffleArray([quantity, ...pickDistractors(quantity, config)]),
+  };
+}
+
+/**
+ * Generate a round based on statistics
+ * Uses the selection strategy for the configured mode to prioritize
+ * struggling (or due) patterns; patterns never tried count as struggling
+ */
+export async function generateRound(
+  config: SubitizingConfig,
+  profileId: number
+): Promise<SubitizingItem[]> {
+  // Fetch statistics and review schedules for this profile only
+  const [allStats, schedules] = await Promise.all([
+    db.subitizingStatistics.where('profileId').equals(profileId).toArray(),
+    getReviewSchedules(profileId, 'subitizing'),
+  ]);
+
+  const statsById = new Map(allStats.map((stat) => [stat.itemId, stat]));
+
+  const selected = selectRound(
+    getItemPool(config).map((entry) => {
+      const itemId = toItemId(entry.quantity, entry.pattern);
+      return {
+        itemId,
+        value: entry,
+        stat: statsById.get(itemId),
+        schedule: schedules.get(itemId),
+      };
+    }),
+    { roundSize: config.roundSize, mode: config.difficulty }
+  );
+
+  return selected.map(({ quantity, pattern }) => buildItem(quantity, pattern, config));
+}
+
+/**
+ * Record an answer to the database
+ */
+export async function recordAnswer(
+  item: SubitizingItem,
+  correct: boolean,
+  profileId: number,
+  responseTimeMs?: number
+): Promise<void> {
+  // Get existing statistics or create new
+  let stat: SubitizingStatistics | undefined = await db.subitizingStatistics
+    .where('[profileId+quantity+pattern]')
+    .equals([profileId, item.quantity, item.pattern])
+    .first();
+
+  if (!stat) {
+    stat = {
+      gameId: 'subitizing',
+      profileId,
+      itemId: item.itemId,
+      quantity: item.quantity,
+      pattern: item.pattern,
+      totalAttempts: 0,
+      correctCount: 0,
+      incorrectCount: 0,
+      lastAttempt: new Date(),
+      successRate: 0,
+    };
+  }
+
+  // Update counts
+  stat.totalAttempts++;
+  if (correct) {
+    stat.correctCount++;
+  } else {
+    stat.incorrectCount++;
+  }
+
+  // Recalculate success rate
+  stat.successRate = stat.correctCount / stat.totalAttempts;
+  stat.lastAttempt = new Date();
+  applyResponseTime(stat, responseTimeMs);
+
+  // Save to database
+  await db.subitizingStatistics.put(stat);
+}
+
+/**
+ * Reset all subitizing statistics for a specific profile
+ */
+export async function resetAllStatistics(profileId: number): Promise<void> {
+  await resetGameStatistics('subitizing', profileId);
+}
@@ -0,0 +1,315 @@
+/**
+ * Word Builder - Main Game Component
+ * Spell a pictured or spoken CVC word by dragging letter tiles into its slots
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useWordBuildingStore } from './store';
+import { checkPlacements } from './utils';
+import { LetterTile } from './components/LetterTile';
+import { WordSlot } from './components/WordSlot';
+import { RoundSummary } from '@/components/shared/RoundSummary';
+import { GameContainer } from '@/components/shared/GameContainer';
+import { Button } from '@/components/shared/Button';
+import { Card } from '@/components/shared/Card';
+import { useGameNavigation } from '@/hooks/useGameNavigation';
+import { useGameAudio } from '@/hooks/useGameAudio';
+import { useGameHaptics } from '@/hooks/useGameHaptics';
+import { STREAK_MILESTONE } from '@/lib/haptics/haptics';
+
+export function WordBuildingGame() {
+  const {
+    currentRound,
+    roundItems,
+    currentIndex,
+    currentScore,
+    placements,
+    slotResults,
+    roundComplete,
+    config,
+    startNewRound,
+    placeTile,
+    removeTile,
+    checkWord,
+  } = useWordBuildingStore();
+
+  const { goHome, openSettings, openProgress } = useGameNavigation('word-building');
+  const { playSound, say } = useGameAudio(config.soundEnabled);
+  const { haptic } = useGameHaptics(config.hapticEnabled);
+  const streak = useRef(0); // Correct words in a row
+  const shownAt = useRef(performance.now()); // When the current word appeared
+  const [isStarted, setIsStarted] = useState(false);
+
+  const currentItem = roundItems[currentIndex];
+
+  // Say each new word as it comes up and start timing from there
+  // Words without a picture are always said, there is nothing else to go on
+  useEffect(() => {
+    if (!isStarted || !currentItem) return;
+    shownAt.current = performance.now();
+    if (config.speakWords || !currentItem.image) say(currentItem.word);
+  }, [isStarted, currentItem, config.speakWords, say]);
+
+  const handleSayWord = () => {
+    if (currentItem) say(currentItem.word);
+  };
+
+  const handleStart = async () => {
+    await startNewRound();
+    streak.current = 0;
+    setIsStarted(true);
+  };
+
+  /**
+   * Place a tile, then check the word once the last slot is filled
+   */
+  const handlePlace = (tileIndex: number, position?: number) => {
+    placeTile(tileIndex, position);
+
+    const { placements: updated } = useWordBuildingStore.getState();
+    if (!currentItem || updated.includes(null)) {
+      haptic('button');
+      return;
+    }
+
+    const correct = checkPlacements(currentItem, updated).every(
+      (result) => result === 'correct'
+    );
+
+    // The last word gets the round-complete fanfare from the summary instead
+    if (currentIndex < roundItems.length - 1) {
+      playSound(correct ? 'correct' : 'incorrect');
+    }
+
+    // Streak milestones replace the regular correct pattern
+    streak.current = correct ? streak.current + 1 : 0;
+    if (streak.current > 0 && streak.current % STREAK_MILESTONE === 0) {
+      haptic('streak');
+    } else {
+      haptic(correct ? 'correct' : 'incorrect');
+    }
+
+    checkWord(performance.now() - shownAt.current);
+  };
+
+  const handleBack = () => {
+    goHome();
+  };
+
+  const totalItems = roundItems.length;
+  const progress = totalItems > 0 ? `${currentIndex} / ${totalItems}` : '0 / 0';
+  const trayTiles = currentItem?.tiles
+    .map((letter, tileIndex) => ({ letter, tileIndex }))
+    .filter(({ tileIndex }) => !placements.includes(tileIndex)) ?? [];
+
+  // Welcome screen
+  if (!isStarted || currentRound === 0) {
+    return (
+      <GameContainer
+        title="Word Builder"
+        onBack={handleBack}
+      >
+        <div className="flex-1 flex flex-col items-center justify-center px-6 text-center">
+          {/* Icon with playful rotation */}
+          <div className="mb-8">
+            <div className="w-28 h-28 bg-yellow-300 rounded-3xl border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)] flex items-center justify-center transform -rotate-6 mx-auto mb-6">
+              <span className="text-6xl">🧩</span>
+            </div>
+
+            <h2 className="text-4xl font-black text-ink mb-6">
+              Word Builder
+            </h2>
+
+            {/* Instructions card */}
+            <Card className="p-6 max-w-md mx-auto mb-8">
+              <div className="space-y-3 text-left">
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-teal-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">1</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Look at the picture and listen to the word
+                  </p>
+                </div>
+
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-yellow-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">2</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Drag a letter into each space, one sound at a time
+                  </p>
+                </div>
+
+                <div className="flex items-start gap-3">
+                  <div className="w-10 h-10 bg-coral-200 rounded-xl border-[2px] border-ink flex items-center justify-center shrink-0">
+                    <span className="text-xl">3</span>
+                  </div>
+                  <p className="text-base font-semibold text-ink">
+                    Spell the whole word! 🧩
+                  </p>
+                </div>
+              </div>
+
+              {/* Example word */}
+              <div className="flex justify-center gap-2 mt-5" id="word-building-example">
+                {['c', null, 't'].map((letter, i) => (
+                  <div
+                    key={i}
+                    className={`w-12 h-14 rounded-xl border-[3px] border-ink flex items-center justify-center ${
+                      letter ? 'bg-surface' : 'bg-teal-50 border-dashed'
+                    }`}
+                  >
+                    <span className={`text-3xl font-black leading-none ${letter ? 'text-ink' : 'text-gray-400'}`}>
+                      {letter ?? '?'}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          </div>
+
+          <div className="space-y-3 w-full max-w-xs">
+            <Button
+              variant="primary"
+              onClick={handleStart}
+              className="w-full"
+              id="word-building-start-button"
+            >
+              🎮 Start Round
+            </Button>
+
+            <Button
+              variant="ghost"
+              onClick={openSettings}
+              className="w-full"
+              id="word-building-welcome-settings-button"
+            >
+              ⚙️ Settings
+            </Button>
+          </div>
+        </div>
+      </GameContainer>
+    );
+  }
+
+  // Round summary screen
+  if (roundComplete) {
+    return (
+      <RoundSummary
+        idPrefix="word-building"
+        totalAttempts={totalItems}
+        correctCount={currentScore}
+        incorrectCount={totalItems - currentScore}
+        roundNumber={currentRound}
+        soundEnabled={config.soundEnabled}
+        hapticEnabled={config.hapticEnabled}
+        onPlayAgain={handleStart}
+        onHome={handleBack}
+        onSettings={openSettings}
+        onViewProgress={openProgress}
+      />
+    );
+  }
+
+  // Active gameplay
+  return (
+    <GameContainer
+      title="Word Builder"
+      onBack={handleBack}
+    >
+      {/* Header - Score and Settings */}
+      <div className="w-full flex items-center justify-between px-6 py-4">
+        <button
+          onClick={openSettings}
+          className="w-14 h-14 bg-yellow-300 rounded-2xl border-[3px] border-ink flex items-center justify-center hover:bg-yellow-400 active:bg-yellow-500 transition-colors shadow-[3px_3px_0px_0px_var(--color-shadow)] active:shadow-none active:translate-x-[3px] active:translate-y-[3px]"
+          aria-label="Settings"
+          id="word-building-settings-button"
+        >
+          <span className="text-2xl">⚙️</span>
+        </button>
+
+        <div
+          className="bg-surface px-5 py-2 rounded-full border-[3px] border-ink shadow-[3px_3px_0px_0px_var(--color-shadow)]"
+          id="word-building-score-display"
+        >
+          <span className="text-lg font-black text-ink">
+            {currentScore} / {slotResults ? currentIndex + 1 : currentIndex}
+          </span>
+        </div>
+      </div>
+
+      {/* Main game area - Picture, word slots and tile tray */}
+      <div className="flex-1 flex flex-col items-center justify-center gap-8 px-6">
+        {currentItem && (
+          <>
+            <button
+              onClick={handleSayWord}
+              className="w-[160px] h-[160px] bg-surface rounded-[32px] border-[3px] border-ink shadow-[6px_6px_0px_0px_var(--color-shadow)] flex items-center justify-center p-4 hover:bg-yellow-50 active:shadow-none active:translate-x-[6px] active:translate-y-[6px] transition-all"
+              aria-label={currentItem.image ? `Say the word: ${currentItem.word}` : 'Say the word again'}
+              id="word-building-picture"
+              key={`${currentItem.itemId}-${currentIndex}`}
+            >
+              {currentItem.image ? (
+                <img
+                  src={currentItem.image}
+                  alt={currentItem.word}
+                  className="w-full h-full object-contain"
+                  draggable={false}
+                />
+              ) : (
+                <span className="text-7xl">🔊</span>
+              )}
+            </button>
+
+            <Card className="p-5" id="word-building-word">
+              <div className="flex justify-center gap-3 pb-8">
+                {currentItem.word.split('').map((letter, position) => {
+                  const tileIndex = placements[position];
+                  return (
+                    <WordSlot
+                      key={position}
+                      position={position}
+                      letter={tileIndex !== null ? currentItem.tiles[tileIndex] : null}
+                      result={slotResults?.[position] ?? null}
+                      correctLetter={letter}
+                      onRemove={removeTile}
+                    />
+                  );
+                })}
+              </div>
+            </Card>
+
+            <div className="flex flex-wrap justify-center gap-3 min-h-16" id="word-building-tile-tray">
+              {trayTiles.map(({ letter, tileIndex }) => (
+                <LetterTile
+                  key={tileIndex}
+                  index={tileIndex}
+                  letter={letter}
+                  disabled={slotResults !== null}
+                  onPlace={(position) => handlePlace(tileIndex, position)}
+                />
+              ))}
+            </div>
+          </>
+        )}
+
+        <p className="text-lg font-bold text-ink-muted text-center" id="word-building-instruction">
+          {currentItem?.image ? 'Spell the picture!' : 'Spell the word you hear!'}
+        </p>
+      </div>
+
+      {/* Progress footer */}
+      <div className="px-6 py-4 flex justify-center">
+        <div
+          className="bg-teal-200 px-6 py-2 rounded-full border-[2px] border-ink"
+          id="word-building-progress-display"
+        >
+          <span className="text-sm font-bold text-ink">
+            Round {currentRound} • {progress}
+          </span>
+        </div>
+      </div>
+    </GameContainer>
+  );
+}
@@ -0,0 +1,191 @@
+/**
+ * WordProgress Component
+ * Shows success rates for every word and which letter position causes mistakes
+ */
+
+import { useEffect, useState } from 'react';
+import { db } from '@/lib/storage/db';
+import { useProfileStore } from '@/lib/profiles/store';
+import { Button } from '@/components/shared/Button';
+import { CVC_WORDS } from '../words';
+import { LETTER_POSITIONS } from '@/types/word-building';
+import type { LetterPosition, WordBuildingStatistics } from '@/types/game';
+
+const POSITION_LABELS: Record<LetterPosition, { label: string; hint: string }> = {
+  onset: { label: 'First sound', hint: 'c in cat' },
+  vowel: { label: 'Middle sound', hint: 'a in cat' },
+  coda: { label: 'Last sound', hint: 't in cat' },
+};
+
+const POSITION_ERRORS: Record<LetterPosition, 'onsetErrors' | 'vowelErrors' | 'codaErrors'> = {
+  onset: 'onsetErrors',
+  vowel: 'vowelErrors',
+  coda: 'codaErrors',
+};
+
+interface WordProgressProps {
+  onClose: () => void;
+}
+
+export function WordProgress({ onClose }: WordProgressProps) {
+  const [stats, setStats] = useState<Map<string, WordBuildingStatistics>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const { activeProfileId, getActiveProfile } = useProfileStore();
+  const activeProfile = getActiveProfile();
+
+  useEffect(() => {
+    if (!activeProfileId) return;
+
+    const loadStats = async () => {
+      setIsLoading(true);
+
+      const allStats = await db.wordBuildingStatistics
+        .where('profileId')
+        .equals(activeProfileId)
+        .toArray();
+
+      setStats(new Map(allStats.map((stat) => [stat.word, stat])));
+      setIsLoading(false);
+    };
+
+    loadStats();
+  }, [activeProfileId]);
+
+  const getColorClass = (successRate: number, attempts: number) => {
+    if (attempts === 0) return 'bg-gray-200 border-gray-400';
+    if (successRate >= 0.8) return 'bg-teal-200 border-teal-600';
+    if (successRate >= 0.6) return 'bg-yellow-200 border-yellow-600';
+    return 'bg-coral-200 border-coral-500';
+  };
+
+  const getLabel = (successRate: number, attempts: number) => {
+    if (attempts === 0) return 'Not tried';
+    if (successRate >= 0.8) return 'Great!';
+    if (successRate >= 0.6) return 'Good';
+    return 'Practice';
+  };
+
+  const attempted = [...stats.values()].filter((stat) => stat.totalAttempts > 0);
+  const totalAttempts = attempted.reduce((sum, stat) => sum + stat.totalAttempts, 0);
+
+  // Mistakes per position across all words
+  const positionErrors = LETTER_POSITIONS.map((position) => ({
+    position,
+    errors: attempted.reduce((sum, stat) => sum + stat[POSITION_ERRORS[position]], 0),
+  }));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-backdrop flex items-center justify-center p-4">
+      <div className="w-full max-w-4xl h-full max-h-[90vh] bg-[#f7f7f7] rounded-[32px] border-[3px] border-ink shadow-[8px_8px_0px_0px_var(--color-shadow)] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 bg-yellow-300 border-b-[3px] border-ink">
+          <h1 className="text-2xl font-black text-ink">Word Builder Progress</h1>
+          <button
+            onClick={onClose}
+            className="w-12 h-12 rounded-xl bg-coral-400 border-[3px] border-ink flex items-center justify-center hover:bg-coral-500 transition-colors shadow-[3px_3px_0px_0px_var(--color-shadow)] active:shadow-none active:translate-x-[3px] active:translate-y-[3px]"
+            aria-label="Close"
+          >
+            <span className="text-2xl font-black">✕</span>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 pb-6">
+        {/* Header */}
+        <div className="mb-6 text-center">
+          <div className="inline-flex items-center gap-3 mb-4">
+            <div className="w-16 h-16 bg-yellow-300 rounded-2xl border-[3px] border-ink shadow-[4px_4px_0px_0px_var(--color-shadow)] flex items-center justify-center transform rotate-3">
+              <span className="text-4xl">📊</span>
+            </div>
+            <div className="text-left">
+              <h2 className="text-3xl font-black text-ink">
+                {activeProfile?.name}'s Progress
+              </h2>
+              <p className="text-sm font-semibold text-ink-muted">
+                Words spelled without a mistake, and where the mistakes are
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <div className="text-4xl mb-4">⏳</div>
+            <p className="text-lg font-semibold text-ink-muted">Loading progress...</p>
+          </div>
+        ) : (
+          <>
+            {/* Mistakes by letter position */}
+            <div className="mb-8 bg-surface rounded-[24px] border-[3px] border-ink shadow-[4px_4px_0px_0px_var(--color-shadow)] p-5" id="word-building-position-errors">
+              <h3 className="text-lg font-black text-ink mb-3">Mistakes by Sound</h3>
+              <div className="grid grid-cols-3 gap-4">
+                {positionErrors.map(({ position, errors }) => (
+                  <div key={position} className="text-center" id={`word-building-${position}-errors`}>
+                    <div className="text-2xl font-black text-coral-600">
+                      {totalAttempts > 0 ? `${Math.round((errors / totalAttempts) * 100)}%` : '—'}
+                    </div>
+                    <div className="text-xs font-bold text-ink">{POSITION_LABELS[position].label}</div>
+                    <div className="text-[10px] font-semibold text-ink-muted">{POSITION_LABELS[position].hint}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Legend */}
+            <div className="mb-6 flex flex-wrap gap-2 justify-center">
+              <div className="px-3 py-1 bg-teal-200 rounded-full border-[2px] border-teal-600 text-xs font-bold">
+                🟢 Great (80%+)
+              </div>
+              <div className="px-3 py-1 bg-yellow-200 rounded-full border-[2px] border-yellow-600 text-xs font-bold">
+                🟡 Good (60-79%)
+              </div>
+              <div className="px-3 py-1 bg-coral-200 rounded-full border-[2px] border-coral-500 text-xs font-bold">
+                🔴 Practice (&lt;60%)
+              </div>
+              <div className="px-3 py-1 bg-gray-200 rounded-full border-[2px] border-gray-400 text-xs font-bold">
+                ⚪ Not tried
+              </div>
+            </div>
+
+            {/* Word grid */}
+            <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3" id="word-building-progress-grid">
+              {CVC_WORDS.map(({ word }) => {
+                const stat = stats.get(word);
+                const attempts = stat?.totalAttempts || 0;
+                const successRate = stat?.successRate || 0;
+
+                return (
+                  <div
+                    key={word}
+                    className={`rounded-2xl border-[3px] text-center p-2 ${getColorClass(successRate, attempts)}`}
+                    id={`word-building-progress-${word}`}
+                  >
+                    <div className="text-2xl font-black text-ink">{word}</div>
+                    <div className="text-sm font-black text-ink">
+                      {attempts > 0 ? `${Math.round(successRate * 100)}%` : '—'}
+                    </div>
+                    <div className="text-[10px] font-semibold text-ink-muted">
+                      {getLabel(successRate, attempts)}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Close Button */}
+            <div className="mt-6">
+              <Button
+                variant="primary"
+                onClick={onClose}
+                className="w-full"
+                id="word-building-progress-close"
+              >
+                Done
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+    </div>
+  );
+}
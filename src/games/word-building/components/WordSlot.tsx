@@ -0,0 +1,50 @@
+/**
+ * WordSlot Component
+ * One letter position of the word: empty, holding a placed tile, or checked
+ */
+
+import type { SlotResult } from '@/types/word-building';
+
+interface WordSlotProps {
+  position: number;
+  letter: string | null; // Placed letter (null = empty)
+  result: SlotResult | null;
+  correctLetter: string; // Revealed under a wrong tile
+  onRemove: (position: number) => void;
+}
+
+export function WordSlot({ position, letter, result, correctLetter, onRemove }: WordSlotProps) {
+  let style = 'bg-teal-50 border-dashed';
+  if (result === 'correct') {
+    style = 'bg-teal-200';
+  } else if (result === 'incorrect') {
+    style = 'bg-coral-200';
+  } else if (letter) {
+    style = 'bg-yellow-200 shadow-[3px_3px_0px_0px_var(--color-shadow)]';
+  }
+
+  return (
+    <button
+      onClick={() => onRemove(position)}
+      disabled={!letter || result !== null}
+      className={`relative w-20 h-24 rounded-2xl border-[3px] border-ink flex items-center justify-center transition-colors ${style}`}
+      aria-label={letter ? `Remove ${letter}` : 'Empty space'}
+      data-drop-target={position}
+      id={`word-building-slot-${position}`}
+    >
+      <span className={`text-5xl font-black leading-none ${letter ? 'text-ink' : 'text-gray-400'}`}>
+        {letter ?? '?'}
+      </span>
+
+      {/* Show the right letter under a wrong one */}
+      {result === 'incorrect' && (
+        <span
+          className="absolute -bottom-8 text-2xl font-black text-teal-700"
+          id={`word-building-correction-${position}`}
+        >
+          {correctLetter}
+        </span>
+      )}
+    </button>
+  );
+}
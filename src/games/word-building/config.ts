@@ -0,0 +1,15 @@
+/**
+ * Word Builder Config
+ * Game metadata shown in the game list
+ */
+
+import type { GameConfig } from '@/types/game';
+
+export const wordBuildingConfig: GameConfig = {
+  id: 'word-building',
+  name: 'Word Builder',
+  description: 'Drag letter tiles into place to spell short words',
+  icon: '🧩',
+  itemType: 'word',
+  defaultDifficulty: 'auto',
+};
@@ -0,0 +1,20 @@
+/**
+ * Word Builder Module
+ * Exports game configuration and component for registry
+ */
+
+import type { GameModule } from '@/lib/games/registry';
+import { wordBuildingConfig } from './config';
+import { WordBuildingGame } from './WordBuildingGame';
+import { SettingsPanel } from './components/SettingsPanel';
+import { WordProgress } from './components/WordProgress';
+
+export const wordBuildingModule: GameModule = {
+  config: wordBuildingConfig,
+  Component: WordBuildingGame,
+  SettingsComponent: SettingsPanel,
+  ProgressComponent: WordProgress,
+};
+
+// Re-export the game component and config
+export { WordBuildingGame, wordBuildingConfig };
@@ -0,0 +1,214 @@
+/**
+ * Word Builder Game Store (Zustand)
+ * Manages game state, rounds, tile placement, scoring, and configuration
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { WordBuildingConfig } from '@/types/game';
+import type { WordBuildingState } from '@/types/word-building';
+import { DEFAULT_WORD_BUILDING_CONFIG } from '@/types/word-building';
+import { FEEDBACK_DURATION, checkPlacements, generateRound, recordAnswer as recordAnswerToDB } from './utils';
+import {
+  createSessionId,
+  recordAnswerEvent,
+  updateReviewSchedule,
+} from '@/lib/storage/statistics';
+import { useProfileStore } from '@/lib/profiles/store';
+import { useAppStore } from '@/hooks/useAppStore';
+import { isSpeechSupported } from '@/lib/audio/speech';
+import {
+  saveActiveProfileConfig,
+  syncConfigWithActiveProfile,
+} from '@/lib/profiles/game-config';
+
+/**
+ * Empty slots for a CVC word
+ */
+const EMPTY_PLACEMENTS: (number | null)[] = [null, null, null];
+
+export const useWordBuildingStore = create<WordBuildingState>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      currentRound: 0,
+      roundItems: [],
+      currentIndex: 0,
+      currentScore: 0,
+      placements: EMPTY_PLACEMENTS,
+      slotResults: null,
+      roundComplete: false,
+      sessionId: null,
+      config: DEFAULT_WORD_BUILDING_CONFIG,
+
+      /**
+       * Start a new round
+       */
+      startNewRound: async () => {
+        const { currentRound, config, sessionId } = get();
+
+        // Get active profile
+        const activeProfileId = useProfileStore.getState().activeProfileId;
+        if (!activeProfileId) {
+          console.error('No active profile - cannot start round');
+          return;
+        }
+
+        // Picture-less words are only spoken, so leave them out when speech can't play
+        const canSpeak =
+          config.soundEnabled && useAppStore.getState().soundEnabled && isSpeechSupported();
+        const items = await generateRound(config, activeProfileId, canSpeak);
+
+        set({
+          currentRound: currentRound + 1,
+          roundItems: items,
+          currentIndex: 0,
+          currentScore: 0,
+          placements: EMPTY_PLACEMENTS,
+          slotResults: null,
+          roundComplete: false,
+          sessionId: sessionId ?? createSessionId(),
+        });
+      },
+
+      /**
+       * Put a tile into a slot (the first empty one when no position is given)
+       * Dropping onto a filled slot sends the old tile back to the tray
+       */
+      placeTile: (tileIndex: number, position?: number) => {
+        const { roundItems, currentIndex, placements, slotResults } = get();
+
+        // Ignore while the checked answer is showing
+        if (!roundItems[currentIndex] || slotResults) return;
+
+        const target = position ?? placements.indexOf(null);
+        if (target < 0 || target >= placements.length) return;
+
+        const updated = [...placements];
+        updated[target] = tileIndex;
+        set({ placements: updated });
+      },
+
+      /**
+       * Send a placed tile back to the tray
+       */
+      removeTile: (position: number) => {
+        const { placements, slotResults } = get();
+        if (slotResults || placements[position] === null) return;
+
+        const updated = [...placements];
+        updated[position] = null;
+        set({ placements: updated });
+      },
+
+      /**
+       * Check the word once every slot is filled
+       * Shows the result, records it, then advances
+       */
+      checkWord: async (responseTimeMs?: number) => {
+        const {
+          roundItems,
+          currentIndex,
+          currentScore,
+          currentRound,
+          placements,
+          slotResults,
+          sessionId,
+        } = get();
+        const item = roundItems[currentIndex];
+
+        // Only check a fully filled word, once
+        if (!item || slotResults || placements.includes(null)) {
+          return;
+        }
+
+        // Get active profile
+        const activeProfileId = useProfileStore.getState().activeProfileId;
+        if (!activeProfileId) {
+          console.error('No active profile - cannot record answer');
+          return;
+        }
+
+        const results = checkPlacements(item, placements);
+        const correct = results.every((result) => result === 'correct');
+
+        set({
+          slotResults: results,
+          currentScore: correct ? currentScore + 1 : currentScore,
+        });
+
+        // Record to database while the result is displayed
+        await Promise.all([
+          recordAnswerToDB(item, results, activeProfileId, responseTimeMs),
+          updateReviewSchedule(activeProfileId, 'word-building', item.itemId, correct),
+          recordAnswerEvent({
+            profileId: activeProfileId,
+            gameId: 'word-building',
+            itemId: item.itemId,
+            correct,
+            roundNumber: currentRound,
+            sessionId: sessionId ?? createSessionId(),
+            responseTimeMs,
+          }),
+          new Promise((resolve) =>
+            setTimeout(resolve, correct ? FEEDBACK_DURATION.correct : FEEDBACK_DURATION.incorrect)
+          ),
+        ]);
+
+        get().nextItem();
+      },
+
+      /**
+       * Move to next word and clear the result
+       */
+      nextItem: () => {
+        const { roundItems, currentIndex } = get();
+        const isLastItem = currentIndex >= roundItems.length - 1;
+
+        set({
+          currentIndex: currentIndex + 1,
+          placements: EMPTY_PLACEMENTS,
+          slotResults: null,
+          roundComplete: isLastItem,
+        });
+      },
+
+      /**
+       * Reset the game completely
+       */
+      resetGame: () => {
+        set({
+          currentRound: 0,
+          roundItems: [],
+          currentIndex: 0,
+          currentScore: 0,
+          placements: EMPTY_PLACEMENTS,
+          slotResults: null,
+          roundComplete: false,
+          sessionId: null,
+        });
+      },
+
+      /**
+       * Update game configuration (saved for the active profile)
+       */
+      updateConfig: (newConfig: Partial<WordBuildingConfig>) => {
+        const config = { ...get().config, ...newConfig };
+        set({ config });
+        saveActiveProfileConfig('word-building', config);
+      },
+    }),
+    {
+      name: 'word-building-storage',
+      partialize: (state) => ({
+        currentRound: state.currentRound,
+        // config is stored per profile in IndexedDB
+      }),
+    }
+  )
+);
+
+// Swap in the active profile's settings whenever the profile changes
+syncConfigWithActiveProfile('word-building', DEFAULT_WORD_BUILDING_CONFIG, (config) =>
+  useWordBuildingStore.setState({ config })
+);
@@ -0,0 +1,172 @@
+/**
+ * Word Builder Game Utilities
+ * Tile generation, checking, round generation, adaptive learning, and statistics
+ */
+
+import { db } from '@/lib/storage/db';
+import {
+  applyResponseTime,
+  getReviewSchedules,
+  resetGameStatistics,
+} from '@/lib/storage/statistics';
+import { shuffleArray } from '@/lib/learning/weighted-selection';
+import { selectRound } from '@/lib/learning/selection-strategy';
+import type { WordBuildingConfig, WordBuildingStatistics } from '@/types/game';
+import type { CvcWord, SlotResult, WordBuildingItem } from '@/types/word-building';
+import { CVC_WORDS } from './words';
+
+const VOWELS = 'aeiou'.split('');
+const CONSONANTS = 'bcdfghjklmnprstvwz'.split('');
+
+/**
+ * Extra tiles besides the word's own letters, per mode
+ * An extra vowel is the hardest to rule out: the middle sound is the one
+ * children most often miss
+ */
+const EXTRA_TILES: Record<WordBuildingConfig['difficulty'], { vowels: number; consonants: number }> = {
+  easy: { vowels: 0, consonants: 0 },
+  auto: { vowels: 1, consonants: 1 },
+  hard: { vowels: 2, consonants: 2 },
+  spaced: { vowels: 1, consonants: 1 },
+};
+
+/**
+ * How long the checked word stays on screen before the next one (ms)
+ * Mistakes stay longer so the child can see the right letters
+ */
+export const FEEDBACK_DURATION = {
+  correct: 1200,
+  incorrect: 2400,
+};
+
+/**
+ * Build one item for a word
+ */
+export function buildItem(cvcWord: CvcWord, config: WordBuildingConfig): WordBuildingItem {
+  const letters = cvcWord.word.split('');
+  const extra = EXTRA_TILES[config.difficulty];
+  const pick = (pool: string[], count: number) =>
+    shuffleArray(pool.filter((letter) => !letters.includes(letter))).slice(0, count);
+
+  return {
+    itemId: cvcWord.word,
+    word: cvcWord.word,
+    image: cvcWord.image,
+    tiles: shuffleArray([
+      ...letters,
+      ...pick(VOWELS, extra.vowels),
+      ...pick(CONSONANTS, extra.consonants),
+    ]),
+  };
+}
+
+/**
+ * Compare the placed tiles with the word, slot by slot
+ */
+export function checkPlacements(
+  item: WordBuildingItem,
+  placements: (number | null)[]
+): SlotResult[] {
+  return item.word.split('').map((letter, position) => {
+    const tileIndex = placements[position];
+    return tileIndex !== null && item.tiles[tileIndex] === letter ? 'correct' : 'incorrect';
+  });
+}
+
+/**
+ * Generate a round based on statistics
+ * Uses the selection strategy for the configured mode to prioritize
+ * struggling (or due) words; words never tried count as struggling
+ *
+ * @param canSpeak - Whether the word can be spoken; without speech a word
+ * with no picture gives the child nothing to spell, so only pictured words
+ * are used
+ */
+export async function generateRound(
+  config: WordBuildingConfig,
+  profileId: number,
+  canSpeak: boolean
+): Promise<WordBuildingItem[]> {
+  // Fetch statistics and review schedules for this profile only
+  const [allStats, schedules] = await Promise.all([
+    db.wordBuildingStatistics.where('profileId').equals(profileId).toArray(),
+    getReviewSchedules(profileId, 'word-building'),
+  ]);
+
+  const statsById = new Map(allStats.map((stat) => [stat.itemId, stat]));
+  const words = canSpeak ? CVC_WORDS : CVC_WORDS.filter((cvcWord) => cvcWord.image);
+
+  const selected = selectRound(
+    words.map((cvcWord) => ({
+      itemId: cvcWord.word,
+      value: cvcWord,
+      stat: statsById.get(cvcWord.word),
+      schedule: schedules.get(cvcWord.word),
+    })),
+    { roundSize: config.roundSize, mode: config.difficulty }
+  );
+
+  return selected.map((cvcWord) => buildItem(cvcWord, config));
+}
+
+/**
+ * Record a checked word to the database
+ * The word counts as correct only when every letter is right; each wrong
+ * slot adds to that position's error count
+ */
+export async function recordAnswer(
+  item: WordBuildingItem,
+  results: SlotResult[],
+  profileId: number,
+  responseTimeMs?: number
+): Promise<void> {
+  // Get existing statistics or create new
+  let stat: WordBuildingStatistics | undefined = await db.wordBuildingStatistics
+    .where('[profileId+word]')
+    .equals([profileId, item.word])
+    .first();
+
+  if (!stat) {
+    stat = {
+      gameId: 'word-building',
+      profileId,
+      itemId: item.itemId,
+      word: item.word,
+      totalAttempts: 0,
+      correctCount: 0,
+      incorrectCount: 0,
+      lastAttempt: new Date(),
+      successRate: 0,
+      onsetErrors: 0,
+      vowelErrors: 0,
+      codaErrors: 0,
+    };
+  }
+
+  // Update counts
+  const [onset, vowel, coda] = results;
+  stat.totalAttempts++;
+  if (results.every((result) => result === 'correct')) {
+    stat.correctCount++;
+  } else {
+    stat.incorrectCount++;
+  }
+  if (onset === 'incorrect') stat.onsetErrors++;
+  if (vowel === 'incorrect') stat.vowelErrors++;
+  if (coda === 'incorrect') stat.codaErrors++;
+
+  // Recalculate success rate
+  stat.successRate = stat.correctCount / stat.totalAttempts;
+  stat.lastAttempt = new Date();
+  applyResponseTime(stat, responseTimeMs);
+
+  // Save to database
+  await db.wordBuildingStatistics.put(stat);
+}
+
+/**
+ * Reset all word statistics for a specific profile
+ */
+export async function resetAllStatistics(profileId: number): Promise<void> {
+  await resetGameStatistics('word-building', profileId);
+}
@@ -0,0 +1,42 @@
+/**
+ * Word Builder Words
+ * Consonant-vowel-consonant words, each letter making its common sound
+ */
+
+import type { CvcWord } from '@/types/word-building';
+
+/**
+ * Words with a bundled picture (public/images) show it; the others are
+ * only spoken. No word repeats a letter, so every tile is distinct
+ */
+export const CVC_WORDS: CvcWord[] = [
+  // Short a
+  { word: 'cat', image: '/images/cat.svg' },
+  { word: 'hat', image: '/images/hat.svg' },
+  { word: 'van', image: '/images/van.svg' },
+  { word: 'jam' },
+  { word: 'map' },
+  // Short e
+  { word: 'bed', image: '/images/bed.svg' },
+  { word: 'web', image: '/images/web.svg' },
+  { word: 'hen' },
+  { word: 'net' },
+  { word: 'ten' },
+  // Short i
+  { word: 'pig', image: '/images/pig.svg' },
+  { word: 'fin' },
+  { word: 'lid' },
+  { word: 'six' },
+  // Short o
+  { word: 'dog', image: '/images/dog.svg' },
+  { word: 'box', image: '/images/box.svg' },
+  { word: 'pot', image: '/images/pot.svg' },
+  { word: 'fox' },
+  { word: 'mop' },
+  // Short u
+  { word: 'sun', image: '/images/sun.svg' },
+  { word: 'cup', image: '/images/cup.svg' },
+  { word: 'bus', image: '/images/bus.svg' },
+  { word: 'bug', image: '/images/bug.svg' },
+  { word: 'rug' },
+];
@@ -6,11 +6,16 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 
+/**
+ * Theme preference; 'auto' follows the device's light/dark setting
+ */
+export type ThemePreference = 'light' | 'dark' | 'auto' | 'high-contrast';
+
 interface AppState {
   // Settings
   soundEnabled: boolean;
   hapticEnabled: boolean;
-  theme: 'light' | 'dark' | 'auto';
+  theme: ThemePreference;
 
   // Navigation
   currentGameId: string | null;
@@ -21,7 +26,7 @@ interface AppState {
   // Actions
   setSoundEnabled: (enabled: boolean) => void;
   setHapticEnabled: (enabled: boolean) => void;
-  setTheme: (theme: 'light' | 'dark' | 'auto') => void;
+  setTheme: (theme: ThemePreference) => void;
   setCurrentGameId: (gameId: string | null) => void;
   setIsOnline: (isOnline: boolean) => void;
 }
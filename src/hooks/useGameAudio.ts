@@ -0,0 +1,33 @@
+/**
+ * Game Audio Hook
+ * Sound effects and speech gated by the global and per-game sound toggles
+ */
+
+import { useCallback } from 'react';
+import { useAppStore } from './useAppStore';
+import { playSoundEffect, type SoundEffect } from '@/lib/audio/sound-effects';
+import { speak } from '@/lib/audio/speech';
+
+/**
+ * @param gameSoundEnabled - The game's own soundEnabled setting
+ */
+export function useGameAudio(gameSoundEnabled: boolean) {
+  const appSoundEnabled = useAppStore((state) => state.soundEnabled);
+  const enabled = appSoundEnabled && gameSoundEnabled;
+
+  const playSound = useCallback(
+    (effect: SoundEffect) => {
+      if (enabled) playSoundEffect(effect);
+    },
+    [enabled]
+  );
+
+  const say = useCallback(
+    (text: string) => {
+      if (enabled) speak(text);
+    },
+    [enabled]
+  );
+
+  return { enabled, playSound, say };
+}
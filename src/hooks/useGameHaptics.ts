@@ -0,0 +1,26 @@
+/**
+ * Game Haptics Hook
+ * Vibration patterns gated by the global and per-game haptic toggles
+ */
+
+import { useCallback } from 'react';
+import { useAppStore } from './useAppStore';
+import { vibrate, type HapticPattern } from '@/lib/haptics/haptics';
+
+/**
+ * @param gameHapticEnabled - The game's own hapticEnabled setting (defaults to on
+ * for components outside a game, which only follow the global toggle)
+ */
+export function useGameHaptics(gameHapticEnabled = true) {
+  const appHapticEnabled = useAppStore((state) => state.hapticEnabled);
+  const enabled = appHapticEnabled && gameHapticEnabled;
+
+  const haptic = useCallback(
+    (pattern: HapticPattern) => {
+      if (enabled) vibrate(pattern);
+    },
+    [enabled]
+  );
+
+  return { enabled, haptic };
+}
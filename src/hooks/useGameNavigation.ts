@@ -0,0 +1,17 @@
+/**
+ * useGameNavigation Hook
+ * Route helpers for moving between a game and its screens
+ */
+
+import { useNavigate } from '@tanstack/react-router';
+import type { GameId } from '@/types/game';
+
+export function useGameNavigation(gameId: GameId) {
+  const navigate = useNavigate();
+
+  return {
+    goHome: () => navigate({ to: '/' }),
+    openSettings: () => navigate({ to: '/games/$gameId/settings', params: { gameId } }),
+    openProgress: () => navigate({ to: '/games/$gameId/progress', params: { gameId } }),
+  };
+}
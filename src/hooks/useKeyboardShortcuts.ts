@@ -0,0 +1,56 @@
+/**
+ * Keyboard Shortcuts Hook
+ * Maps key presses to actions while a screen is active
+ */
+
+import { useEffect, useRef } from 'react';
+
+/**
+ * Actions by KeyboardEvent.key (letters in lowercase, ' ' for Space)
+ */
+export type KeyBindings = Record<string, () => void>;
+
+/**
+ * Whether a key press belongs to a form field rather than the shortcuts
+ */
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
+
+/**
+ * @param bindings - Key to action map (may change on every render)
+ * @param enabled - Turn all shortcuts off (e.g. while an overlay is open)
+ */
+export function useKeyboardShortcuts(bindings: KeyBindings, enabled = true) {
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isTypingTarget(event.target)) return;
+
+      const key = event.key.length === 1 ? event.key.toLowerCase() : event.key;
+
+      // Space and Enter on a focused button press that button instead
+      if ((key === ' ' || key === 'Enter') && event.target instanceof HTMLButtonElement) return;
+
+      const action = bindingsRef.current[key];
+      if (!action) return;
+
+      event.preventDefault();
+      action();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
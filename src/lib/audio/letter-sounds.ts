@@ -0,0 +1,73 @@
+/**
+ * Letter Sounds
+ * Plays the sound a letter makes: the parent's recording when there is one,
+ * otherwise a synthesized approximation (on-device voices, works offline)
+ */
+
+import { speak, stopSpeaking } from './speech';
+import { getLetterRecording } from '@/lib/storage/recordings';
+
+/**
+ * Spellings that speech synthesis reads as the letter's (short) sound
+ * These are approximations; a parent recording is always more accurate
+ */
+const SYNTHESIZED_SOUNDS: Record<string, string> = {
+  A: 'aah', B: 'buh', C: 'kuh', D: 'duh', E: 'eh', F: 'fff', G: 'guh',
+  H: 'huh', I: 'ih', J: 'juh', K: 'kuh', L: 'lll', M: 'mmm', N: 'nnn',
+  O: 'aw', P: 'puh', Q: 'kwuh', R: 'rrr', S: 'sss', T: 'tuh', U: 'uh',
+  V: 'vvv', W: 'wuh', X: 'ks', Y: 'yuh', Z: 'zzz',
+};
+
+/**
+ * Letters that make the same sound: never offered together, or the child
+ * couldn't tell which one is meant
+ */
+export const SAME_SOUND: Record<string, string[]> = {
+  C: ['K', 'Q'],
+  K: ['C', 'Q'],
+  Q: ['C', 'K'],
+};
+
+let currentAudio: HTMLAudioElement | null = null;
+
+/**
+ * Stop a recording that is still playing
+ */
+function stopRecordingPlayback(): void {
+  if (!currentAudio) return;
+  currentAudio.pause();
+  URL.revokeObjectURL(currentAudio.src);
+  currentAudio = null;
+}
+
+/**
+ * Play an audio Blob, interrupting anything still playing
+ */
+export function playAudioBlob(audio: Blob): void {
+  stopRecordingPlayback();
+  stopSpeaking();
+
+  const element = new Audio(URL.createObjectURL(audio));
+  element.onended = () => {
+    if (currentAudio === element) stopRecordingPlayback();
+  };
+  currentAudio = element;
+  element.play().catch((error) => console.error('Failed to play recording:', error));
+}
+
+/**
+ * Play a letter's sound
+ * Callers decide when to play; the sound is the question, so it isn't
+ * gated by the sound effect settings
+ */
+export async function playLetterSound(letter: string): Promise<void> {
+  const recording = await getLetterRecording(letter);
+
+  if (recording) {
+    playAudioBlob(recording.audio);
+    return;
+  }
+
+  stopRecordingPlayback();
+  speak(SYNTHESIZED_SOUNDS[letter.toUpperCase()] ?? letter);
+}
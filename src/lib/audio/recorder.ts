@@ -0,0 +1,57 @@
+/**
+ * Recorder
+ * Short microphone recordings with MediaRecorder (used for parent-recorded sounds)
+ */
+
+/**
+ * A recording in progress
+ */
+export interface ActiveRecording {
+  stop: () => Promise<Blob>; // Finish and return the audio
+  cancel: () => void; // Finish and discard the audio
+}
+
+/**
+ * Check whether the browser can record from the microphone
+ */
+export function isRecordingSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'MediaRecorder' in window &&
+    !!navigator.mediaDevices?.getUserMedia
+  );
+}
+
+/**
+ * Start recording from the microphone
+ * Rejects when the microphone is unavailable or permission is denied
+ */
+export async function startRecording(): Promise<ActiveRecording> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+
+  // Release the microphone (and its indicator) as soon as recording ends
+  const release = () => stream.getTracks().forEach((track) => track.stop());
+
+  recorder.start();
+
+  return {
+    stop: () =>
+      new Promise((resolve) => {
+        recorder.onstop = () => {
+          release();
+          resolve(new Blob(chunks, { type: recorder.mimeType }));
+        };
+        recorder.stop();
+      }),
+    cancel: () => {
+      recorder.onstop = release;
+      recorder.stop();
+    },
+  };
+}
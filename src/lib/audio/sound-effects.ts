@@ -0,0 +1,97 @@
+/**
+ * Sound Effects
+ * Chimes synthesized with the Web Audio API (no audio files, works offline)
+ */
+
+export type SoundEffect = 'correct' | 'incorrect' | 'round-complete';
+
+interface Note {
+  frequency: number; // Hz
+  start: number; // Seconds after the effect starts
+  duration: number; // Seconds
+  type?: OscillatorType;
+}
+
+/**
+ * Notes making up each effect
+ * Correct rises, incorrect falls gently (never harsh), round complete is a fanfare
+ */
+const EFFECTS: Record<SoundEffect, Note[]> = {
+  correct: [
+    { frequency: 523.25, start: 0, duration: 0.15 }, // C5
+    { frequency: 783.99, start: 0.1, duration: 0.25 }, // G5
+  ],
+  incorrect: [
+    { frequency: 329.63, start: 0, duration: 0.2, type: 'triangle' }, // E4
+    { frequency: 261.63, start: 0.15, duration: 0.3, type: 'triangle' }, // C4
+  ],
+  'round-complete': [
+    { frequency: 523.25, start: 0, duration: 0.15 }, // C5
+    { frequency: 659.25, start: 0.12, duration: 0.15 }, // E5
+    { frequency: 783.99, start: 0.24, duration: 0.15 }, // G5
+    { frequency: 1046.5, start: 0.36, duration: 0.6 }, // C6
+    { frequency: 659.25, start: 0.36, duration: 0.6 }, // E5
+  ],
+};
+
+const PEAK_VOLUME = 0.25;
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Get the shared audio context, created on first use
+ * Returns null when Web Audio isn't available
+ */
+function getAudioContext(): AudioContext | null {
+  if (audioContext) return audioContext;
+  if (typeof window === 'undefined' || !('AudioContext' in window)) return null;
+
+  audioContext = new AudioContext();
+  return audioContext;
+}
+
+/**
+ * Play a single note with a short attack and exponential decay
+ */
+function playNote(context: AudioContext, note: Note, startTime: number): void {
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+
+  const start = startTime + note.start;
+  const end = start + note.duration;
+
+  oscillator.type = note.type ?? 'sine';
+  oscillator.frequency.setValueAtTime(note.frequency, start);
+
+  gain.gain.setValueAtTime(0.0001, start);
+  gain.gain.exponentialRampToValueAtTime(PEAK_VOLUME, start + 0.01);
+  gain.gain.exponentialRampToValueAtTime(0.0001, end);
+
+  oscillator.connect(gain);
+  gain.connect(context.destination);
+
+  oscillator.start(start);
+  oscillator.stop(end + 0.05);
+}
+
+/**
+ * Play a sound effect
+ * Callers are responsible for checking the sound settings
+ */
+export function playSoundEffect(effect: SoundEffect): void {
+  const context = getAudioContext();
+  if (!context) return;
+
+  try {
+    // Browsers suspend the context until a user gesture; games call this from taps/swipes
+    if (context.state === 'suspended') {
+      context.resume().catch(() => undefined);
+    }
+
+    for (const note of EFFECTS[effect]) {
+      playNote(context, note, context.currentTime);
+    }
+  } catch (error) {
+    console.error(`Failed to play ${effect} sound:`, error);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Speech
+ * Spoken prompts via the browser's speechSynthesis (uses on-device voices)
+ */
+
+const SPEECH_RATE = 0.8; // Slightly slower for young listeners
+const SPEECH_LANG = 'en-US';
+
+/**
+ * Spelled-out letter names
+ * Speaking a bare "A" is often read as the article, so letters are spelled out
+ */
+const LETTER_NAMES: Record<string, string> = {
+  a: 'ay', b: 'bee', c: 'see', d: 'dee', e: 'ee', f: 'ef', g: 'jee',
+  h: 'aitch', i: 'eye', j: 'jay', k: 'kay', l: 'el', m: 'em', n: 'en',
+  o: 'oh', p: 'pee', q: 'cue', r: 'ar', s: 'ess', t: 'tee', u: 'you',
+  v: 'vee', w: 'double you', x: 'ex', y: 'why', z: 'zee',
+};
+
+/**
+ * Pronounceable name of a letter (other characters are returned as-is)
+ */
+export function getLetterName(character: string): string {
+  return LETTER_NAMES[character.toLowerCase()] ?? character;
+}
+
+/**
+ * Check whether speech synthesis is available
+ */
+export function isSpeechSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window;
+}
+
+/**
+ * Speak text, interrupting anything still being said
+ * Callers are responsible for checking the sound settings
+ */
+export function speak(text: string): void {
+  if (!isSpeechSupported()) return;
+
+  window.speechSynthesis.cancel();
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.rate = SPEECH_RATE;
+  utterance.lang = SPEECH_LANG;
+  window.speechSynthesis.speak(utterance);
+}
+
+/**
+ * Stop any speech in progress
+ */
+export function stopSpeaking(): void {
+  if (!isSpeechSupported()) return;
+  window.speechSynthesis.cancel();
+}
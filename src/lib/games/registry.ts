@@ -5,6 +5,15 @@
 
 import type { GameConfig, GameId } from '@/types/game';
 
+/**
+ * Props passed to a game's settings and progress screens
+ * These render as overlays on top of the game at their own routes
+ */
+export interface GameOverlayProps {
+  onClose: () => void;
+  onViewProgress?: () => void;
+}
+
 /**
  * Game module interface
  * Each game must implement this structure
@@ -12,6 +21,8 @@ import type { GameConfig, GameId } from '@/types/game';
 export interface GameModule {
   config: GameConfig;
   Component: React.ComponentType;
+  SettingsComponent?: React.ComponentType<GameOverlayProps>; // /games/:gameId/settings
+  ProgressComponent?: React.ComponentType<GameOverlayProps>; // /games/:gameId/progress
 }
 
 /**
@@ -106,6 +117,13 @@ export function getAllGames(): GameModule[] {
   return gameRegistry.getAllGames();
 }
 
+/**
+ * Check whether a string (e.g. a route param) is a registered game id
+ */
+export function isRegisteredGame(id: string): id is GameId {
+  return gameRegistry.hasGame(id as GameId);
+}
+
 /**
  * Helper function to get all game configs
  */
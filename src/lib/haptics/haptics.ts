@@ -0,0 +1,46 @@
+/**
+ * Haptics
+ * Named vibration patterns with feature detection
+ */
+
+export type HapticPattern = 'correct' | 'incorrect' | 'round-complete' | 'streak' | 'button';
+
+/**
+ * Vibration patterns in ms (vibrate, pause, vibrate...)
+ * Kept short and distinct enough to tell apart without looking
+ */
+const PATTERNS: Record<HapticPattern, number | number[]> = {
+  correct: 40,
+  incorrect: [30, 60, 30],
+  'round-complete': [60, 80, 60, 80, 150],
+  streak: [40, 40, 40, 40, 40],
+  button: 10,
+};
+
+/**
+ * Streak lengths that trigger the streak pattern (every 5 in a row)
+ */
+export const STREAK_MILESTONE = 5;
+
+/**
+ * Check whether the device can vibrate
+ * iOS Safari and most desktops don't implement the Vibration API
+ */
+export function isHapticsSupported(): boolean {
+  return typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function';
+}
+
+/**
+ * Play a vibration pattern
+ * Callers are responsible for checking the haptic settings; unsupported
+ * devices silently do nothing
+ */
+export function vibrate(pattern: HapticPattern): void {
+  if (!isHapticsSupported()) return;
+
+  try {
+    navigator.vibrate(PATTERNS[pattern]);
+  } catch {
+    // Some browsers throw when vibration is blocked (e.g. before user interaction)
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { selectRound, type RoundItem } from './selection-strategy';
+import { createSchedule } from './spaced-repetition';
+import type { GameStatistics } from '@/types/game';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function stat(itemId: string, successRate: number): GameStatistics {
+  return {
+    gameId: 'letter-match',
+    profileId: 1,
+    itemId,
+    totalAttempts: 10,
+    correctCount: Math.round(successRate * 10),
+    incorrectCount: 10 - Math.round(successRate * 10),
+    lastAttempt: new Date(),
+    successRate,
+  };
+}
+
+const items: RoundItem<string>[] = ['A', 'B', 'C', 'D', 'E'].map((letter) => ({
+  itemId: letter,
+  value: letter,
+}));
+
+describe('selectRound', () => {
+  it('returns the requested number of distinct items', () => {
+    const round = selectRound(items, { roundSize: 3, mode: 'auto' });
+    expect(round).toHaveLength(3);
+    expect(new Set(round).size).toBe(3);
+  });
+
+  it('never returns more items than there are candidates', () => {
+    expect(selectRound(items, { roundSize: 20, mode: 'easy' }).sort()).toEqual([
+      'A',
+      'B',
+      'C',
+      'D',
+      'E',
+    ]);
+  });
+
+  it('favours struggling items in weighted modes', () => {
+    const weighted: RoundItem<string>[] = items.map((item) => ({
+      ...item,
+      stat: stat(item.itemId, item.itemId === 'A' ? 0 : 1),
+    }));
+
+    let picked = 0;
+    for (let i = 0; i < 200; i++) {
+      if (selectRound(weighted, { roundSize: 1, mode: 'auto' })[0] === 'A') picked++;
+    }
+    expect(picked).toBeGreaterThan(100);
+  });
+
+  it('picks due items first in spaced mode', () => {
+    const now = new Date();
+    const spaced: RoundItem<string>[] = items.map((item) => ({
+      ...item,
+      schedule: {
+        ...createSchedule(now),
+        interval: 1,
+        repetitions: 1,
+        dueDate: new Date(now.getTime() + (item.itemId === 'C' ? -DAY_MS : DAY_MS)),
+      },
+    }));
+
+    expect(selectRound(spaced, { roundSize: 1, mode: 'spaced' })).toEqual(['C']);
+  });
+
+  it('brings hesitant, skipped and boosted items back sooner in spaced mode', () => {
+    const now = new Date();
+    const scheduled = (item: RoundItem<string>): RoundItem<string> => ({
+      ...item,
+      stat: stat(item.itemId, 1),
+      schedule: {
+        ...createSchedule(now),
+        interval: 4,
+        repetitions: 2,
+        dueDate: new Date(now.getTime() + DAY_MS),
+      },
+    });
+
+    const hesitant = items.map(scheduled);
+    hesitant[1].stat = {
+      ...hesitant[1].stat!,
+      medianResponseTime: 8000,
+      recentResponseTimes: [8000, 8000, 8000],
+    };
+    expect(selectRound(hesitant, { roundSize: 1, mode: 'spaced' })).toEqual(['B']);
+
+    const skipped = items.map(scheduled);
+    skipped[2].stat = { ...skipped[2].stat!, skippedCount: 10 };
+    expect(selectRound(skipped, { roundSize: 1, mode: 'spaced' })).toEqual(['C']);
+
+    const boosted = items.map(scheduled);
+    boosted[3].boost = 2;
+    expect(selectRound(boosted, { roundSize: 1, mode: 'spaced' })).toEqual(['D']);
+  });
+});
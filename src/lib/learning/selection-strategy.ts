@@ -0,0 +1,172 @@
+/**
+ * Adaptive Learning: Selection Strategies
+ *
+ * Single entry point games use to build a round. A game describes its
+ * candidate items (with their statistics and review schedule) and asks
+ * for a round; the strategy registered for the selected mode decides
+ * which items are picked.
+ */
+
+import type { Difficulty, GameStatistics, SelectionMode, WeightedItem } from '@/types/game';
+import {
+  adjustWeightsForDifficulty,
+  calculateReviewBoost,
+  calculateWeight,
+  shuffleArray,
+  weightedRandomSelection,
+  type DifficultyCurve,
+} from './weighted-selection';
+import { selectDueItems, type ScheduleState } from './spaced-repetition';
+
+/**
+ * Candidate item offered to a selection strategy
+ */
+export interface RoundItem<T> {
+  itemId: string; // Stable id, matches the game's statistics row
+  value: T; // Game-specific item returned when selected
+  stat?: GameStatistics; // Missing = never attempted
+  schedule?: ScheduleState; // Missing = never reviewed
+  boost?: number; // Weight multiplier for items the game wants to favour
+}
+
+/**
+ * Options for building a round
+ */
+export interface RoundOptions {
+  roundSize: number;
+  mode: SelectionMode;
+  curves?: Partial<Record<Difficulty, DifficultyCurve>>; // Override difficulty curves
+}
+
+/**
+ * Selection strategy interface
+ * Each strategy handles one or more selection modes
+ */
+export interface SelectionStrategy {
+  id: string;
+  modes: SelectionMode[];
+  select: (items: RoundItem<unknown>[], options: RoundOptions) => string[];
+}
+
+/**
+ * Weighted random selection
+ * Lower success rate = higher weight, shaped by the difficulty curve
+ */
+export const weightedStrategy: SelectionStrategy = {
+  id: 'weighted',
+  modes: ['easy', 'auto', 'hard'],
+  select: (items, { roundSize, mode, curves }) => {
+    const weights: WeightedItem[] = items.map((item) => ({
+      itemId: item.itemId,
+      weight: (item.stat ? calculateWeight(item.stat) : 1.0) * (item.boost ?? 1),
+    }));
+
+    const difficulty: Difficulty = mode === 'spaced' ? 'auto' : mode;
+
+    return weightedRandomSelection(
+      adjustWeightsForDifficulty(weights, difficulty, curves),
+      Math.min(roundSize, items.length),
+      false
+    );
+  },
+};
+
+/**
+ * Spaced repetition
+ * Items due for review first, then new items, then upcoming ones
+ * Hesitant or skipped answers and the item's boost bring it back sooner
+ */
+export const spacedRepetitionStrategy: SelectionStrategy = {
+  id: 'spaced',
+  modes: ['spaced'],
+  select: (items, { roundSize }) => {
+    const schedules = new Map<string, ScheduleState>();
+    const priorities = new Map<string, number>();
+    for (const item of items) {
+      if (item.schedule) {
+        schedules.set(item.itemId, item.schedule);
+      }
+      priorities.set(
+        item.itemId,
+        (item.stat ? calculateReviewBoost(item.stat) : 1) * (item.boost ?? 1)
+      );
+    }
+
+    return selectDueItems(
+      items.map((item) => item.itemId),
+      schedules,
+      roundSize,
+      new Date(),
+      priorities
+    );
+  },
+};
+
+/**
+ * Registry of available selection strategies
+ */
+class SelectionStrategyRegistry {
+  private strategies: Map<string, SelectionStrategy> = new Map();
+
+  /**
+   * Register a strategy
+   */
+  register(strategy: SelectionStrategy): void {
+    if (this.strategies.has(strategy.id)) {
+      console.warn(`Selection strategy ${strategy.id} is already registered`);
+      return;
+    }
+
+    this.strategies.set(strategy.id, strategy);
+  }
+
+  /**
+   * Get the strategy handling a selection mode
+   * Later registrations take precedence over earlier ones
+   */
+  getStrategyForMode(mode: SelectionMode): SelectionStrategy | undefined {
+    return Array.from(this.strategies.values())
+      .reverse()
+      .find((strategy) => strategy.modes.includes(mode));
+  }
+
+  /**
+   * Unregister a strategy (mainly for testing)
+   */
+  unregister(id: string): boolean {
+    return this.strategies.delete(id);
+  }
+}
+
+// Export singleton instance with the built-in strategies
+export const selectionStrategyRegistry = new SelectionStrategyRegistry();
+selectionStrategyRegistry.register(weightedStrategy);
+selectionStrategyRegistry.register(spacedRepetitionStrategy);
+
+/**
+ * Helper function to register a strategy
+ */
+export function registerSelectionStrategy(strategy: SelectionStrategy): void {
+  selectionStrategyRegistry.register(strategy);
+}
+
+/**
+ * Build a round from candidate items
+ *
+ * @param items - Candidate items with their statistics
+ * @param options - Round size, selection mode and optional curve overrides
+ * @returns Selected item values in random order
+ */
+export function selectRound<T>(items: RoundItem<T>[], options: RoundOptions): T[] {
+  const strategy =
+    selectionStrategyRegistry.getStrategyForMode(options.mode) ?? weightedStrategy;
+
+  const itemsById = new Map(items.map((item) => [item.itemId, item]));
+  const selectedIds = strategy.select(items, options);
+
+  // Shuffle to randomize order (strategies only affect selection, not order)
+  return shuffleArray(selectedIds)
+    .map((itemId) => itemsById.get(itemId))
+    .filter((item): item is RoundItem<T> => item !== undefined)
+    .map((item) => item.value);
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_EASE_FACTOR,
+  createSchedule,
+  isDue,
+  selectDueItems,
+  updateSchedule,
+  type ScheduleState,
+} from './spaced-repetition';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const NOW = new Date('2026-01-10T12:00:00Z');
+
+function daysFromNow(days: number): Date {
+  return new Date(NOW.getTime() + days * DAY_MS);
+}
+
+function scheduleDue(dueInDays: number, interval = 1): ScheduleState {
+  return { ...createSchedule(NOW), interval, repetitions: 1, dueDate: daysFromNow(dueInDays) };
+}
+
+describe('updateSchedule', () => {
+  it('grows the interval 1 → 3 → interval × ease', () => {
+    const first = updateSchedule(createSchedule(NOW), true, NOW);
+    expect(first.interval).toBe(1);
+    expect(first.dueDate).toEqual(daysFromNow(1));
+
+    const second = updateSchedule(first, true, NOW);
+    expect(second.interval).toBe(3);
+
+    const third = updateSchedule(second, true, NOW);
+    expect(third.interval).toBe(Math.round(3 * second.easeFactor));
+    expect(third.repetitions).toBe(3);
+  });
+
+  it('resets repetitions and makes the item due now after a mistake', () => {
+    let schedule = createSchedule(NOW);
+    for (let i = 0; i < 3; i++) schedule = updateSchedule(schedule, true, NOW);
+
+    const missed = updateSchedule(schedule, false, NOW);
+    expect(missed.interval).toBe(0);
+    expect(missed.repetitions).toBe(0);
+    expect(isDue(missed, NOW)).toBe(true);
+  });
+
+  it('keeps the ease factor between 1.3 and 3.0', () => {
+    let schedule = createSchedule(NOW);
+    for (let i = 0; i < 20; i++) schedule = updateSchedule(schedule, false, NOW);
+    expect(schedule.easeFactor).toBeCloseTo(1.3);
+
+    for (let i = 0; i < 20; i++) schedule = updateSchedule(schedule, true, NOW);
+    expect(schedule.easeFactor).toBeCloseTo(3.0);
+  });
+
+  it('starts new items at the default ease, due immediately', () => {
+    const schedule = createSchedule(NOW);
+    expect(schedule.easeFactor).toBe(DEFAULT_EASE_FACTOR);
+    expect(isDue(schedule, NOW)).toBe(true);
+  });
+});
+
+describe('selectDueItems', () => {
+  it('picks due items before unseen ones, and unseen before upcoming', () => {
+    const schedules = new Map<string, ScheduleState>([
+      ['due', scheduleDue(-1)],
+      ['upcoming', scheduleDue(2)],
+    ]);
+
+    expect(selectDueItems(['upcoming', 'unseen', 'due'], schedules, 3, NOW)).toEqual([
+      'due',
+      'unseen',
+      'upcoming',
+    ]);
+  });
+
+  it('orders due items by how overdue they are relative to their interval', () => {
+    const schedules = new Map<string, ScheduleState>([
+      ['slightly', scheduleDue(-2, 10)],
+      ['very', scheduleDue(-2, 1)],
+    ]);
+
+    expect(selectDueItems(['slightly', 'very'], schedules, 2, NOW)).toEqual(['very', 'slightly']);
+  });
+
+  it('fills the round with the soonest upcoming items', () => {
+    const schedules = new Map<string, ScheduleState>([
+      ['later', scheduleDue(5)],
+      ['sooner', scheduleDue(1)],
+    ]);
+
+    expect(selectDueItems(['later', 'sooner'], schedules, 1, NOW)).toEqual(['sooner']);
+  });
+
+  it('brings items with a higher priority back early', () => {
+    const schedules = new Map<string, ScheduleState>([
+      ['steady', scheduleDue(-0.5, 4)],
+      ['hesitant', scheduleDue(1, 4)],
+    ]);
+    const priorities = new Map([['hesitant', 2]]);
+
+    // Due in 1 day, brought forward by half its 4-day interval
+    expect(selectDueItems(['steady', 'hesitant'], schedules, 2, NOW, priorities)).toEqual([
+      'hesitant',
+      'steady',
+    ]);
+    expect(selectDueItems(['steady', 'hesitant'], schedules, 2, NOW)).toEqual([
+      'steady',
+      'hesitant',
+    ]);
+  });
+
+  it('picks unseen items with a higher priority first', () => {
+    const priorities = new Map([['skipped', 1.5]]);
+
+    expect(selectDueItems(['a', 'b', 'skipped', 'c'], new Map(), 1, NOW, priorities)).toEqual([
+      'skipped',
+    ]);
+  });
+});
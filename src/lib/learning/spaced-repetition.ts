@@ -0,0 +1,165 @@
+/**
+ * Adaptive Learning Algorithm: Spaced Repetition
+ *
+ * SM-2 style scheduler adapted to a right/wrong answer.
+ * Each item keeps an interval, ease factor and due date; rounds are
+ * built from the items that are due first, so a letter mastered long ago
+ * comes back for review while one mastered today waits its turn.
+ */
+
+import type { ReviewSchedule } from '@/types/game';
+import { shuffleArray } from './weighted-selection';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Scheduler constants
+ */
+export const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const MAX_EASE_FACTOR = 3.0;
+const EASE_BONUS = 0.1; // SM-2 quality 5 (correct)
+const EASE_PENALTY = 0.2; // SM-2 quality 1-2 (incorrect)
+
+/**
+ * Scheduling fields of a review schedule
+ */
+export type ScheduleState = Pick<
+  ReviewSchedule,
+  'interval' | 'easeFactor' | 'repetitions' | 'dueDate' | 'lastReviewed'
+>;
+
+/**
+ * Create the schedule for an item that has never been reviewed
+ * New items are due immediately
+ */
+export function createSchedule(now: Date = new Date()): ScheduleState {
+  return {
+    interval: 0,
+    easeFactor: DEFAULT_EASE_FACTOR,
+    repetitions: 0,
+    dueDate: now,
+    lastReviewed: now,
+  };
+}
+
+/**
+ * Calculate the next schedule after an answer
+ *
+ * Correct: interval grows 1 → 3 → interval × ease days
+ * Incorrect: repetitions reset and the item is due again right away
+ */
+export function updateSchedule(
+  schedule: ScheduleState,
+  correct: boolean,
+  now: Date = new Date()
+): ScheduleState {
+  if (!correct) {
+    return {
+      interval: 0,
+      easeFactor: Math.max(MIN_EASE_FACTOR, schedule.easeFactor - EASE_PENALTY),
+      repetitions: 0,
+      dueDate: now,
+      lastReviewed: now,
+    };
+  }
+
+  const repetitions = schedule.repetitions + 1;
+  let interval: number;
+
+  if (repetitions === 1) {
+    interval = 1;
+  } else if (repetitions === 2) {
+    interval = 3;
+  } else {
+    interval = Math.round(schedule.interval * schedule.easeFactor);
+  }
+
+  return {
+    interval,
+    easeFactor: Math.min(MAX_EASE_FACTOR, schedule.easeFactor + EASE_BONUS),
+    repetitions,
+    dueDate: new Date(now.getTime() + interval * DAY_MS),
+    lastReviewed: now,
+  };
+}
+
+/**
+ * Check whether an item is due for review
+ */
+export function isDue(schedule: ScheduleState, now: Date = new Date()): boolean {
+  return new Date(schedule.dueDate).getTime() <= now.getTime();
+}
+
+/**
+ * Due date moved forward for an item with a review priority above 1
+ * Priority 2 brings the item back half an interval early, priority 4 three quarters early
+ */
+function effectiveDueTime(schedule: ScheduleState, priority: number): number {
+  const earlyShare = 1 - 1 / Math.max(priority, 1);
+  return new Date(schedule.dueDate).getTime() - schedule.interval * DAY_MS * earlyShare;
+}
+
+/**
+ * How overdue an item is, relative to its interval
+ * 0 = due right now, 1 = overdue by a full interval
+ */
+function overdueRatio(schedule: ScheduleState, now: Date, priority: number): number {
+  const overdueDays = (now.getTime() - effectiveDueTime(schedule, priority)) / DAY_MS;
+  return overdueDays / Math.max(schedule.interval, 1);
+}
+
+/**
+ * Select items for a round using spaced repetition
+ *
+ * Order of preference:
+ * 1. Due items that were reviewed before (most overdue first)
+ * 2. Items never reviewed (highest priority first, otherwise random)
+ * 3. Items not yet due (soonest due first) to fill the round
+ *
+ * Schedules only see right and wrong answers. Signals they miss (hesitant
+ * answers, skips, a game's own boost) come in as priorities: an item with
+ * priority above 1 is due earlier and counts as more overdue.
+ *
+ * @param itemIds - All items eligible for the round
+ * @param schedules - Known schedules, keyed by item id
+ * @param count - Number of items to select
+ * @param priorities - Review priorities keyed by item id, 1 when missing
+ * @returns Selected item IDs (unshuffled)
+ */
+export function selectDueItems(
+  itemIds: string[],
+  schedules: Map<string, ScheduleState>,
+  count: number,
+  now: Date = new Date(),
+  priorities: Map<string, number> = new Map()
+): string[] {
+  const priority = (itemId: string) => priorities.get(itemId) ?? 1;
+  const dueTime = (itemId: string) => effectiveDueTime(schedules.get(itemId)!, priority(itemId));
+
+  const due: string[] = [];
+  const unseen: string[] = [];
+  const upcoming: string[] = [];
+
+  for (const itemId of itemIds) {
+    if (!schedules.has(itemId)) {
+      unseen.push(itemId);
+    } else if (dueTime(itemId) <= now.getTime()) {
+      due.push(itemId);
+    } else {
+      upcoming.push(itemId);
+    }
+  }
+
+  due.sort(
+    (a, b) =>
+      overdueRatio(schedules.get(b)!, now, priority(b)) -
+      overdueRatio(schedules.get(a)!, now, priority(a))
+  );
+  upcoming.sort((a, b) => dueTime(a) - dueTime(b));
+
+  // Shuffled first so unseen items of equal priority stay in random order
+  const unseenByPriority = shuffleArray(unseen).sort((a, b) => priority(b) - priority(a));
+
+  return [...due, ...unseenByPriority, ...upcoming].slice(0, count);
+}
@@ -7,9 +7,60 @@
 
 import type { GameStatistics, WeightedItem, Difficulty } from '@/types/game';
 
+/**
+ * Median response times (ms) between which an item goes from fluent to hesitant
+ */
+const FLUENT_RESPONSE_TIME = 3000;
+const HESITANT_RESPONSE_TIME = 8000;
+
+/**
+ * Timed attempts needed before response times affect the weight
+ */
+const MIN_TIMED_ATTEMPTS = 3;
+
+/**
+ * Share of the remaining weight added for a fully hesitant item
+ */
+const HESITATION_WEIGHT = 0.5;
+
+/**
+ * Share of the remaining weight added for an item that is always skipped
+ * Lower than an incorrect answer: the child didn't try rather than got it wrong
+ */
+const SKIP_WEIGHT = 0.5;
+
+/**
+ * How hesitant answers to an item are, from 0 (fluent) to 1 (slow)
+ */
+export function calculateHesitation(stat: GameStatistics): number {
+  if (
+    stat.medianResponseTime === undefined ||
+    (stat.recentResponseTimes?.length ?? 0) < MIN_TIMED_ATTEMPTS
+  ) {
+    return 0;
+  }
+
+  const hesitation =
+    (stat.medianResponseTime - FLUENT_RESPONSE_TIME) /
+    (HESITANT_RESPONSE_TIME - FLUENT_RESPONSE_TIME);
+
+  return Math.min(Math.max(hesitation, 0), 1);
+}
+
+/**
+ * Share of an item's answers that were skips, from 0 to 1
+ */
+function calculateSkipShare(stat: GameStatistics): number {
+  const skippedCount = stat.skippedCount ?? 0;
+  const answers = stat.totalAttempts + skippedCount;
+  return answers > 0 ? skippedCount / answers : 0;
+}
+
 /**
  * Calculate weight for an item based on its statistics
  * Lower success rate = higher weight = more likely to appear
+ * Slow answers raise the weight too, so correct-but-hesitant items keep coming back
+ * Skips raise it by less than an incorrect answer would
  */
 export function calculateWeight(stat: GameStatistics): number {
   // If never attempted, give high priority
@@ -23,6 +74,16 @@ export function calculateWeight(stat: GameStatistics): number {
   // Items with 100% success = weight of 0.0
   const errorWeight = 1 - stat.successRate;
 
+  // Fluency boost
+  // An item answered correctly after a long pause isn't mastered yet
+  const fluencyWeight =
+    errorWeight + (1 - errorWeight) * calculateHesitation(stat) * HESITATION_WEIGHT;
+
+  // Skip boost
+  // Skipped items aren't counted as wrong, but still come back more often
+  const skipAdjustedWeight =
+    fluencyWeight + (1 - fluencyWeight) * calculateSkipShare(stat) * SKIP_WEIGHT;
+
   // Recent attempts boost
   // Show recently missed items more frequently
   const daysSinceLastAttempt =
@@ -33,36 +94,53 @@ export function calculateWeight(stat: GameStatistics): number {
   // Minimum weight to ensure even mastered items occasionally appear
   const minimumWeight = 0.1;
 
-  return Math.max(errorWeight * recencyBoost, minimumWeight);
+  return Math.max(skipAdjustedWeight * recencyBoost, minimumWeight);
 }
 
+/**
+ * Review priority from hesitant and skipped answers, 1 = neither
+ * Used by spaced repetition, whose schedules only see right and wrong answers
+ */
+export function calculateReviewBoost(stat: GameStatistics): number {
+  return (
+    (1 + calculateHesitation(stat) * HESITATION_WEIGHT) *
+    (1 + calculateSkipShare(stat) * SKIP_WEIGHT)
+  );
+}
+
+/**
+ * Maps a base weight to a difficulty-adjusted weight
+ */
+export type DifficultyCurve = (weight: number) => number;
+
+/**
+ * Default difficulty curves
+ */
+export const DIFFICULTY_CURVES: Record<Difficulty, DifficultyCurve> = {
+  // Flatten weights for more even distribution
+  easy: (weight) => 0.3 + weight * 0.7, // Brings all weights closer to 1.0
+  // No adjustment
+  auto: (weight) => weight,
+  // Amplify weights to focus heavily on struggling items
+  hard: (weight) => Math.pow(weight, 1.5), // Squares weight differences
+};
+
 /**
  * Adjust weights based on difficulty setting
+ *
+ * @param curves - Overrides for individual difficulty curves
  */
 export function adjustWeightsForDifficulty(
   weights: WeightedItem[],
-  difficulty: Difficulty
+  difficulty: Difficulty,
+  curves: Partial<Record<Difficulty, DifficultyCurve>> = {}
 ): WeightedItem[] {
-  switch (difficulty) {
-    case 'easy':
-      // Flatten weights for more even distribution
-      return weights.map((w) => ({
-        ...w,
-        weight: 0.3 + w.weight * 0.7, // Brings all weights closer to 1.0
-      }));
-
-    case 'hard':
-      // Amplify weights to focus heavily on struggling items
-      return weights.map((w) => ({
-        ...w,
-        weight: Math.pow(w.weight, 1.5), // Squares weight differences
-      }));
-
-    case 'auto':
-    default:
-      // No adjustment
-      return weights;
-  }
+  const curve = curves[difficulty] ?? DIFFICULTY_CURVES[difficulty] ?? DIFFICULTY_CURVES.auto;
+
+  return weights.map((w) => ({
+    ...w,
+    weight: curve(w.weight),
+  }));
 }
 
 /**
@@ -108,7 +186,7 @@ export function weightedRandomSelection(
 
   for (let i = 0; i < count && available.length > 0; i++) {
     // Generate random number between 0 and 1
-    let random = Math.random();
+    const random = Math.random();
 
     // Select item based on cumulative probability
     let cumulativeWeight = 0;
@@ -0,0 +1,186 @@
+/**
+ * Parent Gate Store (Zustand)
+ * Keeps parent-only screens and actions locked behind a PIN or adult challenge
+ */
+
+import { create } from 'zustand';
+import { db } from '@/lib/storage/db';
+
+/**
+ * App setting keys
+ */
+const PIN_HASH_KEY = 'parentGate.pinHash';
+const PIN_SALT_KEY = 'parentGate.pinSalt';
+const TIMEOUT_KEY = 'parentGate.timeoutMinutes';
+
+/**
+ * Minutes the gate stays open after unlocking
+ */
+export const DEFAULT_TIMEOUT_MINUTES = 5;
+export const TIMEOUT_OPTIONS = [1, 5, 15, 30];
+
+export const PIN_LENGTH = 4;
+
+interface ParentGateState {
+  hasPin: boolean;
+  timeoutMinutes: number;
+  unlockedUntil: number | null; // Epoch ms, null = locked
+  pendingAction: (() => void) | null; // Runs once the gate is passed
+
+  // Actions
+  loadSettings: () => Promise<void>;
+  isUnlocked: () => boolean;
+  unlock: () => void;
+  lock: () => void;
+  requestAccess: (action: () => void) => void;
+  cancelRequest: () => void;
+  verifyPin: (pin: string) => Promise<boolean>;
+  setPin: (pin: string) => Promise<void>;
+  removePin: () => Promise<void>;
+  setTimeoutMinutes: (minutes: number) => Promise<void>;
+}
+
+// Timer that re-locks the gate when the unlock period ends
+let relockTimer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * SHA-256 hash of salt + PIN as a hex string
+ */
+async function hashPin(pin: string, salt: string): Promise<string> {
+  const data = new TextEncoder().encode(`${salt}:${pin}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Random salt stored next to the PIN hash
+ */
+function createSalt(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export const useParentGateStore = create<ParentGateState>()((set, get) => ({
+  hasPin: false,
+  timeoutMinutes: DEFAULT_TIMEOUT_MINUTES,
+  unlockedUntil: null,
+  pendingAction: null,
+
+  /**
+   * Load PIN presence and timeout from app settings
+   */
+  loadSettings: async () => {
+    try {
+      const [pinHash, timeout] = await Promise.all([
+        db.getSetting(PIN_HASH_KEY),
+        db.getSetting(TIMEOUT_KEY),
+      ]);
+      const timeoutMinutes = timeout ? parseInt(timeout, 10) : NaN;
+
+      set({
+        hasPin: !!pinHash,
+        timeoutMinutes: isNaN(timeoutMinutes) ? DEFAULT_TIMEOUT_MINUTES : timeoutMinutes,
+      });
+    } catch (error) {
+      console.error('Failed to load parent gate settings:', error);
+    }
+  },
+
+  /**
+   * Check whether the gate is currently open
+   */
+  isUnlocked: () => {
+    const { unlockedUntil } = get();
+    return unlockedUntil !== null && Date.now() < unlockedUntil;
+  },
+
+  /**
+   * Open the gate for the configured timeout and run any pending action
+   */
+  unlock: () => {
+    const { timeoutMinutes, pendingAction } = get();
+    const duration = timeoutMinutes * 60 * 1000;
+
+    clearTimeout(relockTimer);
+    relockTimer = setTimeout(() => get().lock(), duration);
+
+    set({ unlockedUntil: Date.now() + duration, pendingAction: null });
+    pendingAction?.();
+  },
+
+  /**
+   * Close the gate immediately
+   */
+  lock: () => {
+    clearTimeout(relockTimer);
+    set({ unlockedUntil: null });
+  },
+
+  /**
+   * Run an action now if unlocked, otherwise ask for the gate first
+   */
+  requestAccess: (action: () => void) => {
+    if (get().isUnlocked()) {
+      action();
+      return;
+    }
+
+    set({ pendingAction: action });
+  },
+
+  /**
+   * Dismiss the gate without running the pending action
+   */
+  cancelRequest: () => {
+    set({ pendingAction: null });
+  },
+
+  /**
+   * Compare a PIN against the stored hash
+   */
+  verifyPin: async (pin: string) => {
+    const [pinHash, salt] = await Promise.all([
+      db.getSetting(PIN_HASH_KEY),
+      db.getSetting(PIN_SALT_KEY),
+    ]);
+
+    if (!pinHash || salt === undefined) {
+      return false;
+    }
+
+    return (await hashPin(pin, salt)) === pinHash;
+  },
+
+  /**
+   * Set or change the PIN (only the salted hash is stored)
+   */
+  setPin: async (pin: string) => {
+    const salt = createSalt();
+    const pinHash = await hashPin(pin, salt);
+
+    await db.setSetting(PIN_SALT_KEY, salt);
+    await db.setSetting(PIN_HASH_KEY, pinHash);
+    set({ hasPin: true });
+  },
+
+  /**
+   * Remove the PIN and fall back to the adult challenge
+   */
+  removePin: async () => {
+    await db.deleteSetting(PIN_HASH_KEY);
+    await db.deleteSetting(PIN_SALT_KEY);
+    set({ hasPin: false });
+  },
+
+  /**
+   * Change how long the gate stays open
+   * Applies from the next unlock
+   */
+  setTimeoutMinutes: async (minutes: number) => {
+    await db.setSetting(TIMEOUT_KEY, minutes.toString());
+    set({ timeoutMinutes: minutes });
+  },
+}));
@@ -0,0 +1,34 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { reloadGameConfigs, saveGameConfig, syncConfigWithActiveProfile } from './game-config';
+import { useProfileStore } from './store';
+
+const DEFAULTS = { roundSize: 10 };
+
+/**
+ * Wait until pending IndexedDB reads have been applied
+ */
+async function flush(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+describe('reloadGameConfigs', () => {
+  it('reloads configs saved for the active profile without a profile switch', async () => {
+    useProfileStore.setState({ activeProfileId: 1 });
+    let applied = DEFAULTS;
+    syncConfigWithActiveProfile('letter-match', DEFAULTS, (config) => {
+      applied = config;
+    });
+    await flush();
+    expect(applied).toEqual(DEFAULTS);
+
+    // As a restore does: the saved config changes while the profile stays active
+    await saveGameConfig(1, 'letter-match', { roundSize: 20 });
+    await flush();
+    expect(applied).toEqual(DEFAULTS);
+
+    reloadGameConfigs();
+    await flush();
+    expect(applied).toEqual({ roundSize: 20 });
+  });
+});
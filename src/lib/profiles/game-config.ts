@@ -0,0 +1,113 @@
+/**
+ * Per-Profile Game Configuration
+ * Each child keeps their own settings for every game
+ */
+
+import { db } from '@/lib/storage/db';
+import type { GameId } from '@/types/game';
+import { useProfileStore } from './store';
+
+/**
+ * Load a profile's config for a game
+ * Missing fields (new settings, or no saved config yet) fall back to defaults
+ */
+export async function loadGameConfig<T extends object>(
+  profileId: number,
+  gameId: GameId,
+  defaults: T
+): Promise<T> {
+  const record = await db.gameConfigs
+    .where('[profileId+gameId]')
+    .equals([profileId, gameId])
+    .first();
+
+  return { ...defaults, ...(record?.config as Partial<T> | undefined) };
+}
+
+/**
+ * Save a profile's config for a game
+ */
+export async function saveGameConfig<T extends object>(
+  profileId: number,
+  gameId: GameId,
+  config: T
+): Promise<void> {
+  const existing = await db.gameConfigs
+    .where('[profileId+gameId]')
+    .equals([profileId, gameId])
+    .first();
+
+  await db.gameConfigs.put({
+    id: existing?.id,
+    profileId,
+    gameId,
+    config,
+    updatedAt: new Date(),
+  });
+}
+
+/**
+ * Save a config for the active profile (no-op without one)
+ */
+export function saveActiveProfileConfig<T extends object>(gameId: GameId, config: T): void {
+  const { activeProfileId } = useProfileStore.getState();
+  if (!activeProfileId) return;
+
+  saveGameConfig(activeProfileId, gameId, config).catch((error) => {
+    console.error(`Failed to save ${gameId} config:`, error);
+  });
+}
+
+// Config loaders of every synced game store, for reloading after a restore
+const configLoaders: Array<(profileId: number | null) => void> = [];
+
+/**
+ * Keep a game store's config in sync with the active profile
+ * Loads the current profile's config now and again on every profile switch
+ *
+ * @param gameId - Game whose config is loaded
+ * @param defaults - Config used for profiles without saved settings
+ * @param apply - Puts the loaded config into the game store
+ */
+export function syncConfigWithActiveProfile<T extends object>(
+  gameId: GameId,
+  defaults: T,
+  apply: (config: T) => void
+): void {
+  const load = (profileId: number | null) => {
+    if (!profileId) {
+      apply(defaults);
+      return;
+    }
+
+    loadGameConfig(profileId, gameId, defaults)
+      .then((config) => {
+        // Ignore results for a profile that is no longer active
+        if (useProfileStore.getState().activeProfileId === profileId) {
+          apply(config);
+        }
+      })
+      .catch((error) => {
+        console.error(`Failed to load ${gameId} config:`, error);
+      });
+  };
+
+  configLoaders.push(load);
+  load(useProfileStore.getState().activeProfileId);
+
+  useProfileStore.subscribe((state, previous) => {
+    if (state.activeProfileId !== previous.activeProfileId) {
+      load(state.activeProfileId);
+    }
+  });
+}
+
+/**
+ * Reload every synced game store's config for the active profile
+ * For when saved configs change underneath the stores (restoring a backup)
+ * while the active profile stays the same
+ */
+export function reloadGameConfigs(): void {
+  const { activeProfileId } = useProfileStore.getState();
+  configLoaders.forEach((load) => load(activeProfileId));
+}
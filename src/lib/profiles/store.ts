@@ -38,10 +38,12 @@ export const useProfileStore = create<ProfileState>()(
           const profiles = await db.profiles.toArray();
           set({ profiles, isLoading: false });
 
-          // If no active profile set but profiles exist, set first as active
+          // If no active profile set (or it no longer exists, e.g. after a
+          // restore) but profiles exist, set first as active
           const { activeProfileId } = get();
-          if (!activeProfileId && profiles.length > 0) {
-            set({ activeProfileId: profiles[0].id! });
+          const activeExists = profiles.some(p => p.id === activeProfileId);
+          if (!activeExists) {
+            set({ activeProfileId: profiles.length > 0 ? profiles[0].id! : null });
           }
         } catch (error) {
           console.error('Failed to load profiles:', error);
@@ -122,9 +124,8 @@ export const useProfileStore = create<ProfileState>()(
         // Delete profile from database
         await db.profiles.delete(id);
 
-        // Delete all associated statistics
-        await db.letterMatchStatistics.where('profileId').equals(id).delete();
-        await db.orientationGameStatistics.where('profileId').equals(id).delete();
+        // Delete all associated statistics and game configs
+        await db.deleteProfileData(id);
 
         // Update state
         const remainingProfiles = profiles.filter(p => p.id !== id);
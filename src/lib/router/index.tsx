@@ -0,0 +1,107 @@
+/**
+ * Router Configuration
+ * TanStack Router routes for the home page, profiles, settings and every registered game
+ */
+
+import {
+  Navigate,
+  Outlet,
+  createRootRoute,
+  createRoute,
+  createRouter,
+  redirect,
+} from '@tanstack/react-router';
+import { HomePage } from '@/components/layout/HomePage';
+import { ProfilesPage } from '@/components/layout/ProfilesPage';
+import { SettingsPage } from '@/components/layout/SettingsPage';
+import { GameOverlayPage, GamePage } from '@/components/layout/GamePage';
+import { ParentGateHost } from '@/components/shared/ParentGate';
+import { getGame, isRegisteredGame } from '@/lib/games/registry';
+
+// Import all games to register them
+import '@/games';
+
+const rootRoute = createRootRoute({
+  component: () => (
+    <>
+      <Outlet />
+      <ParentGateHost />
+    </>
+  ),
+  notFoundComponent: () => <Navigate to="/" replace />,
+});
+
+const indexRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/',
+  component: HomePage,
+});
+
+const profilesRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/profiles',
+  component: ProfilesPage,
+});
+
+const settingsRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/settings',
+  component: SettingsPage,
+});
+
+/**
+ * /games/:gameId - any game in the registry
+ * Unknown ids go back to the home page
+ */
+const gameRoute = createRoute({
+  getParentRoute: () => rootRoute,
+  path: '/games/$gameId',
+  beforeLoad: ({ params }) => {
+    if (!isRegisteredGame(params.gameId)) {
+      throw redirect({ to: '/', replace: true });
+    }
+  },
+  component: GamePage,
+});
+
+/**
+ * /games/:gameId/settings and /games/:gameId/progress
+ * Only available when the game module provides the screen
+ */
+const gameSettingsRoute = createRoute({
+  getParentRoute: () => gameRoute,
+  path: 'settings',
+  beforeLoad: ({ params }) => {
+    if (!isRegisteredGame(params.gameId) || !getGame(params.gameId)?.SettingsComponent) {
+      throw redirect({ to: '/games/$gameId', params, replace: true });
+    }
+  },
+  component: () => <GameOverlayPage screen="settings" />,
+});
+
+const gameProgressRoute = createRoute({
+  getParentRoute: () => gameRoute,
+  path: 'progress',
+  beforeLoad: ({ params }) => {
+    if (!isRegisteredGame(params.gameId) || !getGame(params.gameId)?.ProgressComponent) {
+      throw redirect({ to: '/games/$gameId', params, replace: true });
+    }
+  },
+  component: () => <GameOverlayPage screen="progress" />,
+});
+
+export const routeTree = rootRoute.addChildren([
+  indexRoute,
+  profilesRoute,
+  settingsRoute,
+  gameRoute.addChildren([gameSettingsRoute, gameProgressRoute]),
+]);
+
+export const router = createRouter({ routeTree });
+
+// Register router for type-safe navigation
+declare module '@tanstack/react-router' {
+  interface Register {
+    router: typeof router;
+  }
+}
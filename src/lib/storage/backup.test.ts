@@ -0,0 +1,106 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { BACKUP_FORMAT_VERSION, parseBackup, restoreBackup, type BackupFile } from './backup';
+import { db } from './db';
+
+function backupFile(overrides: Partial<BackupFile> = {}): BackupFile {
+  const date = new Date('2026-01-10T12:00:00Z');
+  return {
+    format: 'foundgarten-backup',
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: db.verno,
+    exportDate: date.toISOString(),
+    tables: {
+      profiles: [{ id: 7, name: 'Ada', emoji: '🦊', createdAt: date, updatedAt: date }],
+      letterMatchStatistics: [
+        {
+          gameId: 'letter-match',
+          profileId: 7,
+          itemId: 'A-uppercase',
+          letter: 'A',
+          caseType: 'uppercase',
+          totalAttempts: 4,
+          correctCount: 3,
+          incorrectCount: 1,
+          lastAttempt: date,
+          successRate: 0.75,
+        },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+describe('parseBackup', () => {
+  it('accepts a valid backup and revives dates', () => {
+    const result = parseBackup(JSON.stringify(backupFile()));
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.backup.tables.profiles[0].createdAt).toBeInstanceOf(Date);
+    }
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(parseBackup('not json {').ok).toBe(false);
+  });
+
+  it('rejects files that are not Foundgarten backups', () => {
+    expect(parseBackup(JSON.stringify({ hello: 'world' })).ok).toBe(false);
+  });
+
+  it('rejects backups from a newer format or schema version', () => {
+    expect(parseBackup(JSON.stringify(backupFile({ formatVersion: BACKUP_FORMAT_VERSION + 1 }))).ok).toBe(false);
+    expect(parseBackup(JSON.stringify(backupFile({ schemaVersion: db.verno + 1 }))).ok).toBe(false);
+  });
+
+  it('rejects unknown tables, damaged rows and backups without profiles', () => {
+    const valid = backupFile();
+    expect(parseBackup(JSON.stringify({ ...valid, tables: { ...valid.tables, mystery: [] } })).ok).toBe(false);
+    expect(parseBackup(JSON.stringify({ ...valid, tables: { ...valid.tables, profiles: [42] } })).ok).toBe(false);
+    expect(parseBackup(JSON.stringify({ ...valid, tables: { profiles: [] } })).ok).toBe(false);
+  });
+});
+
+describe('restoreBackup (merge)', () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map((table) => table.clear()));
+  });
+
+  it('adds a new profile with its statistics', async () => {
+    await restoreBackup(backupFile(), 'merge');
+
+    const [profile] = await db.profiles.toArray();
+    expect(profile.name).toBe('Ada');
+
+    const stats = await db.letterMatchStatistics.toArray();
+    expect(stats).toHaveLength(1);
+    expect(stats[0].profileId).toBe(profile.id);
+  });
+
+  it('overwrites a profile with the same name and keeps other profiles', async () => {
+    const now = new Date();
+    const adaId = await db.profiles.add({ name: ' ada ', emoji: '🐻', createdAt: now, updatedAt: now });
+    const otherId = await db.profiles.add({ name: 'Max', emoji: '🐸', createdAt: now, updatedAt: now });
+    await db.letterMatchStatistics.add({
+      gameId: 'letter-match',
+      profileId: adaId,
+      itemId: 'B-uppercase',
+      letter: 'B',
+      caseType: 'uppercase',
+      totalAttempts: 1,
+      correctCount: 0,
+      incorrectCount: 1,
+      lastAttempt: now,
+      successRate: 0,
+    });
+
+    await restoreBackup(backupFile(), 'merge');
+
+    const profiles = await db.profiles.toArray();
+    expect(profiles.map((profile) => profile.id).sort()).toEqual([adaId, otherId].sort());
+    expect((await db.profiles.get(adaId))?.emoji).toBe('🦊');
+
+    const stats = await db.letterMatchStatistics.where('profileId').equals(adaId).toArray();
+    expect(stats.map((row) => row.itemId)).toEqual(['A-uppercase']);
+  });
+});
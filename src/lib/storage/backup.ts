@@ -0,0 +1,322 @@
+/**
+ * Backup and Restore
+ * Export every table to a versioned file and restore it on another device
+ */
+
+import type { Table } from 'dexie';
+import { db, type Profile } from './db';
+
+/**
+ * Marker identifying a Foundgarten backup file
+ */
+const BACKUP_FORMAT = 'foundgarten-backup';
+
+/**
+ * Version of the backup file layout (bump when the envelope changes)
+ */
+export const BACKUP_FORMAT_VERSION = 1;
+
+/**
+ * Fields stored as Date in IndexedDB (serialized as ISO strings in the file)
+ */
+const DATE_FIELDS = ['createdAt', 'updatedAt', 'lastAttempt', 'timestamp', 'dueDate', 'lastReviewed'];
+
+/**
+ * Tables that stay on the device: recorded audio (Blobs) can't be written to
+ * a JSON file, and replacing from a backup leaves them untouched
+ */
+const DEVICE_ONLY_TABLES = ['letterSoundRecordings'];
+
+/**
+ * How long the download URL stays valid after the click (ms)
+ */
+const REVOKE_DELAY = 10000;
+
+type BackupRow = Record<string, unknown>;
+
+/**
+ * Backup file contents
+ */
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  schemaVersion: number; // Dexie schema version the data was exported from
+  exportDate: string;
+  tables: Record<string, BackupRow[]>;
+}
+
+/**
+ * How a backup is applied
+ * - replace: wipe the device and restore the backup as-is
+ * - merge: restore profile by profile, matching existing profiles by name;
+ *   profiles only on this device are kept
+ */
+export type RestoreMode = 'replace' | 'merge';
+
+/**
+ * What restoring a backup will do to one profile
+ */
+export interface ProfileRestorePreview {
+  name: string;
+  emoji: string;
+  action: 'add' | 'overwrite';
+  rowCount: number; // Statistics, events and schedules restored for this profile
+}
+
+/**
+ * Summary shown before a restore is confirmed
+ */
+export interface RestorePreview {
+  mode: RestoreMode;
+  exportDate: string;
+  profiles: ProfileRestorePreview[];
+  removedProfiles: Profile[]; // Profiles deleted from this device (replace only)
+  tableCounts: Record<string, number>;
+}
+
+/**
+ * Result of reading a backup file
+ */
+export type ParseBackupResult =
+  | { ok: true; backup: BackupFile }
+  | { ok: false; error: string };
+
+/**
+ * Tables included in backups
+ */
+function getBackupTables(): Table[] {
+  return db.tables.filter((table) => !DEVICE_ONLY_TABLES.includes(table.name));
+}
+
+/**
+ * Tables whose rows belong to a profile (indexed by profileId)
+ */
+function getProfileTables(): Table[] {
+  return db.tables.filter((table) => 'profileId' in table.schema.idxByName);
+}
+
+/**
+ * Match profiles by name, ignoring case and surrounding whitespace
+ */
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Copy a row without its auto-increment id so it can be added as a new row
+ */
+function withoutId<T extends { id?: unknown }>(row: T): Omit<T, 'id'> {
+  const copy = { ...row };
+  delete copy.id;
+  return copy;
+}
+
+/**
+ * Convert ISO date strings back to Date for known date fields
+ */
+function reviveDates(key: string, value: unknown): unknown {
+  if (DATE_FIELDS.includes(key) && typeof value === 'string') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+}
+
+/**
+ * Export every table to a backup object
+ */
+export async function createBackup(): Promise<BackupFile> {
+  const tables: Record<string, BackupRow[]> = {};
+
+  const backupTables = getBackupTables();
+
+  await db.transaction('r', backupTables, async () => {
+    for (const table of backupTables) {
+      tables[table.name] = await table.toArray();
+    }
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: db.verno,
+    exportDate: new Date().toISOString(),
+    tables,
+  };
+}
+
+/**
+ * Build the backup and download it as a JSON file
+ */
+export async function downloadBackup(): Promise<void> {
+  const backup = await createBackup();
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `foundgarten-backup-${backup.exportDate.slice(0, 10)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Safari starts the download asynchronously; revoking right away would
+  // leave it fetching a dead URL
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY);
+}
+
+/**
+ * Read and validate a backup file
+ * Backups from a newer schema than this app supports are rejected
+ */
+export function parseBackup(text: string): ParseBackupResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text, reviveDates);
+  } catch {
+    return { ok: false, error: 'This file is not a valid backup.' };
+  }
+
+  if (typeof data !== 'object' || data === null) {
+    return { ok: false, error: 'This file is not a valid backup.' };
+  }
+
+  const backup = data as Partial<BackupFile>;
+
+  if (backup.format !== BACKUP_FORMAT || typeof backup.formatVersion !== 'number') {
+    return { ok: false, error: 'This file is not a Foundgarten backup.' };
+  }
+
+  if (backup.formatVersion > BACKUP_FORMAT_VERSION) {
+    return { ok: false, error: 'This backup was made by a newer version of the app. Please update first.' };
+  }
+
+  if (typeof backup.schemaVersion !== 'number' || backup.schemaVersion > db.verno) {
+    return { ok: false, error: 'This backup was made by a newer version of the app. Please update first.' };
+  }
+
+  if (typeof backup.tables !== 'object' || backup.tables === null) {
+    return { ok: false, error: 'This backup is missing its data.' };
+  }
+
+  const knownTables = new Set(getBackupTables().map((table) => table.name));
+  for (const [name, rows] of Object.entries(backup.tables)) {
+    if (!knownTables.has(name)) {
+      return { ok: false, error: `This backup contains unknown data (${name}).` };
+    }
+    if (!Array.isArray(rows) || rows.some((row) => typeof row !== 'object' || row === null)) {
+      return { ok: false, error: `This backup has damaged data (${name}).` };
+    }
+  }
+
+  if (!Array.isArray(backup.tables.profiles) || backup.tables.profiles.length === 0) {
+    return { ok: false, error: 'This backup does not contain any profiles.' };
+  }
+
+  return { ok: true, backup: backup as BackupFile };
+}
+
+/**
+ * Describe what restoring a backup will change on this device
+ */
+export async function previewRestore(backup: BackupFile, mode: RestoreMode): Promise<RestorePreview> {
+  const existingProfiles = await db.profiles.toArray();
+  const existingNames = new Set(existingProfiles.map((profile) => normalizeName(profile.name)));
+  const backupProfiles = backup.tables.profiles as unknown as Profile[];
+  const profileTables = getProfileTables();
+
+  const profiles = backupProfiles.map((profile): ProfileRestorePreview => {
+    const rowCount = profileTables.reduce(
+      (count, table) =>
+        count + (backup.tables[table.name] ?? []).filter((row) => row.profileId === profile.id).length,
+      0
+    );
+
+    return {
+      name: profile.name,
+      emoji: profile.emoji,
+      action:
+        mode === 'merge' && existingNames.has(normalizeName(profile.name)) ? 'overwrite' : 'add',
+      rowCount,
+    };
+  });
+
+  const tableCounts: Record<string, number> = {};
+  for (const [name, rows] of Object.entries(backup.tables)) {
+    tableCounts[name] = rows.length;
+  }
+
+  return {
+    mode,
+    exportDate: backup.exportDate,
+    profiles,
+    removedProfiles: mode === 'replace' ? existingProfiles : [],
+    tableCounts,
+  };
+}
+
+/**
+ * Wipe every backed-up table and write the backup rows with their original ids
+ */
+async function restoreReplace(backup: BackupFile): Promise<void> {
+  for (const table of getBackupTables()) {
+    await table.clear();
+
+    const rows = backup.tables[table.name];
+    if (rows && rows.length > 0) {
+      await table.bulkAdd(rows);
+    }
+  }
+}
+
+/**
+ * Restore each backup profile into a matching (by name) or new profile
+ * The matched profile's data is replaced; app settings on this device are kept
+ */
+async function restoreMerge(backup: BackupFile): Promise<void> {
+  const existingProfiles = await db.profiles.toArray();
+  const profileTables = getProfileTables();
+
+  for (const profile of backup.tables.profiles as unknown as Profile[]) {
+    const match = existingProfiles.find(
+      (existing) => normalizeName(existing.name) === normalizeName(profile.name)
+    );
+
+    let profileId: number;
+    if (match) {
+      profileId = match.id!;
+      await db.profiles.update(profileId, {
+        emoji: profile.emoji,
+        updatedAt: new Date(),
+      });
+    } else {
+      profileId = await db.profiles.add(withoutId(profile));
+    }
+
+    for (const table of profileTables) {
+      await table.where('profileId').equals(profileId).delete();
+
+      const rows = (backup.tables[table.name] ?? [])
+        .filter((row) => row.profileId === profile.id)
+        .map((row) => ({ ...withoutId(row), profileId }));
+
+      if (rows.length > 0) {
+        await table.bulkAdd(rows);
+      }
+    }
+  }
+}
+
+/**
+ * Apply a backup to the database in a single transaction
+ * Callers should reload profiles afterwards
+ */
+export async function restoreBackup(backup: BackupFile, mode: RestoreMode): Promise<void> {
+  await db.transaction('rw', db.tables, async () => {
+    if (mode === 'replace') {
+      await restoreReplace(backup);
+    } else {
+      await restoreMerge(backup);
+    }
+  });
+}
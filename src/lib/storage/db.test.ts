@@ -0,0 +1,49 @@
+import 'fake-indexeddb/auto';
+import Dexie from 'dexie';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+/**
+ * Create the database as it was before version 7 (config still in localStorage)
+ */
+async function createVersion6Database(): Promise<void> {
+  const legacy = new Dexie('FoundgartenDB');
+  legacy.version(6).stores({
+    letterMatchStatistics: '++id, gameId, profileId, letter, caseType, [profileId+letter+caseType], lastAttempt',
+    orientationGameStatistics: '++id, gameId, profileId, character, characterType, caseType, [profileId+character+characterType+caseType], lastAttempt',
+    appSettings: '++id, &key',
+    profiles: '++id, name, createdAt',
+    answerEvents: '++id, profileId, gameId, sessionId, timestamp, [profileId+gameId], [profileId+gameId+itemId]',
+    reviewSchedules: '++id, profileId, gameId, dueDate, [profileId+gameId], &[profileId+gameId+itemId]',
+  });
+
+  const now = new Date();
+  await legacy.table('profiles').bulkAdd([
+    { name: 'Ada', emoji: '🦊', createdAt: now, updatedAt: now },
+    { name: 'Max', emoji: '🐸', createdAt: now, updatedAt: now },
+  ]);
+  await legacy.table('appSettings').add({ key: 'activeProfileId', value: '2' });
+  legacy.close();
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('version 7 upgrade', () => {
+  it('copies the localStorage game configs to the active profile', async () => {
+    const storage = new Map([
+      ['letter-match-storage', JSON.stringify({ state: { currentRound: 3, config: { roundSize: 15 } } })],
+      ['orientation-game-storage', JSON.stringify({ state: { config: { showHints: true } } })],
+    ]);
+    vi.stubGlobal('localStorage', { getItem: (key: string) => storage.get(key) ?? null });
+
+    await createVersion6Database();
+    const { db } = await import('./db');
+
+    const configs = await db.gameConfigs.orderBy('id').toArray();
+    expect(configs.map(({ profileId, gameId, config }) => ({ profileId, gameId, config }))).toEqual([
+      { profileId: 2, gameId: 'letter-match', config: { roundSize: 15 } },
+      { profileId: 2, gameId: 'orientation-game', config: { showHints: true } },
+    ]);
+  });
+});
@@ -5,10 +5,44 @@
 
 import Dexie, { Table } from 'dexie';
 import type {
+  AlphabetOrderStatistics,
+  AnswerEvent,
+  BeginningSoundStatistics,
+  CaseMatchStatistics,
+  CountingStatistics,
   LetterMatchStatistics,
+  LetterSoundStatistics,
+  NumberMatchStatistics,
   OrientationGameStatistics,
+  ProfileGameConfig,
+  ReviewSchedule,
+  SightWordStatistics,
+  SubitizingStatistics,
+  WordBuildingStatistics,
 } from '@/types/game';
 
+/**
+ * Game stores that kept their config in localStorage before version 7
+ */
+const LEGACY_CONFIG_STORAGE = [
+  { gameId: 'letter-match', storageKey: 'letter-match-storage' },
+  { gameId: 'orientation-game', storageKey: 'orientation-game-storage' },
+] as const;
+
+/**
+ * Read the config a game store persisted to localStorage (zustand persist format)
+ */
+function readLegacyConfig(storageKey: string): object | undefined {
+  try {
+    const persisted = JSON.parse(localStorage.getItem(storageKey) ?? 'null');
+    const config = persisted?.state?.config;
+    return typeof config === 'object' && config !== null ? config : undefined;
+  } catch (error) {
+    console.error(`Failed to read ${storageKey}:`, error);
+    return undefined;
+  }
+}
+
 /**
  * App settings interface
  */
@@ -29,6 +63,16 @@ export interface Profile {
   updatedAt: Date;
 }
 
+/**
+ * Letter sound recorded by a parent (shared by all profiles, never backed up)
+ */
+export interface LetterSoundRecording {
+  id?: number;
+  letter: string; // Uppercase
+  audio: Blob;
+  createdAt: Date;
+}
+
 /**
  * Main database class
  */
@@ -36,6 +80,19 @@ export class FoundgartenDatabase extends Dexie {
   // Tables
   letterMatchStatistics!: Table<LetterMatchStatistics, number>;
   orientationGameStatistics!: Table<OrientationGameStatistics, number>;
+  alphabetOrderStatistics!: Table<AlphabetOrderStatistics, number>;
+  caseMatchStatistics!: Table<CaseMatchStatistics, number>;
+  numberMatchStatistics!: Table<NumberMatchStatistics, number>;
+  sightWordStatistics!: Table<SightWordStatistics, number>;
+  letterSoundStatistics!: Table<LetterSoundStatistics, number>;
+  letterSoundRecordings!: Table<LetterSoundRecording, number>;
+  beginningSoundStatistics!: Table<BeginningSoundStatistics, number>;
+  countingStatistics!: Table<CountingStatistics, number>;
+  subitizingStatistics!: Table<SubitizingStatistics, number>;
+  wordBuildingStatistics!: Table<WordBuildingStatistics, number>;
+  answerEvents!: Table<AnswerEvent, number>;
+  reviewSchedules!: Table<ReviewSchedule, number>;
+  gameConfigs!: Table<ProfileGameConfig, number>;
   appSettings!: Table<AppSettings, number>;
   profiles!: Table<Profile, number>;
 
@@ -81,6 +138,82 @@ export class FoundgartenDatabase extends Dexie {
       // All queries now properly scoped to profileId
       console.log('Database upgraded to version 4 - cleaned up compound indexes');
     });
+
+    // Version 5: Add per-attempt answer event log
+    this.version(5).stores({
+      answerEvents: '++id, profileId, gameId, sessionId, timestamp, [profileId+gameId], [profileId+gameId+itemId]',
+    });
+
+    // Version 6: Add spaced repetition schedules
+    this.version(6).stores({
+      reviewSchedules: '++id, profileId, gameId, dueDate, [profileId+gameId], &[profileId+gameId+itemId]',
+    });
+
+    // Version 7: Move game configuration from localStorage to per-profile rows
+    this.version(7).stores({
+      gameConfigs: '++id, profileId, &[profileId+gameId]',
+    }).upgrade(async (tx) => {
+      // Copy the settings saved before this version to the active profile
+      // (or the first one) so nobody's settings reset to defaults
+      const activeSetting = await tx.table('appSettings').where('key').equals('activeProfileId').first();
+      const profileIds = (await tx.table('profiles').toCollection().primaryKeys()) as number[];
+      const activeId = Number(activeSetting?.value);
+      const profileId = profileIds.includes(activeId) ? activeId : profileIds[0];
+      if (profileId === undefined) return;
+
+      for (const { gameId, storageKey } of LEGACY_CONFIG_STORAGE) {
+        const config = readLegacyConfig(storageKey);
+        if (!config) continue;
+
+        await tx.table('gameConfigs').add({ profileId, gameId, config, updatedAt: new Date() });
+      }
+    });
+
+    // Version 8: Add Alphabet Order statistics (per letter transition)
+    this.version(8).stores({
+      alphabetOrderStatistics: '++id, gameId, profileId, &[profileId+fromLetter], lastAttempt',
+    });
+
+    // Version 9: Add Case Match statistics (per letter and direction)
+    this.version(9).stores({
+      caseMatchStatistics: '++id, gameId, profileId, &[profileId+letter+direction], lastAttempt',
+    });
+
+    // Version 10: Add Number Match statistics
+    this.version(10).stores({
+      numberMatchStatistics: '++id, gameId, profileId, &[profileId+number], lastAttempt',
+    });
+
+    // Version 11: Add Sight Words statistics (per word)
+    this.version(11).stores({
+      sightWordStatistics: '++id, gameId, profileId, &[profileId+word], lastAttempt',
+    });
+
+    // Version 12: Add Letter Sounds statistics and parent recordings
+    this.version(12).stores({
+      letterSoundStatistics: '++id, gameId, profileId, &[profileId+letter], lastAttempt',
+      letterSoundRecordings: '++id, &letter',
+    });
+
+    // Version 13: Add Beginning Sounds statistics (per picture)
+    this.version(13).stores({
+      beginningSoundStatistics: '++id, gameId, profileId, &[profileId+letter+picture], lastAttempt',
+    });
+
+    // Version 14: Add Counting statistics (per quantity)
+    this.version(14).stores({
+      countingStatistics: '++id, gameId, profileId, &[profileId+quantity], lastAttempt',
+    });
+
+    // Version 15: Add Subitizing statistics (per quantity and pattern)
+    this.version(15).stores({
+      subitizingStatistics: '++id, gameId, profileId, &[profileId+quantity+pattern], lastAttempt',
+    });
+
+    // Version 16: Add Word Builder statistics (per word, with per-position errors)
+    this.version(16).stores({
+      wordBuildingStatistics: '++id, gameId, profileId, &[profileId+word], lastAttempt',
+    });
   }
 
   /**
@@ -102,6 +235,29 @@ export class FoundgartenDatabase extends Dexie {
     // when a new profile is created or a game starts
   }
 
+  /**
+   * Read an app setting value by key
+   */
+  async getSetting(key: string): Promise<string | undefined> {
+    const setting = await this.appSettings.where('key').equals(key).first();
+    return setting?.value;
+  }
+
+  /**
+   * Create or update an app setting
+   */
+  async setSetting(key: string, value: string): Promise<void> {
+    const existing = await this.appSettings.where('key').equals(key).first();
+    await this.appSettings.put({ id: existing?.id, key, value });
+  }
+
+  /**
+   * Remove an app setting
+   */
+  async deleteSetting(key: string): Promise<void> {
+    await this.appSettings.where('key').equals(key).delete();
+  }
+
   /**
    * Clear all game statistics for a specific profile (for reset functionality)
    */
@@ -114,6 +270,61 @@ export class FoundgartenDatabase extends Dexie {
       .where('profileId')
       .equals(profileId)
       .delete();
+    await this.alphabetOrderStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+    await this.caseMatchStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+    await this.numberMatchStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+    await this.sightWordStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+    await this.letterSoundStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+    await this.beginningSoundStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+    await this.countingStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+    await this.subitizingStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+    await this.wordBuildingStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+    await this.answerEvents
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+    await this.reviewSchedules
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+  }
+
+  /**
+   * Delete everything stored for a profile, including its game configs
+   */
+  async deleteProfileData(profileId: number): Promise<void> {
+    await this.clearProfileStatistics(profileId);
+    await this.gameConfigs
+      .where('profileId')
+      .equals(profileId)
+      .delete();
   }
 
   /**
@@ -122,11 +333,13 @@ export class FoundgartenDatabase extends Dexie {
   async getDatabaseSize(): Promise<{
     letterMatchStats: number;
     orientationGameStats: number;
+    answerEvents: number;
     settings: number;
   }> {
     return {
       letterMatchStats: await this.letterMatchStatistics.count(),
       orientationGameStats: await this.orientationGameStatistics.count(),
+      answerEvents: await this.answerEvents.count(),
       settings: await this.appSettings.count(),
     };
   }
@@ -0,0 +1,49 @@
+/**
+ * Recordings
+ * Letter sounds recorded by a parent, stored as audio Blobs in IndexedDB
+ */
+
+import { db, type LetterSoundRecording } from './db';
+
+/**
+ * Get the recording for a letter, if the parent made one
+ */
+export async function getLetterRecording(
+  letter: string
+): Promise<LetterSoundRecording | undefined> {
+  return await db.letterSoundRecordings
+    .where('letter')
+    .equals(letter.toUpperCase())
+    .first();
+}
+
+/**
+ * Letters (uppercase) that have a recording
+ */
+export async function getRecordedLetters(): Promise<Set<string>> {
+  const letters = await db.letterSoundRecordings.orderBy('letter').keys();
+  return new Set(letters.map(String));
+}
+
+/**
+ * Save a recording for a letter, replacing any earlier one
+ */
+export async function saveLetterRecording(letter: string, audio: Blob): Promise<void> {
+  const existing = await getLetterRecording(letter);
+  await db.letterSoundRecordings.put({
+    id: existing?.id,
+    letter: letter.toUpperCase(),
+    audio,
+    createdAt: new Date(),
+  });
+}
+
+/**
+ * Delete a letter's recording (the synthesized sound is used again)
+ */
+export async function deleteLetterRecording(letter: string): Promise<void> {
+  await db.letterSoundRecordings
+    .where('letter')
+    .equals(letter.toUpperCase())
+    .delete();
+}
@@ -4,12 +4,75 @@
  */
 
 import { db } from './db';
+import { createSchedule, updateSchedule } from '@/lib/learning/spaced-repetition';
 import type {
+  AlphabetOrderStatistics,
+  AnswerEvent,
+  BeginningSoundStatistics,
+  CaseMatchStatistics,
+  CountingStatistics,
   GameId,
+  GameStatistics,
   LetterMatchStatistics,
+  LetterSoundStatistics,
+  NumberMatchStatistics,
   OrientationGameStatistics,
+  ReviewSchedule,
+  SightWordStatistics,
+  SubitizingStatistics,
+  WordBuildingStatistics,
 } from '@/types/game';
 
+/**
+ * Statistics row of any game
+ */
+type AnyGameStatistics =
+  | LetterMatchStatistics
+  | OrientationGameStatistics
+  | AlphabetOrderStatistics
+  | CaseMatchStatistics
+  | NumberMatchStatistics
+  | SightWordStatistics
+  | LetterSoundStatistics
+  | BeginningSoundStatistics
+  | CountingStatistics
+  | SubitizingStatistics
+  | WordBuildingStatistics;
+
+/**
+ * Number of recent timed attempts kept per item for the average and median
+ */
+const RESPONSE_TIME_WINDOW = 20;
+
+/**
+ * Attempts slower than this (ms) are left out of the timing statistics
+ * (the child most likely looked away or the app was in the background)
+ */
+const MAX_RESPONSE_TIME = 30000;
+
+/**
+ * Add a response time to a statistics row and refresh its average and median
+ * Rows written before response times were tracked simply start collecting
+ */
+export function applyResponseTime(stat: GameStatistics, responseTimeMs?: number): void {
+  if (responseTimeMs === undefined || responseTimeMs < 0 || responseTimeMs > MAX_RESPONSE_TIME) {
+    return;
+  }
+
+  const times = [...(stat.recentResponseTimes ?? []), Math.round(responseTimeMs)].slice(
+    -RESPONSE_TIME_WINDOW
+  );
+  const sorted = [...times].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  stat.recentResponseTimes = times;
+  stat.averageResponseTime = Math.round(times.reduce((sum, t) => sum + t, 0) / times.length);
+  stat.medianResponseTime =
+    sorted.length % 2 === 0
+      ? Math.round((sorted[middle - 1] + sorted[middle]) / 2)
+      : sorted[middle];
+}
+
 /**
  * Record an answer for Letter Match game
  */
@@ -17,7 +80,8 @@ export async function recordLetterMatchAnswer(
   letter: string,
   caseType: 'uppercase' | 'lowercase',
   correct: boolean,
-  profileId: number
+  profileId: number,
+  responseTimeMs?: number
 ): Promise<void> {
   const itemId = `${letter}-${caseType}`;
 
@@ -52,6 +116,7 @@ export async function recordLetterMatchAnswer(
   }
   stat.successRate = stat.correctCount / stat.totalAttempts;
   stat.lastAttempt = new Date();
+  applyResponseTime(stat, responseTimeMs);
 
   // Save to database
   await db.letterMatchStatistics.put(stat);
@@ -65,7 +130,8 @@ export async function recordOrientationGameAnswer(
   characterType: 'letter' | 'number',
   caseType: 'uppercase' | 'lowercase' | 'n/a',
   correct: boolean,
-  profileId: number
+  profileId: number,
+  responseTimeMs?: number
 ): Promise<void> {
   const itemId = `${character}-${caseType === 'n/a' ? 'number' : caseType}`;
 
@@ -102,6 +168,7 @@ export async function recordOrientationGameAnswer(
   }
   stat.successRate = stat.correctCount / stat.totalAttempts;
   stat.lastAttempt = new Date();
+  applyResponseTime(stat, responseTimeMs);
 
   // Update confusion score (inverse of success rate)
   stat.confusionScore = 1 - stat.successRate;
@@ -110,6 +177,127 @@ export async function recordOrientationGameAnswer(
   await db.orientationGameStatistics.put(stat);
 }
 
+/**
+ * Create an id grouping the rounds played in one sitting
+ */
+export function createSessionId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Append a single answer attempt to the event log
+ * Returns the event id (used to undo the answer)
+ */
+export async function recordAnswerEvent(
+  event: Omit<AnswerEvent, 'id' | 'timestamp'>
+): Promise<number> {
+  return db.answerEvents.add({
+    ...event,
+    timestamp: new Date(),
+  });
+}
+
+/**
+ * Remove an answer from the event log (undo)
+ */
+export async function deleteAnswerEvent(id: number): Promise<void> {
+  await db.answerEvents.delete(id);
+}
+
+/**
+ * Get the answer event log for a profile and game, oldest first
+ * Optionally limited to a single item
+ */
+export async function getAnswerEvents(
+  profileId: number,
+  gameId: GameId,
+  itemId?: string
+): Promise<AnswerEvent[]> {
+  const events = itemId
+    ? await db.answerEvents
+        .where('[profileId+gameId+itemId]')
+        .equals([profileId, gameId, itemId])
+        .toArray()
+    : await db.answerEvents
+        .where('[profileId+gameId]')
+        .equals([profileId, gameId])
+        .toArray();
+
+  return events.sort(
+    (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+}
+
+/**
+ * Update the spaced repetition schedule of an item after an answer
+ * Returns the schedule as it was before (undefined if it was just created),
+ * so the answer can be undone
+ */
+export async function updateReviewSchedule(
+  profileId: number,
+  gameId: GameId,
+  itemId: string,
+  correct: boolean
+): Promise<ReviewSchedule | undefined> {
+  const existing = await db.reviewSchedules
+    .where('[profileId+gameId+itemId]')
+    .equals([profileId, gameId, itemId])
+    .first();
+
+  const schedule: ReviewSchedule = existing ?? {
+    profileId,
+    gameId,
+    itemId,
+    ...createSchedule(),
+  };
+
+  await db.reviewSchedules.put({
+    ...schedule,
+    ...updateSchedule(schedule, correct),
+  });
+
+  return existing;
+}
+
+/**
+ * Put a review schedule back to how it was before an answer (undo)
+ * Without a previous schedule the one created by the answer is removed
+ */
+export async function restoreReviewSchedule(
+  profileId: number,
+  gameId: GameId,
+  itemId: string,
+  previous: ReviewSchedule | undefined
+): Promise<void> {
+  if (previous) {
+    await db.reviewSchedules.put(previous);
+    return;
+  }
+
+  await db.reviewSchedules
+    .where('[profileId+gameId+itemId]')
+    .equals([profileId, gameId, itemId])
+    .delete();
+}
+
+/**
+ * Get all spaced repetition schedules for a profile and game, keyed by item id
+ */
+export async function getReviewSchedules(
+  profileId: number,
+  gameId: GameId
+): Promise<Map<string, ReviewSchedule>> {
+  const schedules = await db.reviewSchedules
+    .where('[profileId+gameId]')
+    .equals([profileId, gameId])
+    .toArray();
+
+  return new Map(schedules.map((schedule) => [schedule.itemId, schedule]));
+}
+
 /**
  * Get all statistics for Letter Match
  */
@@ -132,6 +320,98 @@ export async function getOrientationGameStatistics(): Promise<
     .toArray();
 }
 
+/**
+ * Get all statistics for Alphabet Order
+ */
+export async function getAlphabetOrderStatistics(): Promise<
+  AlphabetOrderStatistics[]
+> {
+  return await db.alphabetOrderStatistics
+    .where('gameId')
+    .equals('alphabet-order')
+    .toArray();
+}
+
+/**
+ * Get all statistics for Case Match
+ */
+export async function getCaseMatchStatistics(): Promise<CaseMatchStatistics[]> {
+  return await db.caseMatchStatistics
+    .where('gameId')
+    .equals('case-match')
+    .toArray();
+}
+
+/**
+ * Get all statistics for Number Match
+ */
+export async function getNumberMatchStatistics(): Promise<NumberMatchStatistics[]> {
+  return await db.numberMatchStatistics
+    .where('gameId')
+    .equals('number-match')
+    .toArray();
+}
+
+/**
+ * Get all statistics for Sight Words
+ */
+export async function getSightWordStatistics(): Promise<SightWordStatistics[]> {
+  return await db.sightWordStatistics
+    .where('gameId')
+    .equals('sight-words')
+    .toArray();
+}
+
+/**
+ * Get all statistics for Letter Sounds
+ */
+export async function getLetterSoundStatistics(): Promise<LetterSoundStatistics[]> {
+  return await db.letterSoundStatistics
+    .where('gameId')
+    .equals('letter-sounds')
+    .toArray();
+}
+
+/**
+ * Get all statistics for Beginning Sounds
+ */
+export async function getBeginningSoundStatistics(): Promise<BeginningSoundStatistics[]> {
+  return await db.beginningSoundStatistics
+    .where('gameId')
+    .equals('beginning-sounds')
+    .toArray();
+}
+
+/**
+ * Get all statistics for Counting
+ */
+export async function getCountingStatistics(): Promise<CountingStatistics[]> {
+  return await db.countingStatistics
+    .where('gameId')
+    .equals('counting')
+    .toArray();
+}
+
+/**
+ * Get all statistics for Subitizing
+ */
+export async function getSubitizingStatistics(): Promise<SubitizingStatistics[]> {
+  return await db.subitizingStatistics
+    .where('gameId')
+    .equals('subitizing')
+    .toArray();
+}
+
+/**
+ * Get all statistics for Word Builder
+ */
+export async function getWordBuildingStatistics(): Promise<WordBuildingStatistics[]> {
+  return await db.wordBuildingStatistics
+    .where('gameId')
+    .equals('word-building')
+    .toArray();
+}
+
 /**
  * Get statistics for a specific letter (both cases)
  */
@@ -160,12 +440,30 @@ export async function getCharacterStatistics(
  * Get overall success rate for a game
  */
 export async function getGameSuccessRate(gameId: GameId): Promise<number> {
-  let stats: (LetterMatchStatistics | OrientationGameStatistics)[] = [];
+  let stats: AnyGameStatistics[] = [];
 
   if (gameId === 'letter-match') {
     stats = await getLetterMatchStatistics();
   } else if (gameId === 'orientation-game') {
     stats = await getOrientationGameStatistics();
+  } else if (gameId === 'alphabet-order') {
+    stats = await getAlphabetOrderStatistics();
+  } else if (gameId === 'case-match') {
+    stats = await getCaseMatchStatistics();
+  } else if (gameId === 'number-match') {
+    stats = await getNumberMatchStatistics();
+  } else if (gameId === 'sight-words') {
+    stats = await getSightWordStatistics();
+  } else if (gameId === 'letter-sounds') {
+    stats = await getLetterSoundStatistics();
+  } else if (gameId === 'beginning-sounds') {
+    stats = await getBeginningSoundStatistics();
+  } else if (gameId === 'counting') {
+    stats = await getCountingStatistics();
+  } else if (gameId === 'subitizing') {
+    stats = await getSubitizingStatistics();
+  } else if (gameId === 'word-building') {
+    stats = await getWordBuildingStatistics();
   }
 
   // Filter out items with no attempts
@@ -187,13 +485,31 @@ export async function getItemsNeedingPractice(
   gameId: GameId,
   threshold: number = 0.7,
   limit: number = 10
-): Promise<(LetterMatchStatistics | OrientationGameStatistics)[]> {
-  let stats: (LetterMatchStatistics | OrientationGameStatistics)[] = [];
+): Promise<AnyGameStatistics[]> {
+  let stats: AnyGameStatistics[] = [];
 
   if (gameId === 'letter-match') {
     stats = await getLetterMatchStatistics();
   } else if (gameId === 'orientation-game') {
     stats = await getOrientationGameStatistics();
+  } else if (gameId === 'alphabet-order') {
+    stats = await getAlphabetOrderStatistics();
+  } else if (gameId === 'case-match') {
+    stats = await getCaseMatchStatistics();
+  } else if (gameId === 'number-match') {
+    stats = await getNumberMatchStatistics();
+  } else if (gameId === 'sight-words') {
+    stats = await getSightWordStatistics();
+  } else if (gameId === 'letter-sounds') {
+    stats = await getLetterSoundStatistics();
+  } else if (gameId === 'beginning-sounds') {
+    stats = await getBeginningSoundStatistics();
+  } else if (gameId === 'counting') {
+    stats = await getCountingStatistics();
+  } else if (gameId === 'subitizing') {
+    stats = await getSubitizingStatistics();
+  } else if (gameId === 'word-building') {
+    stats = await getWordBuildingStatistics();
   }
 
   // Filter items below threshold and sort by success rate (lowest first)
@@ -217,7 +533,61 @@ export async function resetGameStatistics(gameId: GameId, profileId: number): Pr
       .where('profileId')
       .equals(profileId)
       .delete();
+  } else if (gameId === 'alphabet-order') {
+    await db.alphabetOrderStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+  } else if (gameId === 'case-match') {
+    await db.caseMatchStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+  } else if (gameId === 'number-match') {
+    await db.numberMatchStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+  } else if (gameId === 'sight-words') {
+    await db.sightWordStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+  } else if (gameId === 'letter-sounds') {
+    await db.letterSoundStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+  } else if (gameId === 'beginning-sounds') {
+    await db.beginningSoundStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+  } else if (gameId === 'counting') {
+    await db.countingStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+  } else if (gameId === 'subitizing') {
+    await db.subitizingStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
+  } else if (gameId === 'word-building') {
+    await db.wordBuildingStatistics
+      .where('profileId')
+      .equals(profileId)
+      .delete();
   }
+
+  await db.answerEvents
+    .where('[profileId+gameId]')
+    .equals([profileId, gameId])
+    .delete();
+  await db.reviewSchedules
+    .where('[profileId+gameId]')
+    .equals([profileId, gameId])
+    .delete();
 }
 
 /**
@@ -230,6 +600,24 @@ export async function exportStatistics(gameId: GameId): Promise<string> {
     stats = await getLetterMatchStatistics();
   } else if (gameId === 'orientation-game') {
     stats = await getOrientationGameStatistics();
+  } else if (gameId === 'alphabet-order') {
+    stats = await getAlphabetOrderStatistics();
+  } else if (gameId === 'case-match') {
+    stats = await getCaseMatchStatistics();
+  } else if (gameId === 'number-match') {
+    stats = await getNumberMatchStatistics();
+  } else if (gameId === 'sight-words') {
+    stats = await getSightWordStatistics();
+  } else if (gameId === 'letter-sounds') {
+    stats = await getLetterSoundStatistics();
+  } else if (gameId === 'beginning-sounds') {
+    stats = await getBeginningSoundStatistics();
+  } else if (gameId === 'counting') {
+    stats = await getCountingStatistics();
+  } else if (gameId === 'subitizing') {
+    stats = await getSubitizingStatistics();
+  } else if (gameId === 'word-building') {
+    stats = await getWordBuildingStatistics();
   } else {
     stats = [];
   }
@@ -0,0 +1,49 @@
+/**
+ * Theme
+ * Applies the theme preference from useAppStore to the document
+ */
+
+import { useAppStore, type ThemePreference } from '@/hooks/useAppStore';
+
+export type ResolvedTheme = 'light' | 'dark' | 'high-contrast';
+
+const darkQuery =
+  typeof window !== 'undefined' ? window.matchMedia('(prefers-color-scheme: dark)') : null;
+
+/**
+ * Turn a preference into the theme to show, following the device for 'auto'
+ */
+export function resolveTheme(preference: ThemePreference): ResolvedTheme {
+  if (preference === 'auto') {
+    return darkQuery?.matches ? 'dark' : 'light';
+  }
+  return preference;
+}
+
+/**
+ * Set the theme on <html> (read by the CSS variables in index.css)
+ */
+export function applyTheme(preference: ThemePreference): void {
+  document.documentElement.dataset.theme = resolveTheme(preference);
+}
+
+/**
+ * Apply the stored theme and keep it updated
+ * Re-applies when the preference changes or, in 'auto', when the device switches
+ */
+export function initializeTheme(): void {
+  applyTheme(useAppStore.getState().theme);
+
+  useAppStore.subscribe((state, previous) => {
+    if (state.theme !== previous.theme) {
+      applyTheme(state.theme);
+    }
+  });
+
+  darkQuery?.addEventListener('change', () => {
+    const { theme } = useAppStore.getState();
+    if (theme === 'auto') {
+      applyTheme(theme);
+    }
+  });
+}
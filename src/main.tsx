@@ -3,9 +3,15 @@ import ReactDOM from 'react-dom/client';
 import App from './App';
 import './index.css';
 import { initializeProfileStore } from './lib/profiles/store';
+import { useParentGateStore } from './lib/parent-gate/store';
+import { initializeTheme } from './lib/theme/theme';
+
+// Apply the theme before the first render to avoid a flash
+initializeTheme();
 
 // Initialize profile store on app startup
 initializeProfileStore().catch(console.error);
+useParentGateStore.getState().loadSettings();
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
@@ -0,0 +1,59 @@
+/**
+ * Alphabet Order Game Type Definitions
+ */
+
+import type { AlphabetOrderConfig } from './game';
+
+/**
+ * A run of consecutive letters with some positions left blank
+ * In 'order' mode every position is blank; in 'missing' mode only a few are
+ */
+export interface AlphabetSequence {
+  itemId: string; // First letter and length ('C-4')
+  mode: 'order' | 'missing';
+  letters: string[]; // Correct sequence, in the configured case
+  blanks: number[]; // Positions the child has to fill
+  tiles: string[]; // Shuffled letters offered for the blanks (may include distractors)
+}
+
+/**
+ * Result of checking one slot after all blanks are filled
+ */
+export type SlotResult = 'correct' | 'incorrect';
+
+/**
+ * Default configuration values
+ */
+export const DEFAULT_ALPHABET_ORDER_CONFIG: AlphabetOrderConfig = {
+  difficulty: 'auto',
+  mode: 'mixed',
+  letterCase: 'uppercase',
+  roundSize: 6,
+  soundEnabled: true,
+  hapticEnabled: true,
+};
+
+/**
+ * Game state interface (for Zustand store)
+ */
+export interface AlphabetOrderState {
+  // Current session state
+  currentRound: number;
+  roundItems: AlphabetSequence[]; // Sequences for current round
+  currentIndex: number; // Index in roundItems
+  currentScore: number; // Sequences completed without mistakes
+  placements: (string | null)[]; // Letter placed in each position (null = empty blank)
+  slotResults: (SlotResult | null)[] | null; // Set while the checked answer is shown
+  roundComplete: boolean;
+  sessionId: string | null; // Answer event log session, new on each app load
+  config: AlphabetOrderConfig;
+
+  // Actions
+  startNewRound: () => Promise<void>;
+  placeTile: (tile: string, position?: number) => void;
+  removeTile: (position: number) => void;
+  checkSequence: (responseTimeMs?: number) => Promise<void>;
+  nextItem: () => void;
+  resetGame: () => void;
+  updateConfig: (config: Partial<AlphabetOrderConfig>) => void;
+}
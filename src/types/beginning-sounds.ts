@@ -0,0 +1,60 @@
+/**
+ * Beginning Sounds Game Type Definitions
+ */
+
+import type { BeginningSoundsConfig } from './game';
+
+/**
+ * A bundled picture and the letter its name starts with
+ */
+export interface Picture {
+  id: string; // 'apple'
+  word: string; // Spoken name ('apple')
+  letter: string; // Uppercase first letter ('A')
+  image: string; // Path under public/ ('/images/apple.svg')
+}
+
+/**
+ * A single item: a picture whose first letter is to be found among the choices
+ */
+export interface BeginningSoundsItem {
+  itemId: string; // Letter and picture ('A-apple')
+  picture: Picture;
+  answer: string; // Letter as shown on its card ('a')
+  choices: string[]; // Answer plus distractors, shuffled
+}
+
+/**
+ * Default configuration values
+ */
+export const DEFAULT_BEGINNING_SOUNDS_CONFIG: BeginningSoundsConfig = {
+  difficulty: 'auto',
+  letterCase: 'lowercase',
+  roundSize: 10,
+  soundEnabled: true,
+  speakWords: true,
+  hapticEnabled: true,
+};
+
+/**
+ * Game state interface (for Zustand store)
+ */
+export interface BeginningSoundsState {
+  // Current session state
+  currentRound: number;
+  roundItems: BeginningSoundsItem[]; // Items for current round
+  currentIndex: number; // Index in roundItems
+  currentScore: number; // Correct answers in current round
+  roundComplete: boolean;
+  showingFeedback: boolean; // True while the result of a tap is displayed
+  lastChoice: string | null; // Choice tapped for the current item
+  sessionId: string | null; // Answer event log session, new on each app load
+  config: BeginningSoundsConfig;
+
+  // Actions
+  startNewRound: () => Promise<void>;
+  handleChoice: (choice: string, responseTimeMs?: number) => Promise<void>;
+  nextItem: () => void;
+  resetGame: () => void;
+  updateConfig: (config: Partial<BeginningSoundsConfig>) => void;
+}
@@ -0,0 +1,51 @@
+/**
+ * Case Match Game Type Definitions
+ */
+
+import type { CaseDirection, CaseMatchConfig } from './game';
+
+/**
+ * A single item: a letter shown in one case, its partner to find among the choices
+ */
+export interface CaseMatchItem {
+  itemId: string; // Letter and direction ('G-upper-to-lower')
+  letter: string; // Uppercase
+  direction: CaseDirection;
+  prompt: string; // Letter as shown ('G')
+  answer: string; // Partner to tap ('g')
+  choices: string[]; // Answer plus distractors, shuffled
+}
+
+/**
+ * Default configuration values
+ */
+export const DEFAULT_CASE_MATCH_CONFIG: CaseMatchConfig = {
+  difficulty: 'auto',
+  direction: 'both',
+  roundSize: 10,
+  soundEnabled: true,
+  hapticEnabled: true,
+};
+
+/**
+ * Game state interface (for Zustand store)
+ */
+export interface CaseMatchState {
+  // Current session state
+  currentRound: number;
+  roundItems: CaseMatchItem[]; // Items for current round
+  currentIndex: number; // Index in roundItems
+  currentScore: number; // Correct answers in current round
+  roundComplete: boolean;
+  showingFeedback: boolean; // True while the result of a tap is displayed
+  lastChoice: string | null; // Choice tapped for the current item
+  sessionId: string | null; // Answer event log session, new on each app load
+  config: CaseMatchConfig;
+
+  // Actions
+  startNewRound: () => Promise<void>;
+  handleChoice: (choice: string, responseTimeMs?: number) => Promise<void>;
+  nextItem: () => void;
+  resetGame: () => void;
+  updateConfig: (config: Partial<CaseMatchConfig>) => void;
+}
@@ -0,0 +1,61 @@
+/**
+ * Counting Game Type Definitions
+ */
+
+import type { CountingConfig, CountingLayout } from './game';
+
+/**
+ * Where one object sits in the scattered layout, in % of the play area
+ */
+export interface ObjectPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * A single item: a group of objects to count, then the numeral to find among the choices
+ */
+export interface CountingItem {
+  itemId: string; // Quantity ('7')
+  quantity: number;
+  emoji: string; // Object being counted ('🍎')
+  layout: CountingLayout;
+  positions: ObjectPosition[]; // One per object (scattered layout only, else empty)
+  choices: number[]; // Quantity plus distractors, shuffled
+}
+
+/**
+ * Default configuration values
+ */
+export const DEFAULT_COUNTING_CONFIG: CountingConfig = {
+  difficulty: 'auto',
+  range: 10,
+  layout: 'mixed',
+  roundSize: 10,
+  soundEnabled: true,
+  speakNumbers: true,
+  hapticEnabled: true,
+};
+
+/**
+ * Game state interface (for Zustand store)
+ */
+export interface CountingState {
+  // Current session state
+  currentRound: number;
+  roundItems: CountingItem[]; // Items for current round
+  currentIndex: number; // Index in roundItems
+  currentScore: number; // Correct answers in current round
+  roundComplete: boolean;
+  showingFeedback: boolean; // True while the result of a tap is displayed
+  lastChoice: number | null; // Choice tapped for the current item
+  sessionId: string | null; // Answer event log session, new on each app load
+  config: CountingConfig;
+
+  // Actions
+  startNewRound: () => Promise<void>;
+  handleChoice: (choice: number, responseTimeMs?: number) => Promise<void>;
+  nextItem: () => void;
+  resetGame: () => void;
+  updateConfig: (config: Partial<CountingConfig>) => void;
+}
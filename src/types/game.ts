@@ -2,12 +2,28 @@
  * Core game type definitions
  */
 
-export type GameId = 'letter-match' | 'orientation-game';
+export type GameId =
+  | 'letter-match'
+  | 'orientation-game'
+  | 'alphabet-order'
+  | 'case-match'
+  | 'number-match'
+  | 'sight-words'
+  | 'letter-sounds'
+  | 'beginning-sounds'
+  | 'counting'
+  | 'subitizing'
+  | 'word-building';
 
 export type ItemType = 'letter' | 'number' | 'word' | 'custom';
 
 export type Difficulty = 'easy' | 'auto' | 'hard';
 
+/**
+ * Round selection mode: a weighted difficulty or spaced repetition
+ */
+export type SelectionMode = Difficulty | 'spaced';
+
 export type CaseType = 'uppercase' | 'lowercase' | 'both' | 'n/a';
 
 export type CharacterType = 'letter' | 'number' | 'both';
@@ -24,6 +40,18 @@ export interface GameConfig {
   defaultDifficulty: Difficulty;
 }
 
+/**
+ * Result of a single answer
+ * 'skipped' means the child didn't attempt the item (neither right nor wrong)
+ */
+export type AnswerOutcome = 'correct' | 'incorrect' | 'skipped';
+
+/**
+ * Swipe direction for card animations (shared SwipeCard)
+ * Right = correct, left = incorrect, up = skipped
+ */
+export type SwipeDirection = 'left' | 'right' | 'up' | null;
+
 /**
  * Game statistics base interface
  */
@@ -37,6 +65,54 @@ export interface GameStatistics {
   incorrectCount: number;
   lastAttempt: Date;
   successRate: number;
+  skippedCount?: number; // Not attempted, not part of totalAttempts
+  recentResponseTimes?: number[]; // Last timed attempts in ms, oldest first
+  averageResponseTime?: number; // Mean of recentResponseTimes (ms)
+  medianResponseTime?: number; // Median of recentResponseTimes (ms)
+}
+
+/**
+ * Single answer attempt (append-only event log)
+ * Complements the running totals in GameStatistics with when and in which
+ * round each answer happened
+ */
+export interface AnswerEvent {
+  id?: number;
+  profileId: number;
+  gameId: GameId;
+  itemId: string; // Same id as the game's statistics row
+  correct: boolean;
+  skipped?: boolean; // Not attempted (correct is false)
+  timestamp: Date;
+  roundNumber: number;
+  sessionId: string; // Groups the rounds played in one sitting
+  responseTimeMs?: number; // From the item appearing to the answer
+}
+
+/**
+ * Spaced repetition schedule for a single item
+ */
+export interface ReviewSchedule {
+  id?: number;
+  profileId: number;
+  gameId: GameId;
+  itemId: string; // Same id as the game's statistics row
+  interval: number; // Days until the next review
+  easeFactor: number; // Interval multiplier, grows with correct answers
+  repetitions: number; // Consecutive correct answers
+  dueDate: Date;
+  lastReviewed: Date;
+}
+
+/**
+ * A game's configuration for one profile
+ */
+export interface ProfileGameConfig {
+  id?: number;
+  profileId: number;
+  gameId: GameId;
+  config: object; // The game's own config shape (e.g. LetterMatchConfig)
+  updatedAt: Date;
 }
 
 /**
@@ -48,11 +124,14 @@ export interface LetterMatchStatistics extends GameStatistics {
 }
 
 export interface LetterMatchConfig {
-  difficulty: Difficulty;
+  difficulty: SelectionMode;
   letterCase: CaseType;
   roundSize: number;
   soundEnabled: boolean;
+  speakLetters: boolean;
   hapticEnabled: boolean;
+  answerButtons: boolean;
+  keyboardShortcuts: boolean;
 }
 
 /**
@@ -75,6 +154,188 @@ export interface OrientationGameConfig {
   showHints: boolean;
 }
 
+/**
+ * Alphabet Order specific types
+ * Statistics are kept per letter transition (A→B, B→C...)
+ */
+export interface AlphabetOrderStatistics extends GameStatistics {
+  fromLetter: string; // Uppercase
+  toLetter: string; // Uppercase, the letter after fromLetter
+}
+
+export interface AlphabetOrderConfig {
+  difficulty: Difficulty;
+  mode: 'order' | 'missing' | 'mixed';
+  letterCase: 'uppercase' | 'lowercase';
+  roundSize: number;
+  soundEnabled: boolean;
+  hapticEnabled: boolean;
+}
+
+/**
+ * Case Match specific types
+ * Statistics are kept per letter and direction (shown case → case to find)
+ */
+export type CaseDirection = 'upper-to-lower' | 'lower-to-upper';
+
+export interface CaseMatchStatistics extends GameStatistics {
+  letter: string; // Uppercase
+  direction: CaseDirection;
+}
+
+export interface CaseMatchConfig {
+  difficulty: Difficulty;
+  direction: CaseDirection | 'both';
+  roundSize: number;
+  soundEnabled: boolean;
+  hapticEnabled: boolean;
+}
+
+/**
+ * Number Match specific types
+ */
+export interface NumberMatchStatistics extends GameStatistics {
+  number: number;
+}
+
+export type NumberRange = 10 | 20 | 100; // Highest number shown (always from 0)
+
+export interface NumberMatchConfig {
+  difficulty: SelectionMode;
+  range: NumberRange;
+  roundSize: number;
+  soundEnabled: boolean;
+  speakNumbers: boolean;
+  hapticEnabled: boolean;
+  answerButtons: boolean;
+  keyboardShortcuts: boolean;
+}
+
+/**
+ * Sight Words specific types
+ * Statistics are kept per word, shared by every list the word is in
+ */
+export interface SightWordStatistics extends GameStatistics {
+  word: string;
+}
+
+export type SightWordListId = 'pre-primer' | 'primer' | 'kindergarten';
+
+export interface SightWordsConfig {
+  difficulty: SelectionMode;
+  enabledLists: SightWordListId[];
+  roundSize: number;
+  soundEnabled: boolean;
+  speakWords: boolean;
+  hapticEnabled: boolean;
+  answerButtons: boolean;
+  keyboardShortcuts: boolean;
+}
+
+/**
+ * Letter Sounds specific types
+ * Statistics are kept per letter sound, separate from Letter Match (letter names)
+ */
+export interface LetterSoundStatistics extends GameStatistics {
+  letter: string; // Uppercase
+}
+
+export interface LetterSoundsConfig {
+  difficulty: SelectionMode;
+  letterCase: 'uppercase' | 'lowercase';
+  roundSize: number;
+  soundEnabled: boolean; // Chimes only; the letter sound itself always plays
+  hapticEnabled: boolean;
+}
+
+/**
+ * Beginning Sounds specific types
+ * Statistics are kept per picture, with the letter it starts with
+ */
+export interface BeginningSoundStatistics extends GameStatistics {
+  letter: string; // Uppercase
+  picture: string; // Picture id ('apple')
+}
+
+export interface BeginningSoundsConfig {
+  difficulty: SelectionMode;
+  letterCase: 'uppercase' | 'lowercase';
+  roundSize: number;
+  soundEnabled: boolean;
+  speakWords: boolean; // Say the picture's name when it appears
+  hapticEnabled: boolean;
+}
+
+/**
+ * Counting specific types
+ * Statistics are kept per quantity, whatever the layout it was shown in
+ */
+export interface CountingStatistics extends GameStatistics {
+  quantity: number;
+}
+
+export type CountingRange = 5 | 10 | 20; // Highest quantity shown (always from 1)
+
+export type CountingLayout = 'scattered' | 'ten-frame';
+
+export interface CountingConfig {
+  difficulty: SelectionMode;
+  range: CountingRange;
+  layout: CountingLayout | 'mixed';
+  roundSize: number;
+  soundEnabled: boolean;
+  speakNumbers: boolean; // Say the right number after each answer
+  hapticEnabled: boolean;
+}
+
+/**
+ * Subitizing specific types
+ * Statistics are kept per quantity and pattern: 5 on a die is learned
+ * separately from 5 scattered at random
+ */
+export type SubitizingPattern = 'dice' | 'ten-frame' | 'random';
+
+export interface SubitizingStatistics extends GameStatistics {
+  quantity: number;
+  pattern: SubitizingPattern;
+}
+
+export type SubitizingRange = 5 | 10; // Highest quantity flashed (always from 1)
+
+export interface SubitizingConfig {
+  difficulty: SelectionMode;
+  range: SubitizingRange;
+  patterns: SubitizingPattern[]; // At least one
+  displayDuration: number; // How long a pattern is shown (ms)
+  adaptiveDuration: boolean; // Shorten after correct answers, lengthen after mistakes
+  roundSize: number;
+  soundEnabled: boolean;
+  speakNumbers: boolean; // Say the right number after each answer
+  hapticEnabled: boolean;
+}
+
+/**
+ * Word Builder specific types
+ * Statistics are kept per word, with mistakes counted per letter position
+ * (onset, vowel, coda) to show which sound the child misses
+ */
+export type LetterPosition = 'onset' | 'vowel' | 'coda';
+
+export interface WordBuildingStatistics extends GameStatistics {
+  word: string;
+  onsetErrors: number; // Attempts with a wrong first letter
+  vowelErrors: number; // Attempts with a wrong middle letter
+  codaErrors: number; // Attempts with a wrong last letter
+}
+
+export interface WordBuildingConfig {
+  difficulty: SelectionMode;
+  roundSize: number;
+  soundEnabled: boolean;
+  speakWords: boolean; // Say the word when it appears
+  hapticEnabled: boolean;
+}
+
 /**
  * Game session state (temporary, not persisted)
  */
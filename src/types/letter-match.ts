@@ -2,6 +2,8 @@
  * Letter Match Game Type Definitions
  */
 
+import type { AnswerOutcome, LetterMatchStatistics, ReviewSchedule } from './game';
+
 /**
  * Letter object used during gameplay
  */
@@ -15,11 +17,14 @@ export interface Letter {
  * Game configuration/settings
  */
 export interface LetterMatchConfig {
-  difficulty: 'easy' | 'auto' | 'hard';
+  difficulty: 'easy' | 'auto' | 'hard' | 'spaced';
   letterCase: 'both' | 'uppercase' | 'lowercase';
   roundSize: number; // 10-26 letters per round
   soundEnabled: boolean;
+  speakLetters: boolean; // Say the letter name after each answer
   hapticEnabled: boolean;
+  answerButtons: boolean; // On-screen ✓/✗ buttons next to swiping
+  keyboardShortcuts: boolean; // Arrow keys, Y/N, Space (skip), Backspace (undo)
 }
 
 /**
@@ -30,9 +35,36 @@ export const DEFAULT_LETTER_MATCH_CONFIG: LetterMatchConfig = {
   letterCase: 'both',
   roundSize: 15,
   soundEnabled: true,
+  speakLetters: false,
   hapticEnabled: true,
+  answerButtons: false,
+  keyboardShortcuts: true,
 };
 
+/**
+ * Snapshot of an unfinished round, kept per profile so it survives reloads
+ */
+export interface SavedRound {
+  roundNumber: number;
+  sessionLetters: Letter[];
+  currentIndex: number;
+  currentScore: number;
+  currentSkipped?: number; // Missing in rounds saved before skipping existed
+}
+
+/**
+ * What a recorded answer changed, so it can be undone
+ */
+export interface AnswerUndo {
+  profileId: number;
+  index: number; // Position of the letter in sessionLetters
+  outcome: AnswerOutcome;
+  previousStat?: LetterMatchStatistics; // Missing when the answer created the row
+  previousSchedule?: ReviewSchedule; // Missing when the answer created the schedule
+  scheduleUpdated: boolean; // Skips leave the schedule alone
+  eventId: number;
+}
+
 /**
  * Game state interface (for Zustand store)
  */
@@ -42,21 +74,26 @@ export interface LetterMatchState {
   sessionLetters: Letter[]; // Letters for current round
   currentIndex: number; // Index in sessionLetters
   currentScore: number; // Correct answers in this round
+  currentSkipped: number; // Skipped letters in this round
   roundComplete: boolean;
+  sessionId: string | null; // Answer event log session, new on each app load
+  savedRounds: Record<number, SavedRound>; // Unfinished round by profile id
+  undoStack: AnswerUndo[]; // Answers in this round that can be undone, latest last
+  lastAnswerAt: number | null; // Start of the undo window (last answer or undo)
   config: LetterMatchConfig;
 
   // Actions
   startNewRound: () => Promise<void>;
-  recordAnswer: (correct: boolean) => Promise<void>;
+  recordAnswer: (outcome: AnswerOutcome, responseTimeMs?: number) => Promise<void>;
+  undoLastAnswer: () => Promise<boolean>;
+  resumeRound: () => boolean;
+  abandonRound: () => void;
   nextLetter: () => void;
   resetGame: () => void;
   updateConfig: (config: Partial<LetterMatchConfig>) => void;
 }
 
-/**
- * Swipe direction for card animations
- */
-export type SwipeDirection = 'left' | 'right' | null;
+export type { SwipeDirection } from './game';
 
 /**
  * Round summary statistics
@@ -65,6 +102,7 @@ export interface RoundSummary {
   totalAttempts: number;
   correctCount: number;
   incorrectCount: number;
+  skippedCount: number;
   successRate: number;
   roundNumber: number;
 }
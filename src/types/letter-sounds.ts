@@ -0,0 +1,49 @@
+/**
+ * Letter Sounds Game Type Definitions
+ */
+
+import type { LetterSoundsConfig } from './game';
+
+/**
+ * A single item: a letter whose sound is played, to find among the choices
+ */
+export interface LetterSoundsItem {
+  itemId: string; // Letter ('B')
+  letter: string; // Uppercase, used to play the sound
+  answer: string; // Letter as shown on its card ('b')
+  choices: string[]; // Answer plus distractors, shuffled
+}
+
+/**
+ * Default configuration values
+ */
+export const DEFAULT_LETTER_SOUNDS_CONFIG: LetterSoundsConfig = {
+  difficulty: 'auto',
+  letterCase: 'lowercase',
+  roundSize: 10,
+  soundEnabled: true,
+  hapticEnabled: true,
+};
+
+/**
+ * Game state interface (for Zustand store)
+ */
+export interface LetterSoundsState {
+  // Current session state
+  currentRound: number;
+  roundItems: LetterSoundsItem[]; // Items for current round
+  currentIndex: number; // Index in roundItems
+  currentScore: number; // Correct answers in current round
+  roundComplete: boolean;
+  showingFeedback: boolean; // True while the result of a tap is displayed
+  lastChoice: string | null; // Choice tapped for the current item
+  sessionId: string | null; // Answer event log session, new on each app load
+  config: LetterSoundsConfig;
+
+  // Actions
+  startNewRound: () => Promise<void>;
+  handleChoice: (choice: string, responseTimeMs?: number) => Promise<void>;
+  nextItem: () => void;
+  resetGame: () => void;
+  updateConfig: (config: Partial<LetterSoundsConfig>) => void;
+}
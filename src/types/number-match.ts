@@ -0,0 +1,42 @@
+/**
+ * Number Match Game Type Definitions
+ */
+
+import type { AnswerOutcome, NumberMatchConfig } from './game';
+
+export type { SwipeDirection } from './game';
+
+/**
+ * Default configuration values
+ */
+export const DEFAULT_NUMBER_MATCH_CONFIG: NumberMatchConfig = {
+  difficulty: 'auto',
+  range: 20,
+  roundSize: 10,
+  soundEnabled: true,
+  speakNumbers: false,
+  hapticEnabled: true,
+  answerButtons: false,
+  keyboardShortcuts: true,
+};
+
+/**
+ * Game state interface (for Zustand store)
+ */
+export interface NumberMatchState {
+  // Current session state
+  currentRound: number;
+  sessionNumbers: number[]; // Numbers for current round
+  currentIndex: number; // Index in sessionNumbers
+  currentScore: number; // Correct answers in this round
+  currentSkipped: number; // Skipped numbers in this round
+  roundComplete: boolean;
+  sessionId: string | null; // Answer event log session, new on each app load
+  config: NumberMatchConfig;
+
+  // Actions
+  startNewRound: () => Promise<void>;
+  recordAnswer: (outcome: AnswerOutcome, responseTimeMs?: number) => Promise<void>;
+  resetGame: () => void;
+  updateConfig: (config: Partial<NumberMatchConfig>) => void;
+}
@@ -0,0 +1,58 @@
+/**
+ * Orientation Game Type Definitions
+ */
+
+import type { OrientationGameConfig } from './game';
+
+/**
+ * Which of the two cards a choice or correct answer refers to
+ */
+export type ChoiceSide = 'left' | 'right';
+
+/**
+ * Character pair shown during gameplay
+ * One card is drawn normally, the other mirrored horizontally
+ */
+export interface OrientationItem {
+  itemId: string; // Matches OrientationGameStatistics.itemId
+  character: string; // The actual character ('b', 'N', '3')
+  characterType: 'letter' | 'number';
+  caseType: 'uppercase' | 'lowercase' | 'n/a';
+  correctSide: ChoiceSide; // Which side has the correct orientation
+}
+
+/**
+ * Default configuration values
+ */
+export const DEFAULT_ORIENTATION_GAME_CONFIG: OrientationGameConfig = {
+  difficulty: 'auto',
+  characterType: 'both',
+  letterCase: 'both',
+  roundSize: 10,
+  soundEnabled: true,
+  hapticEnabled: true,
+  showHints: false,
+};
+
+/**
+ * Game state interface (for Zustand store)
+ */
+export interface OrientationGameState {
+  // Current session state
+  currentRound: number;
+  roundItems: OrientationItem[]; // Character pairs for current round
+  currentIndex: number; // Index in roundItems
+  currentScore: number; // Correct answers in this round
+  roundComplete: boolean;
+  showingFeedback: boolean; // True while the result of a tap is displayed
+  lastChoice: ChoiceSide | null; // Card tapped for the current item
+  sessionId: string | null; // Answer event log session, new on each app load
+  config: OrientationGameConfig;
+
+  // Actions
+  startNewRound: () => Promise<void>;
+  handleChoice: (choice: ChoiceSide, responseTimeMs?: number) => Promise<void>;
+  nextItem: () => void;
+  resetGame: () => void;
+  updateConfig: (config: Partial<OrientationGameConfig>) => void;
+}
@@ -0,0 +1,52 @@
+/**
+ * Sight Words Game Type Definitions
+ */
+
+import type { AnswerOutcome, SightWordListId, SightWordsConfig } from './game';
+
+export type { SwipeDirection } from './game';
+
+/**
+ * A bundled word list the parent can enable or disable
+ */
+export interface SightWordList {
+  id: SightWordListId;
+  name: string; // 'Pre-Primer'
+  source: string; // Where the list comes from ('Dolch')
+  words: string[];
+}
+
+/**
+ * Default configuration values
+ */
+export const DEFAULT_SIGHT_WORDS_CONFIG: SightWordsConfig = {
+  difficulty: 'auto',
+  enabledLists: ['pre-primer'],
+  roundSize: 10,
+  soundEnabled: true,
+  speakWords: false,
+  hapticEnabled: true,
+  answerButtons: false,
+  keyboardShortcuts: true,
+};
+
+/**
+ * Game state interface (for Zustand store)
+ */
+export interface SightWordsState {
+  // Current session state
+  currentRound: number;
+  sessionWords: string[]; // Words for current round
+  currentIndex: number; // Index in sessionWords
+  currentScore: number; // Correct answers in this round
+  currentSkipped: number; // Skipped words in this round
+  roundComplete: boolean;
+  sessionId: string | null; // Answer event log session, new on each app load
+  config: SightWordsConfig;
+
+  // Actions
+  startNewRound: () => Promise<void>;
+  recordAnswer: (outcome: AnswerOutcome, responseTimeMs?: number) => Promise<void>;
+  resetGame: () => void;
+  updateConfig: (config: Partial<SightWordsConfig>) => void;
+}
@@ -0,0 +1,62 @@
+/**
+ * Subitizing Game Type Definitions
+ */
+
+import type { SubitizingConfig, SubitizingPattern } from './game';
+
+/**
+ * Where one dot sits in the random pattern, in % of the pattern area
+ */
+export interface DotPosition {
+  x: number;
+  y: number;
+}
+
+/**
+ * A single item: a dot pattern flashed briefly, then the quantity to find among the choices
+ */
+export interface SubitizingItem {
+  itemId: string; // Quantity and pattern ('4-dice')
+  quantity: number;
+  pattern: SubitizingPattern;
+  positions: DotPosition[]; // One per dot (random pattern only, else empty)
+  choices: number[]; // Quantity plus distractors, shuffled
+}
+
+/**
+ * Default configuration values
+ */
+export const DEFAULT_SUBITIZING_CONFIG: SubitizingConfig = {
+  difficulty: 'auto',
+  range: 5,
+  patterns: ['dice', 'ten-frame', 'random'],
+  displayDuration: 1500,
+  adaptiveDuration: true,
+  roundSize: 10,
+  soundEnabled: true,
+  speakNumbers: true,
+  hapticEnabled: true,
+};
+
+/**
+ * Game state interface (for Zustand store)
+ */
+export interface SubitizingState {
+  // Current session state
+  currentRound: number;
+  roundItems: SubitizingItem[]; // Items for current round
+  currentIndex: number; // Index in roundItems
+  currentScore: number; // Correct answers in current round
+  roundComplete: boolean;
+  showingFeedback: boolean; // True while the result of a tap is displayed
+  lastChoice: number | null; // Choice tapped for the current item
+  sessionId: string | null; // Answer event log session, new on each app load
+  config: SubitizingConfig;
+
+  // Actions
+  startNewRound: () => Promise<void>;
+  handleChoice: (choice: number, responseTimeMs?: number) => Promise<void>;
+  nextItem: () => void;
+  resetGame: () => void;
+  updateConfig: (config: Partial<SubitizingConfig>) => void;
+}
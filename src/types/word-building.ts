@@ -0,0 +1,69 @@
+/**
+ * Word Builder Game Type Definitions
+ */
+
+import type { LetterPosition, WordBuildingConfig } from './game';
+
+/**
+ * A consonant-vowel-consonant word, with a picture when one is bundled
+ */
+export interface CvcWord {
+  word: string; // Lowercase ('cat')
+  image?: string; // Path under public/ ('/images/cat.svg'); spoken only without one
+}
+
+/**
+ * A single item: a word to spell from letter tiles
+ */
+export interface WordBuildingItem {
+  itemId: string; // The word ('cat')
+  word: string;
+  image?: string;
+  tiles: string[]; // The word's letters plus distractors, shuffled
+}
+
+/**
+ * Result of checking one slot after all slots are filled
+ */
+export type SlotResult = 'correct' | 'incorrect';
+
+/**
+ * Letter positions of a CVC word, in order
+ */
+export const LETTER_POSITIONS: LetterPosition[] = ['onset', 'vowel', 'coda'];
+
+/**
+ * Default configuration values
+ */
+export const DEFAULT_WORD_BUILDING_CONFIG: WordBuildingConfig = {
+  difficulty: 'auto',
+  roundSize: 8,
+  soundEnabled: true,
+  speakWords: true,
+  hapticEnabled: true,
+};
+
+/**
+ * Game state interface (for Zustand store)
+ */
+export interface WordBuildingState {
+  // Current session state
+  currentRound: number;
+  roundItems: WordBuildingItem[]; // Words for current round
+  currentIndex: number; // Index in roundItems
+  currentScore: number; // Words spelled without mistakes
+  placements: (number | null)[]; // Tile index placed in each slot (null = empty)
+  slotResults: SlotResult[] | null; // Set while the checked answer is shown
+  roundComplete: boolean;
+  sessionId: string | null; // Answer event log session, new on each app load
+  config: WordBuildingConfig;
+
+  // Actions
+  startNewRound: () => Promise<void>;
+  placeTile: (tileIndex: number, position?: number) => void;
+  removeTile: (position: number) => void;
+  checkWord: (responseTimeMs?: number) => Promise<void>;
+  nextItem: () => void;
+  resetGame: () => void;
+  updateConfig: (config: Partial<WordBuildingConfig>) => void;
+}
@@ -2,6 +2,7 @@ import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import { VitePWA } from 'vite-plugin-pwa';
 import path from 'path';
+import { createGameShortcuts } from './src/games/configs';
 
 // https://vitejs.dev/config/
 export default defineConfig({
@@ -20,6 +21,10 @@ export default defineConfig({
         orientation: 'portrait',
         start_url: '/',
         scope: '/',
+        categories: ['education', 'kids'],
+        lang: 'en-US',
+        dir: 'ltr',
+        shortcuts: createGameShortcuts(),
         icons: [
           {
             src: '/icons/icon-192.png',